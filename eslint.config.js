@@ -16,7 +16,9 @@ export default [
       },
       globals: {
         console: 'readonly',
-        process: 'readonly'
+        process: 'readonly',
+        // Node 全局类型（@types/node 声明），仅用于类型标注
+        AbortSignal: 'readonly'
       }
     },
     plugins: {
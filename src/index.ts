@@ -8,6 +8,9 @@ export * from './patterns/creational/factoryMethod/FactoryMethod'
 export * from './patterns/creational/factoryMethod/Transport'
 export * from './patterns/creational/builder/Builder'
 export * from './patterns/behavioral/strategy/PaymentStrategy'
+export * from './patterns/behavioral/strategy/Idempotency'
+export * from './patterns/behavioral/strategy/PaymentErrors'
+export * from './patterns/behavioral/strategy/RuleBasedRisk'
 export * from './patterns/structural/bridge/PaymentBridge'
 export * from './patterns/structural/bridge/PSPConfigBuilder'
 export * from './patterns/creational/prototype/Prototype'
@@ -15,5 +18,8 @@ export * from './patterns/structural/flyweight/ParticleGameFlyweight'
 export * from './patterns/behavioral/visitor/Visitor'
 export * from './patterns/behavioral/command/Command'
 export * from './patterns/behavioral/chain/UIChain'
+export * from './patterns/behavioral/chain/examples/SimpleExpressMiddleware'
+export * from './patterns/behavioral/chain/examples/BuiltinMiddlewares'
+export * from './patterns/behavioral/chain/examples/AuthMiddlewares'
 
 export default { greet }
@@ -0,0 +1,254 @@
+/**
+ * 责任链构建器
+ * 用名称管理处理器，支持在链中任意位置插入、删除、替换，
+ * 构建前校验环和不可达的处理器，构建出的链不可再修改
+ *
+ * 默认每个处理器的下一个是列表中的后一个；
+ * link(from, to) 可以让处理器跳到指定处理器，end(name) 让链在此结束
+ */
+
+import {
+  ChainResult,
+  Handler,
+  HandlerOptions,
+  Pass,
+  TraceEntry,
+} from './UltraMinimalChain'
+
+export type StepProcess<TRequest, TResponse> = (
+  req: TRequest
+) => TResponse | Pass | undefined
+
+export type ChainIssueKind = 'empty' | 'cycle' | 'unreachable' | 'unknown_next'
+
+export interface ChainIssue {
+  kind: ChainIssueKind
+  // 相关处理器名称；环按经过的顺序列出
+  names: string[]
+  message: string
+}
+
+export class ChainValidationError extends Error {
+  constructor(readonly issues: ChainIssue[]) {
+    super(issues.map(issue => issue.message).join('; '))
+    this.name = 'ChainValidationError'
+  }
+}
+
+interface Step<TRequest, TResponse> {
+  name: string
+  process: StepProcess<TRequest, TResponse>
+  // undefined：列表中的后一个；null：链在此结束；字符串：跳到指定处理器
+  next?: string | null
+}
+
+/**
+ * 构建出的链：处理器列表在构建时复制，之后修改构建器不会影响已构建的链
+ */
+export class BuiltChain<TRequest = unknown, TResponse = unknown> {
+  readonly names: readonly string[]
+
+  constructor(
+    private head: Handler<TRequest, TResponse>,
+    names: string[]
+  ) {
+    this.names = Object.freeze([...names])
+    Object.freeze(this)
+  }
+
+  handle(req: TRequest, trace?: TraceEntry[]): TResponse | undefined {
+    return this.head.handle(req, trace)
+  }
+
+  resolve(req: TRequest, trace?: TraceEntry[]): ChainResult<TResponse> {
+    return this.head.resolve(req, trace)
+  }
+}
+
+export class ChainBuilder<TRequest = unknown, TResponse = unknown> {
+  private steps: Step<TRequest, TResponse>[] = []
+
+  constructor(private options: Pick<HandlerOptions, 'passOnUndefined'> = {}) {}
+
+  /** 追加到链尾 */
+  add(name: string, process: StepProcess<TRequest, TResponse>): this {
+    this.assertUnique(name)
+    this.steps.push({ name, process })
+    return this
+  }
+
+  insertBefore(
+    target: string,
+    name: string,
+    process: StepProcess<TRequest, TResponse>
+  ): this {
+    this.assertUnique(name)
+    this.steps.splice(this.indexOf(target), 0, { name, process })
+    return this
+  }
+
+  insertAfter(
+    target: string,
+    name: string,
+    process: StepProcess<TRequest, TResponse>
+  ): this {
+    this.assertUnique(name)
+    this.steps.splice(this.indexOf(target) + 1, 0, { name, process })
+    return this
+  }
+
+  /** 删除处理器；仍然 link 到它的处理器会在校验时报告 unknown_next */
+  remove(name: string): this {
+    this.steps.splice(this.indexOf(name), 1)
+    return this
+  }
+
+  /** 替换处理逻辑，保留位置和 link 设置 */
+  replace(name: string, process: StepProcess<TRequest, TResponse>): this {
+    this.steps[this.indexOf(name)].process = process
+    return this
+  }
+
+  /** 让 from 处理不了时跳到 to，而不是列表中的后一个 */
+  link(from: string, to: string): this {
+    this.steps[this.indexOf(from)].next = to
+    return this
+  }
+
+  /** 让链在 name 处结束 */
+  end(name: string): this {
+    this.steps[this.indexOf(name)].next = null
+    return this
+  }
+
+  names(): string[] {
+    return this.steps.map(step => step.name)
+  }
+
+  /** 从第一个处理器出发沿 next 走一遍，找出环、不可达和指向不存在的处理器 */
+  validate(): ChainIssue[] {
+    if (this.steps.length === 0) {
+      return [{ kind: 'empty', names: [], message: 'Chain has no handlers' }]
+    }
+
+    const issues: ChainIssue[] = []
+    const byName = new Map(this.steps.map(step => [step.name, step]))
+    this.steps.forEach((step, index) => {
+      const next = this.successorOf(index)
+      if (next !== undefined && !byName.has(next)) {
+        issues.push({
+          kind: 'unknown_next',
+          names: [step.name],
+          message: `Handler "${step.name}" links to unknown handler "${next}"`,
+        })
+      }
+    })
+
+    const path: string[] = []
+    let current: string | undefined = this.steps[0].name
+    while (current !== undefined && byName.has(current)) {
+      const start = path.indexOf(current)
+      if (start !== -1) {
+        const cycle = [...path.slice(start), current]
+        issues.push({
+          kind: 'cycle',
+          names: cycle,
+          message: `Cycle detected: ${cycle.join(' -> ')}`,
+        })
+        break
+      }
+      path.push(current)
+      current = this.successorOf(this.indexOf(current))
+    }
+
+    const unreachable = this.names().filter(name => !path.includes(name))
+    if (unreachable.length > 0) {
+      issues.push({
+        kind: 'unreachable',
+        names: unreachable,
+        message: `Unreachable handlers: ${unreachable.join(', ')}`,
+      })
+    }
+    return issues
+  }
+
+  /** 校验通过后构建链，否则抛出 ChainValidationError */
+  build(): BuiltChain<TRequest, TResponse> {
+    const issues = this.validate()
+    if (issues.length > 0) throw new ChainValidationError(issues)
+
+    // 校验已保证从头出发是一条无环的路径，从尾到头依次创建处理器
+    const path: Step<TRequest, TResponse>[] = []
+    let index: number | undefined = 0
+    while (index !== undefined) {
+      path.push(this.steps[index])
+      const next = this.successorOf(index)
+      index = next === undefined ? undefined : this.indexOf(next)
+    }
+    const head = path.reduceRight<Handler<TRequest, TResponse> | undefined>(
+      (next, step) =>
+        new Handler(step.process, next, {
+          ...this.options,
+          name: step.name,
+        }),
+      undefined
+    )
+    return new BuiltChain(head!, this.names())
+  }
+
+  private successorOf(index: number): string | undefined {
+    const { next } = this.steps[index]
+    if (next === null) return undefined
+    return next ?? this.steps[index + 1]?.name
+  }
+
+  private indexOf(name: string): number {
+    const index = this.steps.findIndex(step => step.name === name)
+    if (index === -1) throw new Error(`Unknown handler "${name}"`)
+    return index
+  }
+
+  private assertUnique(name: string): void {
+    if (this.steps.some(step => step.name === name)) {
+      throw new Error(`Handler "${name}" already exists`)
+    }
+  }
+}
+
+// ============ 使用示例 ============
+
+export function chainBuilderDemo(): void {
+  console.log('🧱 ChainBuilder 演示')
+
+  const builder = new ChainBuilder<number, string>()
+    .add('teamLeader', days => (days <= 1 ? '组长批准' : undefined))
+    .add('director', days => (days <= 7 ? '总监批准' : undefined))
+    .insertBefore('director', 'manager', days =>
+      days <= 3 ? '经理批准' : undefined
+    )
+
+  const chain = builder.build()
+  const trace: TraceEntry[] = []
+  console.log(chain.names.join(' → '))
+  console.log(
+    chain.handle(3, trace),
+    trace.map(entry => entry.name)
+  )
+
+  // 构建后的链不受后续修改影响
+  builder.replace('manager', days => (days <= 5 ? '经理批准' : undefined))
+  console.log(chain.handle(5), builder.build().handle(5))
+
+  // 配置错误会在构建时报告，而不是运行时死循环
+  builder.link('director', 'manager')
+  try {
+    builder.build()
+  } catch (err) {
+    console.log(`❌ ${(err as Error).message}`)
+  }
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  chainBuilderDemo()
+}
@@ -17,6 +17,7 @@
  * 2. 性能问题：如果链太长，可能会影响性能，特别是在调试时难以追踪
  * 3. 调试困难：请求的处理路径不明确，需要从头到尾检查整条链
  * 4. 可能产生循环引用：如果链配置不当，可能会造成死循环
+ *    （ChainBuilder.ts 会在构建时检测环和不可达的处理器）
  *
  * 🎯 适用场景：
  * 1. 多个对象可以处理同一请求，但具体由哪个对象处理在运行时确定
@@ -46,23 +47,93 @@
  * ============================================================
  */
 
+import { performance } from 'node:perf_hooks'
+
+/**
+ * 显式的"传给下一个"标记
+ * 处理函数返回 pass() 表示自己不处理，这样 undefined 也可以作为正常结果
+ */
+export const PASS: unique symbol = Symbol('pass')
+export type Pass = typeof PASS
+
+export function pass(): Pass {
+  return PASS
+}
+
+export interface HandlerOptions {
+  // 处理器名称，用于追踪记录，默认 'anonymous'
+  name?: string
+  // 为 true（默认）时返回 undefined 也视为传递，兼容旧写法
+  // 设为 false 后只有 pass() 才会传递，undefined 是合法的处理结果
+  passOnUndefined?: boolean
+}
+
+export type TraceDecision = 'handled' | 'passed' | 'threw'
+
+/** 一次请求经过某个处理器的记录 */
+export interface TraceEntry {
+  name: string
+  decision: TraceDecision
+  durationMs: number
+}
+
+/** 处理结果：handled 为 true 时 by 是给出结果的处理器名称 */
+export type ChainResult<TResponse> =
+  | { handled: true; value: TResponse; by: string }
+  | { handled: false }
+
+type Decided<TResponse> = TResponse | Pass | undefined
+
+function isPassed(result: unknown, passOnUndefined: boolean): boolean {
+  return result === PASS || (passOnUndefined && result === undefined)
+}
+
 /**
  * 责任链处理器
  * @template TRequest 请求类型
  * @template TResponse 响应类型
  */
 export class Handler<TRequest = unknown, TResponse = unknown> {
+  readonly name: string
+  private passOnUndefined: boolean
+
   constructor(
-    private process: (req: TRequest) => TResponse | undefined,
-    private next?: Handler<TRequest, TResponse>
-  ) {}
+    private process: (req: TRequest) => Decided<TResponse>,
+    private next?: Handler<TRequest, TResponse>,
+    options: HandlerOptions = {}
+  ) {
+    this.name = options.name ?? 'anonymous'
+    this.passOnUndefined = options.passOnUndefined ?? true
+  }
 
   /**
    * 处理请求，如果当前处理器无法处理，则传递给下一个处理器
+   * 传入 trace 数组时，会按顺序记录经过的每个处理器
+   */
+  handle(req: TRequest, trace?: TraceEntry[]): TResponse | undefined {
+    const result = this.resolve(req, trace)
+    return result.handled ? result.value : undefined
+  }
+
+  /**
+   * 与 handle 相同，但能区分"没有处理器处理"和"处理结果是 undefined"
    */
-  handle(req: TRequest): TResponse | undefined {
-    const result = this.process(req)
-    return result !== undefined ? result : this.next?.handle(req)
+  resolve(req: TRequest, trace?: TraceEntry[]): ChainResult<TResponse> {
+    const start = performance.now()
+    let result: Decided<TResponse>
+    try {
+      result = this.process(req)
+    } catch (err) {
+      this.record(trace, 'threw', start)
+      throw err
+    }
+
+    if (!isPassed(result, this.passOnUndefined)) {
+      this.record(trace, 'handled', start)
+      return { handled: true, value: result as TResponse, by: this.name }
+    }
+    this.record(trace, 'passed', start)
+    return this.next ? this.next.resolve(req, trace) : { handled: false }
   }
 
   /**
@@ -72,62 +143,166 @@ export class Handler<TRequest = unknown, TResponse = unknown> {
     this.next = next
     return this
   }
+
+  private record(
+    trace: TraceEntry[] | undefined,
+    decision: TraceDecision,
+    start: number
+  ): void {
+    trace?.push({
+      name: this.name,
+      decision,
+      durationMs: performance.now() - start,
+    })
+  }
 }
 
-// ============ 使用示例 ============
+/**
+ * 异步责任链处理器：处理函数可以返回 Promise，其余行为与 Handler 一致
+ * 每个处理器等上一个处理器给出决定后才会执行
+ */
+export class AsyncHandler<TRequest = unknown, TResponse = unknown> {
+  readonly name: string
+  private passOnUndefined: boolean
 
-// 示例1：基础用法 - 类型检查器
-const numberHandler = new Handler<unknown, string>(x =>
-  typeof x === 'number' ? `数字:${x}` : undefined
-)
-const stringHandler = new Handler<unknown, string>(
-  x => (typeof x === 'string' ? `字符串:${x}` : undefined),
-  numberHandler
-)
+  constructor(
+    private process: (
+      req: TRequest
+    ) => Decided<TResponse> | Promise<Decided<TResponse>>,
+    private next?: AsyncHandler<TRequest, TResponse>,
+    options: HandlerOptions = {}
+  ) {
+    this.name = options.name ?? 'anonymous'
+    this.passOnUndefined = options.passOnUndefined ?? true
+  }
+
+  async handle(
+    req: TRequest,
+    trace?: TraceEntry[]
+  ): Promise<TResponse | undefined> {
+    const result = await this.resolve(req, trace)
+    return result.handled ? result.value : undefined
+  }
+
+  async resolve(
+    req: TRequest,
+    trace?: TraceEntry[]
+  ): Promise<ChainResult<TResponse>> {
+    const start = performance.now()
+    let result: Decided<TResponse>
+    try {
+      result = await this.process(req)
+    } catch (err) {
+      this.record(trace, 'threw', start)
+      throw err
+    }
+
+    if (!isPassed(result, this.passOnUndefined)) {
+      this.record(trace, 'handled', start)
+      return { handled: true, value: result as TResponse, by: this.name }
+    }
+    this.record(trace, 'passed', start)
+    return this.next ? this.next.resolve(req, trace) : { handled: false }
+  }
+
+  setNext(next: AsyncHandler<TRequest, TResponse>): this {
+    this.next = next
+    return this
+  }
 
-console.log('📦 示例1: 基础用法')
-console.log(stringHandler.handle('你好')) // 字符串:你好
-console.log(stringHandler.handle(42)) // 数字:42
-console.log(stringHandler.handle(true)) // undefined (无处理器)
+  private record(
+    trace: TraceEntry[] | undefined,
+    decision: TraceDecision,
+    start: number
+  ): void {
+    trace?.push({
+      name: this.name,
+      decision,
+      durationMs: performance.now() - start,
+    })
+  }
+}
 
-// 示例2：实际应用 - 日志级别处理
-console.log('\n📦 示例2: 日志级别处理')
+// ============ 使用示例 ============
 
 interface LogRequest {
   level: 'debug' | 'info' | 'warn' | 'error'
   message: string
 }
 
-const errorLogger = new Handler<LogRequest, boolean>(req => {
-  if (req.level === 'error') {
-    console.log(`❌ ERROR: ${req.message}`)
-    return true
-  }
-  return undefined
-})
+export async function ultraMinimalChainDemo(): Promise<void> {
+  // 示例1：基础用法 - 类型检查器
+  const numberHandler = new Handler<unknown, string>(x =>
+    typeof x === 'number' ? `数字:${x}` : undefined
+  )
+  const stringHandler = new Handler<unknown, string>(
+    x => (typeof x === 'string' ? `字符串:${x}` : undefined),
+    numberHandler
+  )
 
-const warnLogger = new Handler<LogRequest, boolean>(req => {
-  if (req.level === 'warn') {
-    console.log(`⚠️  WARN: ${req.message}`)
-    return true
-  }
-  return undefined
-}, errorLogger)
+  console.log('📦 示例1: 基础用法')
+  console.log(stringHandler.handle('你好')) // 字符串:你好
+  console.log(stringHandler.handle(42)) // 数字:42
+  console.log(stringHandler.handle(true)) // undefined (无处理器)
 
-const infoLogger = new Handler<LogRequest, boolean>(req => {
-  if (req.level === 'info') {
-    console.log(`ℹ️  INFO: ${req.message}`)
-    return true
-  }
-  return undefined
-}, warnLogger)
-
-infoLogger.handle({ level: 'info', message: '应用启动' })
-infoLogger.handle({ level: 'warn', message: '内存使用较高' })
-infoLogger.handle({ level: 'error', message: '连接失败' })
-
-console.log('\n💡 更多示例请查看 examples/ 目录')
-console.log('   - ApprovalChain.ts: 审批流程示例')
-console.log('   - ValidationChain.ts: 表单验证链示例')
-console.log('   - MiddlewareChain.ts: HTTP 中间件链示例')
-console.log('   - index.ts: 运行所有示例')
+  // 示例2：实际应用 - 日志级别处理（完整的日志框架见 examples/HierarchicalLogger.ts）
+  console.log('\n📦 示例2: 日志级别处理')
+
+  const errorLogger = new Handler<LogRequest, boolean>(req => {
+    if (req.level === 'error') {
+      console.log(`❌ ERROR: ${req.message}`)
+      return true
+    }
+    return undefined
+  })
+
+  const warnLogger = new Handler<LogRequest, boolean>(req => {
+    if (req.level === 'warn') {
+      console.log(`⚠️  WARN: ${req.message}`)
+      return true
+    }
+    return undefined
+  }, errorLogger)
+
+  const infoLogger = new Handler<LogRequest, boolean>(req => {
+    if (req.level === 'info') {
+      console.log(`ℹ️  INFO: ${req.message}`)
+      return true
+    }
+    return undefined
+  }, warnLogger)
+
+  infoLogger.handle({ level: 'info', message: '应用启动' })
+  infoLogger.handle({ level: 'warn', message: '内存使用较高' })
+  infoLogger.handle({ level: 'error', message: '连接失败' })
+
+  // 示例3：显式 pass()、异步处理器和追踪
+  console.log('\n📦 示例3: pass() + AsyncHandler + 追踪')
+
+  const cache = new Map<string, string | undefined>([['guest', undefined]])
+  const cacheLookup = new AsyncHandler<string, string | undefined>(
+    async key => (cache.has(key) ? cache.get(key) : pass()),
+    new AsyncHandler(async key => `db:${key}`, undefined, { name: 'database' }),
+    { name: 'cache', passOnUndefined: false }
+  )
+
+  const trace: TraceEntry[] = []
+  console.log(await cacheLookup.resolve('guest', trace)) // 缓存命中，值为 undefined
+  console.log(await cacheLookup.handle('alice', trace)) // db:alice
+  trace.forEach(entry =>
+    console.log(
+      `  ${entry.name} → ${entry.decision} (${entry.durationMs.toFixed(2)}ms)`
+    )
+  )
+
+  console.log('\n💡 更多示例请查看 examples/ 目录')
+  console.log('   - ApprovalChain.ts: 审批流程示例')
+  console.log('   - ValidationChain.ts: 表单验证链示例')
+  console.log('   - MiddlewareChain.ts: HTTP 中间件链示例')
+  console.log('   - index.ts: 运行所有示例')
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void ultraMinimalChainDemo()
+}
@@ -4,8 +4,9 @@
  */
 
 import { Handler } from '../UltraMinimalChain'
+import { ApprovalEngine, WorkflowDefinition } from './ApprovalWorkflow'
 
-interface LeaveRequest {
+export interface LeaveRequest {
   days: number
   employeeName: string
 }
@@ -43,3 +44,50 @@ export function approvalChainDemo(): void {
   console.log(teamLeader.handle({ days: 7, employeeName: '王五' })) // 总监批准
   console.log(teamLeader.handle({ days: 10, employeeName: '赵六' })) // undefined (需要更高层级)
 }
+
+// ============ 同一流程的配置化写法 ============
+
+/**
+ * 组长 → 经理 → 总监 的逐级审批，用 ApprovalWorkflow 配置表达
+ * 与上面的链不同：每一级都要同意才继续，超过 7 天的假期需要总监和 HR 共同审批
+ */
+export const leaveApprovalWorkflow: WorkflowDefinition<LeaveRequest> = {
+  name: 'leave',
+  steps: [
+    { id: 'teamLeader', approvers: ['teamLeader'] },
+    {
+      id: 'manager',
+      approvers: ['manager'],
+      when: req => req.days > 1,
+      // 经理一天没处理就交给总监
+      timeoutMs: 24 * 3_600_000,
+      escalateTo: ['director'],
+    },
+    { id: 'director', approvers: ['director'], when: req => req.days > 3 },
+    {
+      id: 'longLeave',
+      approvers: ['director', 'hr'],
+      mode: 'all',
+      when: req => req.days > 7,
+    },
+  ],
+}
+
+export async function leaveWorkflowDemo(): Promise<void> {
+  console.log('📋 场景1（配置化）: 请假审批工作流\n')
+
+  const engine = new ApprovalEngine(leaveApprovalWorkflow)
+  const request = await engine.submit('赵六', {
+    days: 10,
+    employeeName: '赵六',
+  })
+  console.log(`需要的步骤: ${request.steps.map(step => step.id).join(' → ')}`)
+
+  for (const approver of ['teamLeader', 'manager', 'director', 'director']) {
+    await engine.decide(request.id, approver, 'approve')
+  }
+  const result = await engine.decide(request.id, 'hr', 'approve')
+  console.log(
+    `${result.subject.employeeName} 的 ${result.subject.days} 天假期: ${result.status}`
+  )
+}
@@ -0,0 +1,462 @@
+/**
+ * 审批工作流引擎
+ * 在 ApprovalChain 的基础上：审批步骤由配置描述，每一步可以要求任一/全部审批人同意，
+ * 支持转交、超时升级，每个申请都有审计记录，待审批状态保存在存储中，审批结果可以稍后到达
+ */
+
+import { randomUUID } from 'node:crypto'
+
+// ============ 配置 ============
+
+export interface ApprovalStepConfig<TSubject> {
+  id: string
+  // 审批人；可以根据申请内容和申请人计算
+  approvers: string[] | ((subject: TSubject, requester: string) => string[])
+  // any：任一审批人同意即可（默认）；all：需要全部审批人同意
+  mode?: 'any' | 'all'
+  // 返回 false 时跳过该步骤，省略时总是需要
+  when?: (subject: TSubject) => boolean
+  // 超过该时长仍未完成时，交给 escalateTo 中的任一审批人
+  timeoutMs?: number
+  escalateTo?: string[]
+}
+
+export interface WorkflowDefinition<TSubject> {
+  name: string
+  steps: ApprovalStepConfig<TSubject>[]
+}
+
+// ============ 持久化的审批记录 ============
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected'
+
+export type AuditAction =
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'delegated'
+  | 'escalated'
+  | 'completed'
+
+export interface AuditEntry {
+  at: number
+  actor: string
+  action: AuditAction
+  step?: string
+  // 转交后由被转交人审批时，记录原审批人
+  onBehalfOf?: string
+  comment?: string
+}
+
+/** 申请提交时按配置展开的步骤，只包含可以序列化的数据 */
+export interface StepState {
+  id: string
+  mode: 'any' | 'all'
+  approvers: string[]
+  approvedBy: string[]
+  // 转交关系：被转交人 → 原审批人
+  delegates: Record<string, string>
+  timeoutMs?: number
+  escalateTo?: string[]
+  startedAt?: number
+  escalated: boolean
+}
+
+export interface ApprovalRecord<TSubject> {
+  id: string
+  // 每次保存加一，存储据此发现并发修改
+  version: number
+  workflow: string
+  requester: string
+  subject: TSubject
+  status: ApprovalStatus
+  steps: StepState[]
+  currentStep: number
+  audit: AuditEntry[]
+}
+
+export interface ApprovalStore<TSubject> {
+  /**
+   * 比较并保存：只有存储中的版本仍是 record.version - 1（新记录为不存在）时才写入，
+   * 否则抛出 ApprovalConflictError，避免两个并发的决定互相覆盖
+   */
+  save(record: ApprovalRecord<TSubject>): Promise<void>
+  load(id: string): Promise<ApprovalRecord<TSubject> | undefined>
+  list(): Promise<ApprovalRecord<TSubject>[]>
+}
+
+/** 内存存储：保存和读取时都做一次 JSON 往返，保证记录可以序列化，调用方也改不到内部状态 */
+export class InMemoryApprovalStore<TSubject>
+  implements ApprovalStore<TSubject>
+{
+  private records = new Map<string, string>()
+
+  async save(record: ApprovalRecord<TSubject>): Promise<void> {
+    const stored = this.records.get(record.id)
+    const version = stored === undefined ? 0 : JSON.parse(stored).version
+    if (version !== record.version - 1) {
+      throw new ApprovalConflictError(record.id)
+    }
+    this.records.set(record.id, JSON.stringify(record))
+  }
+
+  async load(id: string): Promise<ApprovalRecord<TSubject> | undefined> {
+    const json = this.records.get(id)
+    return json === undefined ? undefined : JSON.parse(json)
+  }
+
+  async list(): Promise<ApprovalRecord<TSubject>[]> {
+    return [...this.records.values()].map(json => JSON.parse(json))
+  }
+}
+
+// ============ 引擎 ============
+
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ApprovalError'
+  }
+}
+
+/** 保存时发现记录已被其他决定修改 */
+export class ApprovalConflictError extends ApprovalError {
+  constructor(readonly id: string) {
+    super(`Approval request "${id}" was modified concurrently`)
+    this.name = 'ApprovalConflictError'
+  }
+}
+
+// 并发冲突时重新读取并重试的次数
+const MAX_CONFLICT_RETRIES = 5
+
+// 转交关系只读写自有属性：审批人叫 constructor、toString、__proto__ 时不会碰到原型上的成员
+function delegatorOf(step: StepState, actor: string): string | undefined {
+  return Object.prototype.hasOwnProperty.call(step.delegates, actor)
+    ? step.delegates[actor]
+    : undefined
+}
+
+function addDelegate(step: StepState, to: string, from: string): void {
+  Object.defineProperty(step.delegates, to, {
+    value: from,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  })
+}
+
+export interface ApprovalEngineOptions<TSubject> {
+  store?: ApprovalStore<TSubject>
+  now?: () => number
+  generateId?: () => string
+}
+
+export class ApprovalEngine<TSubject> {
+  private store: ApprovalStore<TSubject>
+  private now: () => number
+  private generateId: () => string
+
+  constructor(
+    private definition: WorkflowDefinition<TSubject>,
+    options: ApprovalEngineOptions<TSubject> = {}
+  ) {
+    this.store = options.store ?? new InMemoryApprovalStore()
+    this.now = options.now ?? Date.now
+    this.generateId = options.generateId ?? randomUUID
+  }
+
+  /**
+   * 提交申请：按配置展开需要的步骤，没有步骤时直接通过
+   * 申请人不能审批自己的申请，展开时从审批人中去掉；去掉后没有审批人的步骤无法完成，直接报错
+   */
+  async submit(
+    requester: string,
+    subject: TSubject
+  ): Promise<ApprovalRecord<TSubject>> {
+    const steps = this.definition.steps
+      .filter(step => step.when?.(subject) ?? true)
+      .map((step): StepState => {
+        const approvers = (
+          typeof step.approvers === 'function'
+            ? step.approvers(subject, requester)
+            : step.approvers
+        ).filter(name => name !== requester)
+        if (approvers.length === 0) {
+          throw new ApprovalError(
+            `Step "${step.id}" has no approver other than "${requester}"`
+          )
+        }
+        return {
+          id: step.id,
+          mode: step.mode ?? 'any',
+          approvers,
+          approvedBy: [],
+          delegates: {},
+          timeoutMs: step.timeoutMs,
+          escalateTo: step.escalateTo,
+          escalated: false,
+        }
+      })
+    const record: ApprovalRecord<TSubject> = {
+      id: this.generateId(),
+      version: 1,
+      workflow: this.definition.name,
+      requester,
+      subject,
+      status: 'pending',
+      steps,
+      currentStep: 0,
+      audit: [{ at: this.now(), actor: requester, action: 'submitted' }],
+    }
+    this.startStep(record)
+    await this.store.save(record)
+    return record
+  }
+
+  /**
+   * 记录一个审批人的决定：任何一个拒绝都会结束申请，
+   * 同意后按步骤模式判断是否进入下一步
+   */
+  async decide(
+    id: string,
+    actor: string,
+    decision: 'approve' | 'reject',
+    comment?: string
+  ): Promise<ApprovalRecord<TSubject>> {
+    return this.update(id, record => {
+      const step = record.steps[record.currentStep]
+      const approver = delegatorOf(step, actor) ?? actor
+      if (!step.approvers.includes(approver)) {
+        throw new ApprovalError(
+          `"${actor}" is not an approver of step "${step.id}"`
+        )
+      }
+      if (decision === 'approve' && actor === record.requester) {
+        throw new ApprovalError(
+          `"${actor}" cannot approve their own request "${id}"`
+        )
+      }
+      if (step.approvedBy.includes(approver)) {
+        throw new ApprovalError(
+          `"${approver}" has already approved "${step.id}"`
+        )
+      }
+
+      const entry: AuditEntry = {
+        at: this.now(),
+        actor,
+        action: decision === 'approve' ? 'approved' : 'rejected',
+        step: step.id,
+        comment,
+      }
+      if (approver !== actor) entry.onBehalfOf = approver
+      record.audit.push(entry)
+
+      if (decision === 'reject') {
+        record.status = 'rejected'
+      } else {
+        step.approvedBy.push(approver)
+        const done =
+          step.mode === 'any' ||
+          step.approvers.every(name => step.approvedBy.includes(name))
+        if (done) {
+          record.currentStep++
+          this.startStep(record)
+        }
+      }
+    })
+  }
+
+  /**
+   * 审批人把当前步骤中自己的审批权转交给他人
+   * 不能转交给本步骤的审批人或已有的被转交人（all 模式下会少一个人、永远无法完成），也不能转交给申请人
+   */
+  async delegate(
+    id: string,
+    from: string,
+    to: string
+  ): Promise<ApprovalRecord<TSubject>> {
+    return this.update(id, record => {
+      const step = record.steps[record.currentStep]
+      if (!step.approvers.includes(from) || step.approvedBy.includes(from)) {
+        throw new ApprovalError(
+          `"${from}" has no pending approval in step "${step.id}"`
+        )
+      }
+      if (step.approvers.includes(to) || delegatorOf(step, to) !== undefined) {
+        throw new ApprovalError(`"${to}" already approves in step "${step.id}"`)
+      }
+      if (to === record.requester) {
+        throw new ApprovalError(
+          `Cannot delegate request "${id}" to its requester`
+        )
+      }
+      addDelegate(step, to, from)
+      record.audit.push({
+        at: this.now(),
+        actor: from,
+        action: 'delegated',
+        step: step.id,
+        comment: `to ${to}`,
+      })
+    })
+  }
+
+  /** 检查所有待审批的申请，把超时的当前步骤交给 escalateTo，返回被升级的申请 */
+  async escalateOverdue(): Promise<ApprovalRecord<TSubject>[]> {
+    const now = this.now()
+    const isOverdue = (record: ApprovalRecord<TSubject>): boolean => {
+      if (record.status !== 'pending') return false
+      const step = record.steps[record.currentStep]
+      return (
+        !step.escalated &&
+        !!step.escalateTo?.length &&
+        step.timeoutMs !== undefined &&
+        now - (step.startedAt ?? now) >= step.timeoutMs
+      )
+    }
+
+    const escalated: ApprovalRecord<TSubject>[] = []
+    for (const { id } of (await this.store.list()).filter(isOverdue)) {
+      let changed = false
+      try {
+        const record = await this.update(id, record => {
+          // 重新读取后再判断一次：列出之后可能已经有人审批或升级
+          if (!isOverdue(record)) return false
+          const step = record.steps[record.currentStep]
+          const escalateTo = step.escalateTo ?? []
+          step.escalated = true
+          step.mode = 'any'
+          step.approvers = [...escalateTo]
+          step.delegates = {}
+          record.audit.push({
+            at: now,
+            actor: 'system',
+            action: 'escalated',
+            step: step.id,
+            comment: `to ${escalateTo.join(', ')}`,
+          })
+          changed = true
+        })
+        if (changed) escalated.push(record)
+      } catch (err) {
+        // 列出之后申请已经结束，不再升级
+        const finished =
+          err instanceof ApprovalError &&
+          !(err instanceof ApprovalConflictError)
+        if (!finished) throw err
+      }
+    }
+    return escalated
+  }
+
+  async get(id: string): Promise<ApprovalRecord<TSubject> | undefined> {
+    return this.store.load(id)
+  }
+
+  /** 等待某人（包括被转交人）审批的申请 */
+  async pendingFor(approver: string): Promise<ApprovalRecord<TSubject>[]> {
+    return (await this.store.list()).filter(record => {
+      if (record.status !== 'pending') return false
+      const step = record.steps[record.currentStep]
+      const owner = delegatorOf(step, approver) ?? approver
+      return step.approvers.includes(owner) && !step.approvedBy.includes(owner)
+    })
+  }
+
+  /**
+   * 读取待审批的申请，应用修改后按版本保存；change 返回 false 表示不需要修改
+   * 保存时发现并发修改就重新读取、重新校验并再次应用，校验失败的错误原样抛出
+   */
+  private async update(
+    id: string,
+    change: (record: ApprovalRecord<TSubject>) => void | false
+  ): Promise<ApprovalRecord<TSubject>> {
+    for (let attempt = 1; ; attempt++) {
+      const record = await this.loadPending(id)
+      if (change(record) === false) return record
+      record.version++
+      try {
+        await this.store.save(record)
+        return record
+      } catch (err) {
+        if (
+          !(err instanceof ApprovalConflictError) ||
+          attempt >= MAX_CONFLICT_RETRIES
+        ) {
+          throw err
+        }
+      }
+    }
+  }
+
+  private async loadPending(id: string): Promise<ApprovalRecord<TSubject>> {
+    const record = await this.store.load(id)
+    if (!record) throw new ApprovalError(`Unknown approval request "${id}"`)
+    if (record.status !== 'pending') {
+      throw new ApprovalError(`Approval request "${id}" is ${record.status}`)
+    }
+    return record
+  }
+
+  private startStep(record: ApprovalRecord<TSubject>): void {
+    const step = record.steps[record.currentStep]
+    if (step) {
+      step.startedAt = this.now()
+      return
+    }
+    record.status = 'approved'
+    record.audit.push({ at: this.now(), actor: 'system', action: 'completed' })
+  }
+}
+
+// ============ 使用示例 ============
+
+export async function approvalWorkflowDemo(): Promise<void> {
+  console.log('📋 审批工作流演示')
+
+  const HOUR = 3_600_000
+  let now = 0
+  const store = new InMemoryApprovalStore<{ amount: number }>()
+  const definition: WorkflowDefinition<{ amount: number }> = {
+    name: 'purchase',
+    steps: [
+      { id: 'finance', approvers: ['alice', 'bob'], mode: 'all' },
+      {
+        id: 'cfo',
+        approvers: ['cfo'],
+        when: subject => subject.amount > 10_000,
+        timeoutMs: 24 * HOUR,
+        escalateTo: ['ceo'],
+      },
+    ],
+  }
+  const engine = new ApprovalEngine(definition, { store, now: () => now })
+
+  const request = await engine.submit('carol', { amount: 50_000 })
+  await engine.decide(request.id, 'alice', 'approve')
+  await engine.delegate(request.id, 'bob', 'dave')
+  await engine.decide(request.id, 'dave', 'approve', 'bob 休假，代为审批')
+
+  // 审批人一直没有处理：一天后由新的引擎实例（例如重启后的定时任务）升级给 CEO
+  now += 25 * HOUR
+  const later = new ApprovalEngine(definition, { store, now: () => now })
+  await later.escalateOverdue()
+  const result = await later.decide(request.id, 'ceo', 'approve')
+
+  console.log(`状态: ${result.status}`)
+  result.audit.forEach(entry =>
+    console.log(
+      `  ${entry.actor} ${entry.action}` +
+        (entry.step ? ` [${entry.step}]` : '') +
+        (entry.onBehalfOf ? ` (代 ${entry.onBehalfOf})` : '') +
+        (entry.comment ? ` - ${entry.comment}` : '')
+    )
+  )
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void approvalWorkflowDemo()
+}
@@ -0,0 +1,378 @@
+/**
+ * SimpleExpress 认证与授权中间件
+ * - jwtAuth：校验 HS256 签名的 JWT（含过期时间和时钟偏差），写入 req.user
+ * - rbac：按声明式策略（角色 → 权限，路由 → 所需权限）判断是否放行
+ * 拒绝时统一返回 { error, reason }：未认证 401，无权限 403
+ */
+
+import { Buffer } from 'node:buffer'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import {
+  compilePath,
+  createRequest,
+  createResponse,
+  Middleware,
+  Request,
+  Response,
+  SimpleExpress,
+} from './SimpleExpressMiddleware'
+
+// ============ JWT ============
+
+export interface JwtPayload {
+  sub?: string
+  name?: string
+  roles?: string[]
+  iss?: string
+  aud?: string | string[]
+  // 以下时间均为秒级时间戳
+  exp?: number
+  nbf?: number
+  iat?: number
+  [claim: string]: unknown
+}
+
+export type TokenErrorReason =
+  | 'malformed_token'
+  | 'unsupported_algorithm'
+  | 'invalid_signature'
+  | 'token_expired'
+  | 'token_not_yet_valid'
+  | 'invalid_claims'
+
+export class TokenError extends Error {
+  constructor(
+    readonly reason: TokenErrorReason,
+    message: string
+  ) {
+    super(message)
+    this.name = 'TokenError'
+  }
+}
+
+export interface VerifyOptions {
+  // 允许的时钟偏差（秒），用于 exp / nbf 判断，默认 30
+  clockToleranceSec?: number
+  issuer?: string
+  audience?: string
+  // 当前时间（毫秒），测试时可以注入
+  now?: () => number
+}
+
+const BASE64URL = /^[A-Za-z0-9_-]+$/
+
+const encodeSegment = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url')
+
+function decodeSegment(segment: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+  } catch {
+    throw new TokenError('malformed_token', 'Token segment is not valid JSON')
+  }
+}
+
+const hmac = (data: string, secret: string) =>
+  createHmac('sha256', secret).update(data).digest()
+
+/** 签发 HS256 令牌，expiresInSec 指定有效期（秒） */
+export function signJwt(
+  payload: JwtPayload,
+  secret: string,
+  {
+    expiresInSec,
+    now = Date.now,
+  }: { expiresInSec?: number; now?: () => number } = {}
+): string {
+  const iat = Math.floor(now() / 1000)
+  const claims: JwtPayload = { iat, ...payload }
+  if (expiresInSec !== undefined) claims.exp = iat + expiresInSec
+  const data = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}`
+  return `${data}.${hmac(data, secret).toString('base64url')}`
+}
+
+/**
+ * 校验 HS256 令牌并返回载荷
+ * 只接受 HS256，拒绝 alg: none 等其他算法；签名使用常量时间比较
+ */
+export function verifyJwt(
+  token: string,
+  secret: string,
+  options: VerifyOptions = {}
+): JwtPayload {
+  const { clockToleranceSec = 30, issuer, audience, now = Date.now } = options
+
+  const parts = token.split('.')
+  if (parts.length !== 3 || !parts.every(part => BASE64URL.test(part))) {
+    throw new TokenError(
+      'malformed_token',
+      'Token must have three base64url segments'
+    )
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts
+
+  const header = decodeSegment(headerSegment) as { alg?: unknown }
+  if (header?.alg !== 'HS256') {
+    throw new TokenError(
+      'unsupported_algorithm',
+      `Unsupported algorithm: ${String(header?.alg)}`
+    )
+  }
+
+  const expected = hmac(`${headerSegment}.${payloadSegment}`, secret)
+  const actual = Buffer.from(signatureSegment, 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new TokenError('invalid_signature', 'Token signature does not match')
+  }
+
+  const payload = decodeSegment(payloadSegment) as JwtPayload
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    Array.isArray(payload)
+  ) {
+    throw new TokenError('malformed_token', 'Token payload must be an object')
+  }
+
+  // 时间声明可以省略，但出现时必须是数字，否则会被当作没有限制
+  for (const claim of ['exp', 'nbf'] as const) {
+    const value = payload[claim]
+    if (value !== undefined && !Number.isFinite(value)) {
+      throw new TokenError(
+        'invalid_claims',
+        `Claim "${claim}" must be a number`
+      )
+    }
+  }
+
+  const seconds = now() / 1000
+  if (payload.exp !== undefined && seconds > payload.exp + clockToleranceSec) {
+    throw new TokenError('token_expired', 'Token has expired')
+  }
+  if (payload.nbf !== undefined && seconds + clockToleranceSec < payload.nbf) {
+    throw new TokenError('token_not_yet_valid', 'Token is not valid yet')
+  }
+  if (issuer !== undefined && payload.iss !== issuer) {
+    throw new TokenError('invalid_claims', 'Unexpected issuer')
+  }
+  if (audience !== undefined) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud]
+    if (!audiences.includes(audience)) {
+      throw new TokenError('invalid_claims', 'Unexpected audience')
+    }
+  }
+  return payload
+}
+
+// ============ 统一的拒绝响应 ============
+
+export function sendUnauthorized(res: Response, reason: string): void {
+  res.headers['WWW-Authenticate'] =
+    `Bearer error="invalid_token", error_description="${reason}"`
+  res.status(401).send({ error: 'Unauthorized', reason })
+}
+
+export function sendForbidden(res: Response, reason: string): void {
+  res.status(403).send({ error: 'Forbidden', reason })
+}
+
+// ============ 认证中间件 ============
+
+export interface JwtAuthOptions extends VerifyOptions {
+  secret: string
+}
+
+/** 从 Authorization: Bearer <token> 中读取并校验令牌，成功后写入 req.user */
+export function jwtAuth(options: JwtAuthOptions): Middleware {
+  const { secret, ...verifyOptions } = options
+
+  return (req, res, next) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers['authorization'] ?? '')
+    if (!match) {
+      sendUnauthorized(res, 'missing_token')
+      return
+    }
+
+    let payload: JwtPayload
+    try {
+      payload = verifyJwt(match[1], secret, verifyOptions)
+    } catch (err) {
+      if (!(err instanceof TokenError)) throw err
+      sendUnauthorized(res, err.reason)
+      return
+    }
+    if (typeof payload.sub !== 'string') {
+      sendUnauthorized(res, 'invalid_claims')
+      return
+    }
+
+    req.user = {
+      id: payload.sub,
+      name: payload.name ?? payload.sub,
+      roles: Array.isArray(payload.roles)
+        ? payload.roles.filter(role => typeof role === 'string')
+        : [],
+    }
+    return next()
+  }
+}
+
+// ============ RBAC ============
+
+export interface RoleDefinition {
+  // 权限形如 'posts:read'，支持 'posts:*' 和 '*'
+  permissions: string[]
+  // 继承其他角色的全部权限
+  inherits?: string[]
+}
+
+export interface AccessRule {
+  // 省略时匹配所有方法
+  method?: string | string[]
+  // 路由路径，支持 :param；以 /* 结尾时匹配该路径及其子路径
+  path: string
+  // 所需权限；public 为 true 时无需登录
+  permission?: string
+  public?: boolean
+}
+
+export interface RbacPolicy {
+  roles: Record<string, RoleDefinition>
+  // 按顺序匹配，第一个匹配的规则生效
+  rules: AccessRule[]
+  // 没有规则匹配时的处理，默认拒绝
+  fallback?: 'allow' | 'deny'
+}
+
+const permissionMatches = (granted: string, required: string): boolean =>
+  granted === '*' ||
+  granted === required ||
+  (granted.endsWith(':*') && required.startsWith(granted.slice(0, -1)))
+
+/** 展开角色继承后的全部权限，继承环不会导致死循环 */
+export function resolvePermissions(
+  policy: RbacPolicy,
+  roles: string[]
+): Set<string> {
+  const permissions = new Set<string>()
+  const visited = new Set<string>()
+  // 角色名来自令牌，只查找策略自身定义的角色，不能命中 constructor、__proto__ 等原型属性
+  const visit = (role: unknown) => {
+    if (typeof role !== 'string' || visited.has(role)) return
+    visited.add(role)
+    if (!Object.prototype.hasOwnProperty.call(policy.roles, role)) return
+    const definition = policy.roles[role]
+    definition.permissions.forEach(permission => permissions.add(permission))
+    definition.inherits?.forEach(visit)
+  }
+  roles.forEach(visit)
+  return permissions
+}
+
+export function can(
+  policy: RbacPolicy,
+  roles: string[],
+  permission: string
+): boolean {
+  return [...resolvePermissions(policy, roles)].some(granted =>
+    permissionMatches(granted, permission)
+  )
+}
+
+/**
+ * 按策略授权：规则使用完整路径匹配（挂载在子路由上时读取 originalUrl）
+ * 未登录访问受保护路由返回 401，缺少权限返回 403
+ */
+export function rbac(policy: RbacPolicy): Middleware {
+  const rules = policy.rules.map(rule => {
+    const prefix = rule.path.endsWith('/*')
+    const methods = rule.method === undefined ? undefined : [rule.method].flat()
+    return {
+      rule,
+      methods: methods?.map(method => method.toUpperCase()),
+      ...compilePath(
+        prefix ? rule.path.slice(0, -2) || '/' : rule.path,
+        prefix
+      ),
+    }
+  })
+
+  return (req: Request, res, next) => {
+    const path = (req.originalUrl ?? req.url).split('?')[0] || '/'
+    const method = req.method.toUpperCase()
+    const matched = rules.find(
+      ({ methods, pattern }) =>
+        (!methods || methods.includes(method)) && pattern.test(path)
+    )
+
+    if (!matched) {
+      if (policy.fallback === 'allow') return next()
+      sendForbidden(res, 'no_matching_rule')
+      return
+    }
+    const { rule } = matched
+    if (rule.public) return next()
+    if (!req.user) {
+      sendUnauthorized(res, 'missing_token')
+      return
+    }
+    if (
+      rule.permission &&
+      !can(policy, req.user.roles ?? [], rule.permission)
+    ) {
+      sendForbidden(res, 'missing_permission')
+      return
+    }
+    return next()
+  }
+}
+
+// ============ 使用示例 ============
+
+export async function authMiddlewaresDemo(): Promise<void> {
+  console.log('🔐 JWT 认证 + RBAC 授权演示')
+
+  const secret = 'demo-secret'
+  const policy: RbacPolicy = {
+    roles: {
+      reader: { permissions: ['posts:read'] },
+      admin: { permissions: ['posts:*', 'users:*'], inherits: ['reader'] },
+    },
+    rules: [
+      { method: 'GET', path: '/health', public: true },
+      { method: 'GET', path: '/posts/*', permission: 'posts:read' },
+      { method: 'DELETE', path: '/posts/:id', permission: 'posts:delete' },
+    ],
+  }
+
+  const app = new SimpleExpress()
+    .get('/health', (_req, res) => res.send('ok'))
+    .use(jwtAuth({ secret }), rbac(policy))
+    .get('/posts/:id', (req, res) => res.json({ id: req.params.id }))
+    .delete('/posts/:id', (_req, res) => res.send('deleted'))
+
+  const reader = signJwt({ sub: 'u1', roles: ['reader'] }, secret, {
+    expiresInSec: 60,
+  })
+  const admin = signJwt({ sub: 'u2', roles: ['admin'] }, secret, {
+    expiresInSec: 60,
+  })
+  const call = (method: string, url: string, token?: string) =>
+    app.handle(
+      createRequest(url, method, {
+        headers: token ? { authorization: `Bearer ${token}` } : {},
+      }),
+      createResponse()
+    )
+
+  await call('GET', '/health')
+  await call('GET', '/posts/1')
+  await call('GET', '/posts/1', reader)
+  await call('DELETE', '/posts/1', reader)
+  await call('DELETE', '/posts/1', admin)
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void authMiddlewaresDemo()
+}
@@ -0,0 +1,311 @@
+/**
+ * SimpleExpress 内置中间件
+ * 可配置、可单独测试的常用中间件：CORS、请求体解析、限流、请求 ID、访问日志
+ * 每个函数都返回一个普通的 Middleware，可以挂在 app、Router 或单个路由上
+ */
+
+import { Buffer } from 'node:buffer'
+import { randomUUID } from 'node:crypto'
+import { URLSearchParams } from 'node:url'
+import {
+  createRequest,
+  createResponse,
+  HttpError,
+  Middleware,
+  Request,
+  SimpleExpress,
+} from './SimpleExpressMiddleware'
+
+// ============ CORS ============
+
+export interface CorsOptions {
+  // 允许的来源：'*'、单个来源、来源列表或判断函数，默认 '*'
+  origin?: string | string[] | ((origin: string) => boolean)
+  methods?: string[]
+  // 预检请求允许的请求头，省略时回显 Access-Control-Request-Headers
+  allowedHeaders?: string[]
+  exposedHeaders?: string[]
+  credentials?: boolean
+  // 预检结果的缓存秒数
+  maxAge?: number
+}
+
+const DEFAULT_CORS_METHODS = ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE']
+
+function isOriginAllowed(
+  allowed: NonNullable<CorsOptions['origin']>,
+  origin: string
+): boolean {
+  if (typeof allowed === 'function') return allowed(origin)
+  if (Array.isArray(allowed)) return allowed.includes(origin)
+  return allowed === '*' || allowed === origin
+}
+
+/**
+ * 跨域资源共享：为允许的来源添加响应头，预检请求（OPTIONS）直接返回 204
+ * 不允许的来源不添加任何头，由浏览器拦截
+ */
+export function cors(options: CorsOptions = {}): Middleware {
+  const {
+    origin: allowed = '*',
+    methods = DEFAULT_CORS_METHODS,
+    allowedHeaders,
+    exposedHeaders = [],
+    credentials = false,
+    maxAge,
+  } = options
+
+  return (req, res, next) => {
+    const origin = req.headers['origin']
+    if (!origin || !isOriginAllowed(allowed, origin)) return next()
+
+    // 携带凭据时不能使用通配符，回显具体来源
+    const wildcard = allowed === '*' && !credentials
+    res.headers['Access-Control-Allow-Origin'] = wildcard ? '*' : origin
+    if (!wildcard) res.headers['Vary'] = 'Origin'
+    if (credentials) res.headers['Access-Control-Allow-Credentials'] = 'true'
+    if (exposedHeaders.length > 0) {
+      res.headers['Access-Control-Expose-Headers'] = exposedHeaders.join(', ')
+    }
+
+    const isPreflight =
+      req.method.toUpperCase() === 'OPTIONS' &&
+      req.headers['access-control-request-method'] !== undefined
+    if (!isPreflight) return next()
+
+    res.headers['Access-Control-Allow-Methods'] = methods.join(', ')
+    const headers =
+      allowedHeaders?.join(', ') ??
+      req.headers['access-control-request-headers']
+    if (headers) res.headers['Access-Control-Allow-Headers'] = headers
+    if (maxAge !== undefined) {
+      res.headers['Access-Control-Max-Age'] = String(maxAge)
+    }
+    res.status(204).send(undefined)
+  }
+}
+
+// ============ 请求体解析 ============
+
+export interface BodyParserOptions {
+  // 请求体最大字节数，默认 100KB，超过返回 413
+  limit?: number
+}
+
+const DEFAULT_BODY_LIMIT = 100 * 1024
+
+// 按 Content-Type 选择解析方式；原始文本来自适配器的 rawBody，没有时使用字符串形式的 body
+function bodyParser(
+  type: RegExp,
+  parse: (text: string) => unknown,
+  { limit = DEFAULT_BODY_LIMIT }: BodyParserOptions
+): Middleware {
+  return (req, _res, next) => {
+    if (!type.test(req.headers['content-type'] ?? '')) return next()
+    const raw =
+      req.rawBody ?? (typeof req.body === 'string' ? req.body : undefined)
+    if (raw === undefined || raw === '') return next()
+    if (Buffer.byteLength(raw) > limit) {
+      throw new HttpError(413, 'Payload Too Large')
+    }
+    req.body = parse(raw)
+    return next()
+  }
+}
+
+/** 解析 application/json（以及 +json 后缀）的请求体 */
+export function jsonBody(options: BodyParserOptions = {}): Middleware {
+  return bodyParser(
+    /[/+]json\b/i,
+    text => {
+      try {
+        return JSON.parse(text)
+      } catch {
+        throw new HttpError(400, 'Invalid JSON body')
+      }
+    },
+    options
+  )
+}
+
+/** 解析 application/x-www-form-urlencoded 的请求体，重复的键保留最后一个值 */
+export function urlencodedBody(options: BodyParserOptions = {}): Middleware {
+  return bodyParser(
+    /application\/x-www-form-urlencoded/i,
+    text => Object.fromEntries(new URLSearchParams(text)),
+    options
+  )
+}
+
+// ============ 限流 ============
+
+export interface RateLimitOptions {
+  // 桶容量，即允许的突发请求数，默认 60
+  capacity?: number
+  // 每秒补充的令牌数，默认 1
+  refillPerSecond?: number
+  // 区分客户端的键，默认使用客户端地址
+  key?: (req: Request) => string
+  // 当前时间（毫秒），测试时可以注入
+  now?: () => number
+  // 保存令牌桶的 Map，默认每个中间件实例单独一个
+  store?: Map<string, RateLimitBucket>
+}
+
+export interface RateLimitBucket {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * 令牌桶限流：每个客户端一个桶，请求消耗一个令牌，令牌按固定速率补充
+ * 令牌不足时返回 429 和 Retry-After 头
+ * 已经补满的桶与新建的桶没有区别，每隔一个补满周期清理一次，桶的数量不会随客户端无限增长
+ */
+export function rateLimit(options: RateLimitOptions = {}): Middleware {
+  const {
+    capacity = 60,
+    refillPerSecond = 1,
+    key = req => req.ip ?? 'unknown',
+    now = Date.now,
+    store: buckets = new Map<string, RateLimitBucket>(),
+  } = options
+  const refillMs = (capacity / refillPerSecond) * 1000
+  let lastSweep = now()
+
+  const sweep = (current: number) => {
+    for (const [id, bucket] of buckets) {
+      const elapsed = (current - bucket.updatedAt) / 1000
+      if (bucket.tokens + elapsed * refillPerSecond >= capacity) {
+        buckets.delete(id)
+      }
+    }
+    lastSweep = current
+  }
+
+  return (req, res, next) => {
+    const current = now()
+    if (current - lastSweep >= refillMs) sweep(current)
+    const id = key(req)
+    const bucket = buckets.get(id) ?? { tokens: capacity, updatedAt: current }
+    const elapsed = (current - bucket.updatedAt) / 1000
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + elapsed * refillPerSecond
+    )
+    bucket.updatedAt = current
+    buckets.set(id, bucket)
+
+    res.headers['X-RateLimit-Limit'] = String(capacity)
+    if (bucket.tokens < 1) {
+      const retryAfter = Math.ceil((1 - bucket.tokens) / refillPerSecond)
+      res.headers['X-RateLimit-Remaining'] = '0'
+      res.headers['Retry-After'] = String(retryAfter)
+      res.status(429).send({ error: 'Too Many Requests' })
+      return
+    }
+    bucket.tokens -= 1
+    res.headers['X-RateLimit-Remaining'] = String(Math.floor(bucket.tokens))
+    return next()
+  }
+}
+
+// ============ 请求 ID ============
+
+export interface RequestIdOptions {
+  // 读取和写回请求 ID 的头，默认 X-Request-Id
+  header?: string
+  generate?: () => string
+}
+
+// 只沿用格式安全的上游请求 ID，避免把任意内容写进响应头和日志
+const SAFE_REQUEST_ID = /^[\w.:-]{1,128}$/
+
+/** 为每个请求分配 ID：沿用上游传入的 ID 或生成新的，写入 req.id 和响应头 */
+export function requestId(options: RequestIdOptions = {}): Middleware {
+  const { header = 'X-Request-Id', generate = randomUUID } = options
+
+  return (req, res, next) => {
+    const incoming = req.headers[header.toLowerCase()]
+    req.id = incoming && SAFE_REQUEST_ID.test(incoming) ? incoming : generate()
+    res.headers[header] = req.id
+    return next()
+  }
+}
+
+// ============ 访问日志 ============
+
+export interface AccessLogEntry {
+  time: string
+  id?: string
+  method: string
+  url: string
+  status: number
+  durationMs: number
+  ip?: string
+}
+
+export interface AccessLogOptions {
+  // 输出日志，默认每行一条 JSON
+  write?: (entry: AccessLogEntry) => void
+  now?: () => number
+}
+
+/** 结构化访问日志：等后续中间件全部执行完，再记录最终状态码和耗时 */
+export function accessLog(options: AccessLogOptions = {}): Middleware {
+  const {
+    write = entry => console.log(JSON.stringify(entry)),
+    now = Date.now,
+  } = options
+
+  return async (req, res, next) => {
+    const start = now()
+    try {
+      await next()
+    } finally {
+      write({
+        time: new Date(start).toISOString(),
+        id: req.id,
+        method: req.method,
+        url: req.originalUrl ?? req.url,
+        status: res.statusCode,
+        durationMs: now() - start,
+        ip: req.ip,
+      })
+    }
+  }
+}
+
+// ============ 使用示例 ============
+
+export async function builtinMiddlewaresDemo(): Promise<void> {
+  console.log('🧰 SimpleExpress 内置中间件演示')
+
+  const app = new SimpleExpress()
+    .use(requestId())
+    .use(accessLog())
+    .use(cors({ origin: ['https://example.com'] }))
+    .use(rateLimit({ capacity: 2, refillPerSecond: 0.5 }))
+    .use(jsonBody({ limit: 1024 }))
+    .post('/echo', (req, res) => res.json(req.body))
+
+  const headers = {
+    origin: 'https://example.com',
+    'content-type': 'application/json',
+  }
+  for (let i = 0; i < 3; i++) {
+    await app.handle(
+      createRequest('/echo', 'POST', {
+        headers,
+        ip: '127.0.0.1',
+        rawBody: JSON.stringify({ attempt: i + 1 }),
+      }),
+      createResponse()
+    )
+  }
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void builtinMiddlewaresDemo()
+}
@@ -3,6 +3,8 @@
  * 直观展示两者的区别
  */
 
+import { Handler, TraceEntry } from '../UltraMinimalChain'
+
 console.log('🎯 责任链模式 vs 迭代器模式 - 对比演示\n')
 console.log('='.repeat(70))
 
@@ -12,58 +14,57 @@ console.log('='.repeat(70))
 
 console.log('\n【责任链模式】目标：找到能处理请求的处理器\n')
 
-class Handler<TRequest = unknown, TResponse = unknown> {
-  constructor(
-    private name: string,
-    private process: (req: TRequest) => TResponse | undefined,
-    private next?: Handler<TRequest, TResponse>
-  ) {}
-
-  handle(req: TRequest): TResponse | undefined {
-    console.log(`  → 尝试: ${this.name}`)
-    const result = this.process(req)
-
-    if (result !== undefined) {
-      console.log(`  ✅ ${this.name} 处理成功！`)
-      return result // 找到处理器，停止
-    }
-
-    console.log(`  ❌ ${this.name} 无法处理，传递给下一个`)
-    return this.next?.handle(req) // 继续传递
+// 使用 UltraMinimalChain 的 Handler，按追踪记录打印每一步
+function handleWithLog<TRequest, TResponse>(
+  handler: Handler<TRequest, TResponse>,
+  req: TRequest
+): TResponse | undefined {
+  const trace: TraceEntry[] = []
+  const result = handler.handle(req, trace)
+  for (const { name, decision } of trace) {
+    console.log(`  → 尝试: ${name}`)
+    console.log(
+      decision === 'handled'
+        ? `  ✅ ${name} 处理成功！`
+        : `  ❌ ${name} 无法处理，传递给下一个`
+    )
   }
+  return result
 }
 
 // 创建责任链
-const numberHandler = new Handler<unknown, string>('数字处理器', x =>
-  typeof x === 'number' ? `处理了数字: ${x * 2}` : undefined
+const numberHandler = new Handler<unknown, string>(
+  x => (typeof x === 'number' ? `处理了数字: ${x * 2}` : undefined),
+  undefined,
+  { name: '数字处理器' }
 )
 
 const stringHandler = new Handler<unknown, string>(
-  '字符串处理器',
   x => (typeof x === 'string' ? `处理了字符串: ${x.toUpperCase()}` : undefined),
-  numberHandler
+  numberHandler,
+  { name: '字符串处理器' }
 )
 
 const booleanHandler = new Handler<unknown, string>(
-  '布尔处理器',
   x => (typeof x === 'boolean' ? `处理了布尔: ${!x}` : undefined),
-  stringHandler
+  stringHandler,
+  { name: '布尔处理器' }
 )
 
 console.log('测试1: 处理字符串 "hello"')
-console.log(booleanHandler.handle('hello'))
+console.log(handleWithLog(booleanHandler, 'hello'))
 console.log('\n' + '-'.repeat(70) + '\n')
 
 console.log('测试2: 处理数字 42')
-console.log(booleanHandler.handle(42))
+console.log(handleWithLog(booleanHandler, 42))
 console.log('\n' + '-'.repeat(70) + '\n')
 
 console.log('测试3: 处理布尔值 true')
-console.log(booleanHandler.handle(true))
+console.log(handleWithLog(booleanHandler, true))
 console.log('\n' + '-'.repeat(70) + '\n')
 
 console.log('测试4: 处理数组 [] (无处理器)')
-console.log(booleanHandler.handle([]))
+console.log(handleWithLog(booleanHandler, []))
 
 console.log('\n' + '='.repeat(70))
 
@@ -121,13 +122,15 @@ const numbers = [10, 20, 30, 40, 50]
 // 方式1: 责任链 - 寻找符合条件的数字
 console.log('方式1: 责任链模式 - 找到第一个大于25的数字\n')
 
-const condition1 = new Handler<number, string>('检查 > 25', x =>
-  x > 25 ? `找到了: ${x}` : undefined
+const condition1 = new Handler<number, string>(
+  x => (x > 25 ? `找到了: ${x}` : undefined),
+  undefined,
+  { name: '检查 > 25' }
 )
 
 for (const num of numbers) {
   console.log(`尝试: ${num}`)
-  const result = condition1.handle(num)
+  const result = handleWithLog(condition1, num)
   if (result) {
     console.log(result)
     console.log('✋ 找到后停止\n')
@@ -167,25 +170,28 @@ interface LeaveRequest {
   name: string
 }
 
-const ceo = new Handler<LeaveRequest, string>('CEO', req =>
-  req.days <= 10 ? `CEO批准了${req.name}的${req.days}天假期` : undefined
+const ceo = new Handler<LeaveRequest, string>(
+  req =>
+    req.days <= 10 ? `CEO批准了${req.name}的${req.days}天假期` : undefined,
+  undefined,
+  { name: 'CEO' }
 )
 
 const manager = new Handler<LeaveRequest, string>(
-  '经理',
   req =>
     req.days <= 3 ? `经理批准了${req.name}的${req.days}天假期` : undefined,
-  ceo
+  ceo,
+  { name: '经理' }
 )
 
 const teamLeader = new Handler<LeaveRequest, string>(
-  '组长',
   req =>
     req.days <= 1 ? `组长批准了${req.name}的${req.days}天假期` : undefined,
-  manager
+  manager,
+  { name: '组长' }
 )
 
-const result = teamLeader.handle({ days: 3, name: '张三' })
+const result = handleWithLog(teamLeader, { days: 3, name: '张三' })
 console.log(`\n结果: ${result}`)
 console.log('💡 找到能批准的人就停止，不需要继续往上传递\n')
 
@@ -0,0 +1,392 @@
+/**
+ * 分层日志框架
+ * 在 UltraMinimalChain 日志级别示例的基础上：
+ * - 按名称分层的 Logger（app.db.pool），未设置级别时继承最近的上级
+ * - 可插拔的输出（控制台、按大小滚动的文件、内存环形缓冲区）和格式（pretty、JSON Lines、logfmt）
+ * - child() 创建携带绑定上下文的子 Logger
+ * 日志记录仍然沿责任链分发：每个输出是链上的一个处理器，可以调整顺序、过滤，或在写入后截断后续输出
+ */
+
+import { Buffer } from 'node:buffer'
+import {
+  appendFileSync,
+  existsSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs'
+import { ChainBuilder, BuiltChain } from '../ChainBuilder'
+import { pass } from '../UltraMinimalChain'
+
+// ============ 级别与记录 ============
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+export interface LogRecord {
+  time: number
+  level: LogLevel
+  logger: string
+  message: string
+  context: Record<string, unknown>
+}
+
+// ============ 格式 ============
+
+export type Formatter = (record: LogRecord) => string
+
+// Error 没有可枚举属性，直接序列化会变成 {}
+function plain(value: unknown): unknown {
+  return value instanceof Error
+    ? { name: value.name, message: value.message }
+    : value
+}
+
+/** 便于阅读的单行格式：时间 级别 [名称] 消息 key=value */
+export const prettyFormatter: Formatter = record => {
+  const context = Object.entries(record.context)
+    .map(([key, value]) => ` ${key}=${JSON.stringify(plain(value))}`)
+    .join('')
+  return `${new Date(record.time).toISOString()} ${record.level.toUpperCase().padEnd(5)} [${record.logger}] ${record.message}${context}`
+}
+
+/** 每行一个 JSON 对象，上下文字段展开到顶层 */
+export const jsonLinesFormatter: Formatter = record =>
+  JSON.stringify({
+    ...Object.fromEntries(
+      Object.entries(record.context).map(([key, value]) => [key, plain(value)])
+    ),
+    time: new Date(record.time).toISOString(),
+    level: record.level,
+    logger: record.logger,
+    msg: record.message,
+  })
+
+function logfmtValue(value: unknown): string {
+  const plainValue = plain(value)
+  const text =
+    typeof plainValue === 'string' ? plainValue : JSON.stringify(plainValue)
+  return /^[^\s"=]+$/.test(text) ? text : JSON.stringify(text)
+}
+
+/**
+ * logfmt：key=value 以空格分隔，含空格、引号或等号的值加引号
+ * 与 JSON Lines 一样，上下文中的同名字段不能覆盖核心字段；核心字段仍排在最前面
+ */
+export const logfmtFormatter: Formatter = record => {
+  const core = {
+    time: new Date(record.time).toISOString(),
+    level: record.level,
+    logger: record.logger,
+    msg: record.message,
+  }
+  return Object.entries({ ...core, ...record.context, ...core })
+    .map(([key, value]) => `${key}=${logfmtValue(value)}`)
+    .join(' ')
+}
+
+// ============ 输出 ============
+
+export interface Transport {
+  // 该输出接收的最低级别，省略时接收所有记录
+  level?: LogLevel
+  filter?: (record: LogRecord) => boolean
+  // 为 true 时写入后不再传给链上后面的输出
+  stop?: boolean
+  write(record: LogRecord): void
+}
+
+export function consoleTransport(
+  options: { level?: LogLevel; format?: Formatter } = {}
+): Transport {
+  const { level, format = prettyFormatter } = options
+  return {
+    level,
+    write: record =>
+      record.level === 'error'
+        ? console.error(format(record))
+        : console.log(format(record)),
+  }
+}
+
+/** 内存环形缓冲区：只保留最近 capacity 条记录，适合测试或在出错时导出最近的日志 */
+export class RingBufferTransport implements Transport {
+  private buffer: LogRecord[] = []
+
+  constructor(
+    private capacity = 1000,
+    readonly level?: LogLevel
+  ) {}
+
+  write(record: LogRecord): void {
+    this.buffer.push(record)
+    if (this.buffer.length > this.capacity) this.buffer.shift()
+  }
+
+  records(): LogRecord[] {
+    return [...this.buffer]
+  }
+
+  clear(): void {
+    this.buffer = []
+  }
+}
+
+export interface RotatingFileOptions {
+  path: string
+  // 单个文件的最大字节数，写入后会超过时先滚动
+  maxBytes?: number
+  // 保留的历史文件数：path.1 最新，path.<maxFiles> 最旧；为 0 时超过大小直接清空文件
+  maxFiles?: number
+  level?: LogLevel
+  format?: Formatter
+}
+
+/**
+ * 按大小滚动的文件输出，同步写入，进程退出前不会丢日志
+ * 文件大小只在创建时读取一次，之后在内存中累加，每次写入不再访问文件系统
+ */
+export function rotatingFileTransport(options: RotatingFileOptions): Transport {
+  const {
+    path,
+    maxBytes = 10 * 1024 * 1024,
+    maxFiles = 5,
+    level,
+    format = jsonLinesFormatter,
+  } = options
+
+  const rotate = () => {
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${path}.${index}`)) {
+        renameSync(`${path}.${index}`, `${path}.${index + 1}`)
+      }
+    }
+    if (maxFiles > 0) {
+      renameSync(path, `${path}.1`)
+    } else {
+      writeFileSync(path, '')
+    }
+  }
+
+  let size = existsSync(path) ? statSync(path).size : 0
+
+  return {
+    level,
+    write: record => {
+      const line = `${format(record)}\n`
+      const bytes = Buffer.byteLength(line)
+      if (size > 0 && size + bytes > maxBytes) {
+        rotate()
+        size = 0
+      }
+      appendFileSync(path, line)
+      size += bytes
+    },
+  }
+}
+
+// ============ Logger ============
+
+export interface LogManagerOptions {
+  // 根 Logger 的级别，默认 info
+  level?: LogLevel | 'silent'
+  now?: () => number
+}
+
+/**
+ * 管理 Logger 层级和输出链
+ * 输出按名称保存在 ChainBuilder 中，每次调整后重新构建（会校验链的结构）
+ */
+export class LogManager {
+  private levels = new Map<string, LogLevel | 'silent'>()
+  private loggers = new Map<string, Logger>()
+  private transports = new ChainBuilder<LogRecord, true>()
+  private chain?: BuiltChain<LogRecord, true>
+  private now: () => number
+
+  constructor(options: LogManagerOptions = {}) {
+    this.levels.set('', options.level ?? 'info')
+    this.now = options.now ?? Date.now
+  }
+
+  /** 添加输出，默认追加到链尾，也可以插到某个输出的前面或后面 */
+  addTransport(
+    name: string,
+    transport: Transport,
+    position: { before?: string; after?: string } = {}
+  ): this {
+    const process = (record: LogRecord) => {
+      if (
+        (transport.level &&
+          LEVEL_ORDER[record.level] < LEVEL_ORDER[transport.level]) ||
+        (transport.filter && !transport.filter(record))
+      ) {
+        return pass()
+      }
+      // 一个输出失败（磁盘已满、网络中断）不影响链上的其他输出
+      try {
+        transport.write(record)
+      } catch (err) {
+        console.error(`日志输出 "${name}" 写入失败:`, err)
+        return pass()
+      }
+      return transport.stop ? true : pass()
+    }
+    if (position.before) {
+      this.transports.insertBefore(position.before, name, process)
+    } else if (position.after) {
+      this.transports.insertAfter(position.after, name, process)
+    } else {
+      this.transports.add(name, process)
+    }
+    this.chain = this.transports.build()
+    return this
+  }
+
+  removeTransport(name: string): this {
+    this.transports.remove(name)
+    this.chain =
+      this.transports.names().length > 0 ? this.transports.build() : undefined
+    return this
+  }
+
+  transportNames(): string[] {
+    return this.transports.names()
+  }
+
+  /** 设置某一层的级别；传 undefined 恢复继承（根 Logger 不能取消） */
+  setLevel(name: string, level: LogLevel | 'silent' | undefined): this {
+    if (level !== undefined) this.levels.set(name, level)
+    else if (name !== '') this.levels.delete(name)
+    return this
+  }
+
+  /** 从自身开始逐级向上查找设置过的级别：app.db.pool → app.db → app → 根 */
+  effectiveLevel(name: string): LogLevel | 'silent' {
+    for (let current = name; ; current = parentOf(current)) {
+      const level = this.levels.get(current)
+      if (level) return level
+    }
+  }
+
+  getLogger(name = ''): Logger {
+    let logger = this.loggers.get(name)
+    if (!logger) {
+      logger = new Logger(this, name, {})
+      this.loggers.set(name, logger)
+    }
+    return logger
+  }
+
+  /** @internal 由 Logger 调用 */
+  dispatch(
+    level: LogLevel,
+    logger: string,
+    message: string,
+    context: Record<string, unknown>
+  ): void {
+    this.chain?.handle({ time: this.now(), level, logger, message, context })
+  }
+}
+
+function parentOf(name: string): string {
+  const index = name.lastIndexOf('.')
+  return index === -1 ? '' : name.slice(0, index)
+}
+
+export class Logger {
+  constructor(
+    private manager: LogManager,
+    readonly name: string,
+    private bindings: Record<string, unknown>
+  ) {}
+
+  isEnabled(level: LogLevel): boolean {
+    return (
+      LEVEL_ORDER[level] >= LEVEL_ORDER[this.manager.effectiveLevel(this.name)]
+    )
+  }
+
+  debug(message: string, context?: Record<string, unknown>): void {
+    this.log('debug', message, context)
+  }
+
+  info(message: string, context?: Record<string, unknown>): void {
+    this.log('info', message, context)
+  }
+
+  warn(message: string, context?: Record<string, unknown>): void {
+    this.log('warn', message, context)
+  }
+
+  error(message: string, context?: Record<string, unknown>): void {
+    this.log('error', message, context)
+  }
+
+  log(
+    level: LogLevel,
+    message: string,
+    context: Record<string, unknown> = {}
+  ): void {
+    if (!this.isEnabled(level)) return
+    this.manager.dispatch(level, this.name, message, {
+      ...this.bindings,
+      ...context,
+    })
+  }
+
+  /** 同名子 Logger，之后的每条日志都带上 bindings（调用时传入的上下文优先） */
+  child(bindings: Record<string, unknown>): Logger {
+    return new Logger(this.manager, this.name, {
+      ...this.bindings,
+      ...bindings,
+    })
+  }
+}
+
+// ============ 使用示例 ============
+
+export function hierarchicalLoggerDemo(): void {
+  console.log('🪵 分层日志框架演示\n')
+
+  const recent = new RingBufferTransport(100)
+  const logs = new LogManager({ level: 'info' })
+    .addTransport('console', consoleTransport())
+    .addTransport('recent', recent)
+    // 审计日志只写到控制台的 logfmt 格式，不进入后面的输出
+    .addTransport(
+      'audit',
+      {
+        filter: record => record.logger.startsWith('audit'),
+        stop: true,
+        write: record => console.log(logfmtFormatter(record)),
+      },
+      { before: 'console' }
+    )
+    .setLevel('app.db', 'debug')
+
+  const app = logs.getLogger('app')
+  const pool = logs.getLogger('app.db.pool')
+  const request = app.child({ requestId: 'req-1', user: 'alice' })
+
+  app.debug('不会输出：app 继承根级别 info')
+  pool.debug('获取连接', { active: 3 })
+  request.info('处理请求', { path: '/orders' })
+  request.error('下单失败', { err: new Error('库存不足') })
+  logs.getLogger('audit').warn('权限变更', { target: 'bob', role: 'admin' })
+
+  console.log(`\n最近 ${recent.records().length} 条记录（审计日志被截断）`)
+  console.log(jsonLinesFormatter(recent.records()[0]))
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  hierarchicalLoggerDemo()
+}
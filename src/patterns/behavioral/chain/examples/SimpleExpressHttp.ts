@@ -0,0 +1,230 @@
+/**
+ * SimpleExpress 的 node:http 适配器
+ * 把 IncomingMessage / ServerResponse 转换成中间件使用的 Request / Response，
+ * 同一套中间件既能跑在 createRequest/createResponse 上，也能处理真实的本地请求
+ */
+
+import {
+  createServer,
+  IncomingMessage,
+  RequestListener,
+  Server,
+  ServerResponse,
+} from 'node:http'
+import { Buffer } from 'node:buffer'
+import { AddressInfo } from 'node:net'
+import { URL } from 'node:url'
+import {
+  createRequest,
+  HttpError,
+  Request,
+  Response,
+  SimpleExpress,
+} from './SimpleExpressMiddleware'
+
+// ============ 请求转换 ============
+
+export interface HttpAdapterOptions {
+  // 请求体最大字节数，默认 100KB；读取时超过立即返回 413，不会先把整个请求体读进内存
+  bodyLimit?: number
+}
+
+const DEFAULT_BODY_LIMIT = 100 * 1024
+
+const payloadTooLarge = () => new HttpError(413, 'Payload Too Large')
+
+// 读取完整的请求体，超过 limit 时丢弃剩余数据并以 413 失败
+function readBody(incoming: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    const stop = (err: unknown) => {
+      incoming.off('data', onData)
+      incoming.off('end', onEnd)
+      // 继续消费剩余数据但不保存，连接才能正常返回响应
+      incoming.resume()
+      reject(err)
+    }
+    const onData = (chunk: Buffer | string) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk
+      size += buffer.length
+      if (size > limit) return stop(payloadTooLarge())
+      chunks.push(buffer)
+    }
+    const onEnd = () => resolve(Buffer.concat(chunks).toString('utf8'))
+
+    if (Number(incoming.headers['content-length']) > limit) {
+      return stop(payloadTooLarge())
+    }
+    incoming.on('data', onData)
+    incoming.once('end', onEnd)
+    incoming.once('error', stop)
+  })
+}
+
+// JSON 请求体（application/json 以及 +json 后缀）默认解析为对象，格式错误时返回 400
+// 其他类型保留字符串，需要时交给 urlencodedBody 等中间件按 rawBody 解析
+function parseBody(text: string, contentType = ''): unknown {
+  if (text === '') return undefined
+  if (!/[/+]json\b/i.test(contentType)) return text
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body')
+  }
+}
+
+export async function toRequest(
+  incoming: IncomingMessage,
+  { bodyLimit = DEFAULT_BODY_LIMIT }: HttpAdapterOptions = {}
+): Promise<Request> {
+  const url = incoming.url ?? '/'
+  const headers: Record<string, string> = {}
+  for (const [name, value] of Object.entries(incoming.headers)) {
+    if (value === undefined) continue
+    headers[name] = Array.isArray(value) ? value.join(', ') : value
+  }
+
+  const rawBody = await readBody(incoming, bodyLimit)
+  return createRequest(url, incoming.method ?? 'GET', {
+    headers,
+    query: Object.fromEntries(new URL(url, 'http://localhost').searchParams),
+    body: parseBody(rawBody, headers['content-type']),
+    rawBody,
+    ip: incoming.socket.remoteAddress,
+  })
+}
+
+// ============ 响应转换 ============
+
+const hasHeader = (headers: Record<string, string>, name: string) =>
+  Object.keys(headers).some(key => key.toLowerCase() === name.toLowerCase())
+
+export function toResponse(out: ServerResponse): Response {
+  return {
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    sent: false,
+    status(code: number) {
+      this.statusCode = code
+      return this
+    },
+    // 字符串按纯文本发送，其他值序列化为 JSON
+    send(data: unknown) {
+      if (this.sent) {
+        throw new Error('Response already sent')
+      }
+      this.sent = true
+      this.body = data
+
+      const isText = typeof data === 'string'
+      if (data !== undefined && !hasHeader(this.headers, 'Content-Type')) {
+        this.headers['Content-Type'] = isText
+          ? 'text/plain; charset=utf-8'
+          : 'application/json'
+      }
+      out.writeHead(this.statusCode, this.headers)
+      out.end(data === undefined || isText ? data : JSON.stringify(data))
+    },
+    json(data: unknown) {
+      this.headers['Content-Type'] = 'application/json'
+      this.send(JSON.stringify(data))
+    },
+  }
+}
+
+// ============ 服务器 ============
+
+// 生成 http.createServer 使用的监听函数；请求体无法读取时直接返回对应的错误状态码
+// app.handle 本身失败时同样在这里兜底，监听函数不会留下未处理的 rejection
+export function createHttpHandler(
+  app: SimpleExpress,
+  options: HttpAdapterOptions = {}
+): RequestListener {
+  return async (incoming, out) => {
+    const res = toResponse(out)
+    let req: Request
+    try {
+      req = await toRequest(incoming, options)
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 400
+      // 请求体没有读完时，响应后关闭连接
+      if (!incoming.complete) res.headers['Connection'] = 'close'
+      res.status(status).send({ error: (err as Error).message })
+      return
+    }
+    try {
+      await app.handle(req, res)
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500
+      if (status >= 500) console.error('请求处理失败:', err)
+      if (!res.sent && !out.headersSent) {
+        res.status(status).send({
+          error:
+            status >= 500 ? 'Internal Server Error' : (err as Error).message,
+        })
+      } else if (!out.writableEnded) {
+        out.end()
+      }
+    }
+  }
+}
+
+// 在本地端口上启动服务器，port 为 0 时由系统分配空闲端口
+export function listen(
+  app: SimpleExpress,
+  port = 0,
+  host = '127.0.0.1',
+  options: HttpAdapterOptions = {}
+): Promise<Server> {
+  const server = createServer(createHttpHandler(app, options))
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, () => {
+      server.off('error', reject)
+      resolve(server)
+    })
+  })
+}
+
+export function closeServer(server: Server): Promise<void> {
+  return new Promise((resolve, reject) =>
+    server.close(err => (err ? reject(err) : resolve()))
+  )
+}
+
+// ============ 使用示例 ============
+
+export async function simpleExpressHttpDemo(): Promise<void> {
+  console.log('🌐 SimpleExpress 运行在真实的 HTTP 服务器上')
+
+  const app = new SimpleExpress()
+    .get('/users/:id', (req, res) =>
+      res.json({ id: req.params.id, query: req.query })
+    )
+    .post('/echo', (req, res) => res.status(201).send(req.body))
+
+  const server = await listen(app)
+  const { port } = server.address() as AddressInfo
+  const base = `http://127.0.0.1:${port}`
+  console.log(`🚀 监听 ${base}`)
+
+  const user = await globalThis.fetch(`${base}/users/42?tab=posts`)
+  console.log(`📥 GET /users/42 [${user.status}]:`, await user.json())
+
+  const echo = await globalThis.fetch(`${base}/echo`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ hello: 'world' }),
+  })
+  console.log(`📥 POST /echo [${echo.status}]:`, await echo.json())
+
+  await closeServer(server)
+  console.log('✅ 服务器已关闭')
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void simpleExpressHttpDemo()
+}
@@ -5,71 +5,401 @@
 
 // ============ 类型定义 ============
 
-interface Request {
+export interface Request {
   url: string
   method: string
   headers: Record<string, string>
+  // 路由中的路径参数，例如 /users/:id 匹配 /users/42 得到 { id: '42' }
+  params: Record<string, string>
+  // 查询字符串参数，由 HTTP 适配器填入
+  query?: Record<string, string>
+  // 挂载路径前缀（已从 url 中去掉）和未经修改的原始 url
+  baseUrl?: string
+  originalUrl?: string
+  // 未解析的请求体文本，由 HTTP 适配器填入，供请求体解析中间件使用
+  rawBody?: string
+  // 客户端地址和请求 ID
+  ip?: string
+  id?: string
   body?: any
-  user?: { id: string; name: string }
+  user?: { id: string; name: string; roles?: string[] }
   [key: string]: any
 }
 
-interface Response {
+export interface Response {
   statusCode: number
   headers: Record<string, string>
   body?: any
+  // 是否已经发送过响应，重复发送会抛错
+  sent: boolean
   status(code: number): Response
   send(data: any): void
   json(data: any): void
 }
 
-type NextFunction = () => void
+// 调用 next(err) 跳过普通中间件，交给错误处理中间件
+export type NextFunction = (err?: unknown) => Promise<void>
+
+export type Middleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => void | Promise<void>
+
+// 错误处理中间件：与 Express 一样通过四个参数区分
+export type ErrorMiddleware = (
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => void | Promise<void>
+
+export type Handler = Middleware | ErrorMiddleware
+
+// 链上的一个节点：use 按路径前缀匹配，路由按完整路径和方法匹配
+interface Layer {
+  method?: string
+  path: string
+  pattern: RegExp
+  keys: string[]
+  // use 注册的节点按前缀匹配，执行时从 url 中去掉已匹配的前缀
+  prefix: boolean
+  // 同一次注册的多个处理函数属于同一组，用于生成路由表
+  group: number
+  handler: Handler | Router
+}
+
+// 路由表中的一行
+export interface RouteInfo {
+  // 路由方法；all() 注册的为 ALL，use() 注册的中间件为 USE
+  method: string
+  path: string
+  handlers: number
+}
+
+// 把 /users/:id 编译为正则，prefix 为 true 时匹配该路径及其子路径
+export function compilePath(
+  path: string,
+  prefix: boolean
+): { pattern: RegExp; keys: string[] } {
+  const keys: string[] = []
+  const source = path
+    .replace(/\/+$/, '')
+    .split('/')
+    .map(segment => {
+      if (!segment.startsWith(':')) {
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      }
+      keys.push(segment.slice(1))
+      return '([^/]+)'
+    })
+    .join('/')
+  return {
+    pattern: new RegExp(`^${source}${prefix ? '(?=/|$)' : '/?$'}`, 'i'),
+    keys,
+  }
+}
 
-type Middleware = (req: Request, res: Response, next: NextFunction) => void
+const isErrorMiddleware = (
+  handler: Handler | Router
+): handler is ErrorMiddleware =>
+  typeof handler === 'function' && handler.length === 4
+
+// 拼接挂载路径和子路由路径
+function joinPath(base: string, path: string): string {
+  const joined = `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+  return joined.length > 1 ? joined.replace(/\/+$/, '') : joined
+}
+
+// 携带 HTTP 状态码的错误，4xx 错误的 message 会返回给客户端
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+// 带 status 属性的错误使用该状态码，其他错误按 500 处理
+function errorStatus(err: unknown): number {
+  const status = (err as { status?: unknown } | null)?.status
+  return typeof status === 'number' && status >= 400 && status < 600
+    ? status
+    : 500
+}
 
 // ============ 简化版 Express 实现 ============
 
-class SimpleExpress {
-  private middlewares: Middleware[] = []
+/**
+ * 路由器：一段可以挂载到任意路径前缀下的责任链
+ * 自身匹配不到时把请求交回上一级（404 fallthrough），
+ * 路径匹配但方法不匹配时由最外层的应用返回 405 和 Allow 头，HEAD 请求由 GET 路由处理
+ */
+export class Router {
+  private layers: Layer[] = []
+  private groups = 0
+  private notFoundHandler?: Middleware
+
+  /**
+   * 注册中间件或子路由器（构建责任链），可以限定路径前缀
+   */
+  use(...handlers: (Middleware | Router)[]): this
+  use(path: string, ...handlers: (Middleware | Router)[]): this
+  use(...handlers: (Handler | Router)[]): this
+  use(path: string, ...handlers: (Handler | Router)[]): this
+  use(...args: [string | Handler | Router, ...(Handler | Router)[]]): this {
+    const [first, ...rest] = args
+    return typeof first === 'string'
+      ? this.add(undefined, first, rest, true)
+      : this.add(undefined, '/', [first, ...rest], true)
+  }
+
+  get(path: string, ...handlers: Middleware[]): this {
+    return this.add('GET', path, handlers, false)
+  }
+
+  post(path: string, ...handlers: Middleware[]): this {
+    return this.add('POST', path, handlers, false)
+  }
+
+  put(path: string, ...handlers: Middleware[]): this {
+    return this.add('PUT', path, handlers, false)
+  }
+
+  patch(path: string, ...handlers: Middleware[]): this {
+    return this.add('PATCH', path, handlers, false)
+  }
+
+  delete(path: string, ...handlers: Middleware[]): this {
+    return this.add('DELETE', path, handlers, false)
+  }
+
+  all(path: string, ...handlers: Middleware[]): this {
+    return this.add(undefined, path, handlers, false)
+  }
 
   /**
-   * 注册中间件（构建责任链）
+   * 本路由器中没有任何路由匹配时调用，代替默认的交回上一级
    */
-  use(middleware: Middleware): this {
-    this.middlewares.push(middleware)
+  notFound(handler: Middleware): this {
+    this.notFoundHandler = handler
     return this
   }
 
   /**
-   * 处理请求（执行责任链）
+   * 路由表：子路由器展开为完整路径，便于调试
+   */
+  routes(): RouteInfo[] {
+    const table: RouteInfo[] = []
+    let lastGroup = -1
+    for (const layer of this.layers) {
+      if (layer.handler instanceof Router) {
+        for (const route of layer.handler.routes()) {
+          table.push({ ...route, path: joinPath(layer.path, route.path) })
+        }
+        lastGroup = -1
+      } else if (layer.group === lastGroup) {
+        table[table.length - 1].handlers++
+      } else {
+        lastGroup = layer.group
+        table.push({
+          method: layer.method ?? (layer.prefix ? 'USE' : 'ALL'),
+          path: layer.path,
+          handlers: 1,
+        })
+      }
+    }
+    return table
+  }
+
+  printRoutes(): string {
+    return this.routes()
+      .map(
+        ({ method, path, handlers }) =>
+          `${method.padEnd(6)} ${path}${handlers > 1 ? ` (${handlers} handlers)` : ''}`
+      )
+      .join('\n')
+  }
+
+  /**
+   * 处理请求（执行责任链），整条链结束后 resolve
+   * parent 是上一级的 next：本路由器处理不了的请求和错误交给它
    */
-  handle(req: Request, res: Response): void {
-    let index = 0
-
-    // next 函数：责任链的核心
-    const next: NextFunction = () => {
-      // 如果已经到链的末端，停止
-      if (index >= this.middlewares.length) return
-
-      // 取出当前中间件并移动索引
-      const middleware = this.middlewares[index++]
-
-      try {
-        // 执行中间件，传入 next 以便继续链
-        middleware(req, res, next)
-      } catch (error) {
-        console.error('中间件执行错误:', error)
+  async handle(
+    req: Request,
+    res: Response,
+    parent?: NextFunction
+  ): Promise<void> {
+    // 没有上一级的是最外层的应用，只有它返回 405
+    const done: NextFunction = parent ?? (err => this.finish(req, res, err))
+    req.originalUrl ??= req.url
+    req.baseUrl ??= ''
+    const path = req.url.split('?')[0] || '/'
+    const method = req.method.toUpperCase()
+    // 路径匹配但方法不匹配的路由，用于 405 的 Allow 头；挂载的路由器也记到同一个集合中
+    let allowed = allowedMethods.get(req)
+    if (!allowed) {
+      allowed = new Set()
+      allowedMethods.set(req, allowed)
+    }
+    let methodMismatch = false
+
+    // dispatch 从 index 开始寻找下一个匹配的节点；err 不为空时只寻找错误处理中间件
+    const dispatch = async (index: number, err?: unknown): Promise<void> => {
+      const failed = err !== undefined && err !== null
+      for (let i = index; i < this.layers.length; i++) {
+        const layer = this.layers[i]
+        if (isErrorMiddleware(layer.handler) !== failed) continue
+        const match = layer.pattern.exec(path)
+        if (!match) continue
+        if (layer.method && !methodMatches(layer.method, method)) {
+          allowed.add(layer.method)
+          if (layer.method === 'GET') allowed.add('HEAD')
+          methodMismatch = true
+          continue
+        }
+
+        let restore = () => {}
+
+        let called = false
+        // next 只能调用一次，返回的 Promise 在后续链执行完后 resolve
+        // 后续链看到上一级的 url，next 返回时恢复为本节点看到的 url
+        const next: NextFunction = nextErr => {
+          if (called) {
+            return Promise.reject(new Error('next() called multiple times'))
+          }
+          called = true
+          const { url, baseUrl } = req
+          restore()
+          return dispatch(i + 1, nextErr).finally(() => {
+            req.url = url
+            req.baseUrl = baseUrl
+          })
+        }
+
+        try {
+          req.params = decodeParams(layer.keys, match)
+          if (layer.prefix) restore = mount(req, match[0])
+          const { handler } = layer
+          if (handler instanceof Router) {
+            await handler.handle(req, res, next)
+          } else if (isErrorMiddleware(handler)) {
+            await handler(err, req, res, next)
+          } else {
+            await handler(req, res, next)
+          }
+        } catch (thrown) {
+          // 同步抛出和 rejected Promise 都交给后面的错误处理中间件
+          restore()
+          await dispatch(i + 1, thrown)
+        } finally {
+          restore()
+        }
+        return
+      }
+
+      // 本路由器的末端；挂载的路由器遇到方法不匹配时也交回上一级，由最外层决定是否 405
+      if (failed || res.sent) return done(err)
+      if (parent && methodMismatch) return done()
+      if (!parent && allowed.size > 0) {
+        res.headers['Allow'] = [...allowed].sort().join(', ')
+        res.status(405).send({ error: `Method ${method} Not Allowed` })
+        return
       }
+      if (this.notFoundHandler) {
+        try {
+          await this.notFoundHandler(req, res, done)
+        } catch (thrown) {
+          await done(thrown)
+        }
+        return
+      }
+      return done()
+    }
+
+    await dispatch(0)
+  }
+
+  // 最外层的末端：未处理的错误返回 500（或错误自带的状态码），没有响应时返回 404
+  private async finish(
+    req: Request,
+    res: Response,
+    err: unknown
+  ): Promise<void> {
+    const failed = err !== undefined && err !== null
+    const status = failed ? errorStatus(err) : 404
+    if (failed && status >= 500) console.error('中间件执行错误:', err)
+    if (res.sent) return
+    if (failed) {
+      res.status(status).send({
+        error: status >= 500 ? 'Internal Server Error' : (err as Error).message,
+      })
+      return
+    }
+    const path = (req.originalUrl ?? req.url).split('?')[0] || '/'
+    res.status(status).send({ error: `Cannot ${req.method} ${path}` })
+  }
+
+  private add(
+    method: string | undefined,
+    path: string,
+    handlers: (Handler | Router)[],
+    prefix: boolean
+  ): this {
+    const { pattern, keys } = compilePath(path, prefix)
+    const group = this.groups++
+    for (const handler of handlers) {
+      this.layers.push({ method, path, pattern, keys, prefix, group, handler })
+    }
+    return this
+  }
+}
+
+// 每个请求在各级路由器中遇到的、路径匹配但方法不匹配的方法
+const allowedMethods = new WeakMap<Request, Set<string>>()
+
+// HEAD 请求由 GET 路由处理
+const methodMatches = (routeMethod: string, method: string): boolean =>
+  routeMethod === method || (routeMethod === 'GET' && method === 'HEAD')
+
+// 解码路径参数；格式错误的百分号编码（如 %E0%A4%A）是客户端错误，按 400 处理
+function decodeParams(
+  keys: string[],
+  match: RegExpExecArray
+): Record<string, string> {
+  try {
+    return Object.fromEntries(
+      keys.map((key, k) => [key, decodeURIComponent(match[k + 1])])
+    )
+  } catch (err) {
+    if (err instanceof URIError) {
+      throw new HttpError(400, 'Malformed URL parameter')
     }
+    throw err
+  }
+}
 
-    // 启动责任链
-    next()
+// 进入挂载在前缀下的节点：把前缀移到 baseUrl，返回恢复原值的函数
+function mount(req: Request, matched: string): () => void {
+  const { url, baseUrl = '' } = req
+  if (matched === '') return () => {}
+  req.baseUrl = baseUrl + matched
+  const rest = url.slice(matched.length)
+  req.url = rest.startsWith('/') ? rest : `/${rest}`
+  return () => {
+    req.url = url
+    req.baseUrl = baseUrl
   }
 }
 
+// 应用本身就是最外层的路由器
+export class SimpleExpress extends Router {}
+
 // ============ 辅助函数 ============
 
-function createRequest(
+export function createRequest(
   url: string,
   method = 'GET',
   options: Partial<Request> = {}
@@ -78,20 +408,26 @@ function createRequest(
     url,
     method,
     headers: {},
+    params: {},
     ...options,
   }
 }
 
-function createResponse(): Response {
+export function createResponse(): Response {
   const res: Response = {
     statusCode: 200,
     headers: {},
     body: undefined,
+    sent: false,
     status(code: number) {
       this.statusCode = code
       return this
     },
     send(data: any) {
+      if (this.sent) {
+        throw new Error('Response already sent')
+      }
+      this.sent = true
       this.body = data
       console.log(`📤 响应 [${this.statusCode}]:`, data)
     },
@@ -112,7 +448,7 @@ const loggerMiddleware: Middleware = (req, res, next) => {
   next() // 继续责任链
 }
 
-// 2. 认证中间件
+// 2. 认证中间件（演示用，真实的令牌校验见 AuthMiddlewares.ts 中的 jwtAuth）
 const authMiddleware: Middleware = (req, res, next) => {
   console.log('🔐 [Auth] 检查认证...')
 
@@ -131,7 +467,7 @@ const authMiddleware: Middleware = (req, res, next) => {
   next() // 继续责任链
 }
 
-// 3. 权限检查中间件
+// 3. 权限检查中间件（演示用，声明式的角色权限见 AuthMiddlewares.ts 中的 rbac）
 const roleMiddleware: Middleware = (req, res, next) => {
   console.log('👮 [Role] 检查权限...')
 
@@ -174,7 +510,7 @@ const userHandlerMiddleware: Middleware = (req, res) => {
 
 // ============ 使用示例 ============
 
-export function simpleExpressDemo(): void {
+export async function simpleExpressDemo(): Promise<void> {
   console.log('🚀 简化版 Express 中间件系统演示')
   console.log('='.repeat(70))
 
@@ -194,7 +530,7 @@ export function simpleExpressDemo(): void {
   console.log('📋 场景1: 正常请求（所有中间件都通过）')
   console.log('='.repeat(70))
 
-  app.handle(
+  await app.handle(
     createRequest('/api/users', 'GET', {
       headers: { authorization: 'Bearer token123' },
     }),
@@ -205,7 +541,7 @@ export function simpleExpressDemo(): void {
   console.log('📋 场景2: 未认证请求（在认证中间件被拦截）')
   console.log('='.repeat(70))
 
-  app.handle(
+  await app.handle(
     createRequest('/api/users', 'GET', {
       headers: {}, // 没有 authorization
     }),
@@ -223,7 +559,7 @@ export function simpleExpressDemo(): void {
     .use(roleMiddleware)
     .use(userHandlerMiddleware)
 
-  app2.handle(
+  await app2.handle(
     createRequest('/admin/settings', 'GET', {
       headers: { authorization: 'Bearer token123' },
     }),
@@ -234,7 +570,7 @@ export function simpleExpressDemo(): void {
   console.log('📋 场景4: 缺少请求体（在验证中间件被拦截）')
   console.log('='.repeat(70))
 
-  app.handle(
+  await app.handle(
     createRequest('/api/users', 'POST', {
       headers: { authorization: 'Bearer token123' },
       // body 未提供
@@ -242,6 +578,46 @@ export function simpleExpressDemo(): void {
     createResponse()
   )
 
+  console.log('\n' + '='.repeat(70))
+  console.log('📋 场景5: 异步中间件、路由参数与错误处理中间件')
+  console.log('='.repeat(70))
+
+  const app3 = new SimpleExpress()
+  app3
+    .use(async (req, res, next) => {
+      const start = Date.now()
+      await next() // 等待后续中间件执行完毕
+      console.log(
+        `⏱️ [Timer] ${req.method} ${req.url} 耗时 ${Date.now() - start}ms`
+      )
+    })
+    .get('/users/:id', async (req, res) => {
+      if (req.params.id === '0') throw new Error('用户不存在')
+      res.json({ id: req.params.id })
+    })
+    .use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+      console.log('🧯 [Error] 捕获错误:', (err as Error).message)
+      res.status(500).send({ error: (err as Error).message })
+    })
+
+  await app3.handle(createRequest('/users/42'), createResponse())
+  await app3.handle(createRequest('/users/0'), createResponse())
+
+  console.log('\n' + '='.repeat(70))
+  console.log('📋 场景6: 挂载子路由器、405 与路由表')
+  console.log('='.repeat(70))
+
+  const users = new Router()
+    .get('/:id', (req, res) =>
+      res.json({ baseUrl: req.baseUrl, url: req.url, id: req.params.id })
+    )
+    .delete('/:id', authMiddleware, (req, res) => res.send('deleted'))
+  const app4 = new SimpleExpress().use('/api/users', users)
+
+  await app4.handle(createRequest('/api/users/42'), createResponse())
+  await app4.handle(createRequest('/api/users/42', 'POST'), createResponse())
+  console.log('🗺️ 路由表:\n' + app4.printRoutes())
+
   console.log('\n' + '='.repeat(70))
   console.log('✨ 演示完成！')
   console.log('\n💡 关键点:')
@@ -249,9 +625,13 @@ export function simpleExpressDemo(): void {
     '  1. 中间件形成责任链：logger → auth → role → validate → handler'
   )
   console.log('  2. 每个中间件可以通过不调用 next() 来中断链')
-  console.log('  3. 这就是 Express/Koa 等框架的核心设计模式！')
+  console.log('  3. await next() 可以在后续中间件完成后继续执行（洋葱模型）')
+  console.log('  4. next(err) 或抛出异常会跳到四参数的错误处理中间件')
+  console.log('  5. 这就是 Express/Koa 等框架的核心设计模式！')
   console.log('='.repeat(70))
 }
 
 // 如果直接运行此文件，执行演示
-simpleExpressDemo()
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void simpleExpressDemo()
+}
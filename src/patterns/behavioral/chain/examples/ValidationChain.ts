@@ -4,14 +4,15 @@
  */
 
 import { Handler } from '../UltraMinimalChain'
+import { validate, ValidationMode, v } from './ValidationSchema'
 
-interface FormData {
+export interface FormData {
   username: string
   email: string
   password: string
 }
 
-type ValidationResult = { valid: boolean; error?: string }
+export type ValidationResult = { valid: boolean; error?: string }
 
 // 最后一个验证器：所有验证通过
 const allPassValidator = new Handler<FormData, ValidationResult>(() => ({
@@ -81,3 +82,28 @@ export function validationChainDemo(): void {
   )
   // { valid: true }
 }
+
+// ============ 基于 Schema 的写法 ============
+
+/** 与上面的验证链规则相同，用 ValidationSchema 声明 */
+export const formSchema = v.object({
+  username: v.string().label('用户名').min(3),
+  email: v.string().label('邮箱').email(),
+  password: v.string().label('密码').min(6),
+})
+
+/**
+ * 兼容模式：返回与验证链相同的 { valid, error }
+ * 默认快速失败；mode 为 collect 时 error 是所有错误信息用分号连接
+ */
+export async function validateForm(
+  data: FormData,
+  mode: ValidationMode = 'failFast'
+): Promise<ValidationResult> {
+  const report = await validate(formSchema, data, { mode })
+  if (report.valid) return { valid: true }
+  return {
+    valid: false,
+    error: report.errors.map(error => error.message).join('；'),
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * 声明式校验 Schema
+ * 每个字段的规则组成一条 AsyncHandler 责任链：规则通过就 pass() 给下一个，失败就由它给出错误
+ * 整体可以快速失败（第一个错误就停止），也可以收集所有字段的错误，错误路径形如 address.zip、items[0].name
+ * 错误信息按错误码从消息表生成，替换消息表即可切换语言
+ */
+
+import { AsyncHandler, pass } from '../UltraMinimalChain'
+
+// ============ 错误与消息 ============
+
+export interface FieldError {
+  // 字段路径，根对象为 ''
+  path: string
+  code: string
+  message: string
+  params: Record<string, unknown>
+}
+
+export interface ValidationReport {
+  valid: boolean
+  errors: FieldError[]
+}
+
+// 消息模板中的 {name} 会被替换为对应参数，{label} 是字段名称
+export type MessageCatalog = Record<
+  string,
+  string | ((params: Record<string, unknown>) => string)
+>
+
+export const zhCN: MessageCatalog = {
+  required: '{label}不能为空',
+  type: '{label}必须是{expected}',
+  'string.min': '{label}至少{min}个字符',
+  'string.max': '{label}最多{max}个字符',
+  'string.email': '{label}格式不正确',
+  'string.pattern': '{label}格式不正确',
+  'number.min': '{label}不能小于{min}',
+  'number.max': '{label}不能大于{max}',
+  'number.integer': '{label}必须是整数',
+  'array.min': '{label}至少{min}项',
+  'array.max': '{label}最多{max}项',
+  custom: '{label}不符合要求',
+}
+
+export const enUS: MessageCatalog = {
+  required: '{label} is required',
+  type: '{label} must be a {expected}',
+  'string.min': '{label} must be at least {min} characters',
+  'string.max': '{label} must be at most {max} characters',
+  'string.email': '{label} must be a valid email',
+  'string.pattern': '{label} has an invalid format',
+  'number.min': '{label} must be at least {min}',
+  'number.max': '{label} must be at most {max}',
+  'number.integer': '{label} must be an integer',
+  'array.min': '{label} must have at least {min} items',
+  'array.max': '{label} must have at most {max} items',
+  custom: '{label} is invalid',
+}
+
+export function formatMessage(
+  code: string,
+  params: Record<string, unknown>,
+  messages: MessageCatalog = zhCN
+): string {
+  const template = messages[code] ?? messages.custom ?? code
+  if (typeof template === 'function') return template(params)
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in params ? String(params[key]) : match
+  )
+}
+
+// ============ Schema ============
+
+export type ValidationMode = 'failFast' | 'collect'
+
+interface RunContext {
+  mode: ValidationMode
+  messages: MessageCatalog
+  root: unknown
+}
+
+interface Rule<T> {
+  code: string
+  params: Record<string, unknown>
+  // 覆盖消息表中的消息
+  message?: string
+  test(value: T, root: unknown): boolean | Promise<boolean>
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export abstract class Schema<T> {
+  protected rules: Rule<T>[] = []
+  private isOptional = false
+  private fieldLabel?: string
+
+  protected abstract readonly typeName: string
+  protected abstract isType(value: unknown): value is T
+
+  /** 允许值为 undefined 或 null，此时跳过所有规则 */
+  optional(): this {
+    this.isOptional = true
+    return this
+  }
+
+  /** 错误信息中 {label} 使用的字段名称，默认使用路径 */
+  label(text: string): this {
+    this.fieldLabel = text
+    return this
+  }
+
+  /** 自定义规则，test 可以返回 Promise（例如查询用户名是否已被占用） */
+  custom(
+    code: string,
+    test: (value: T, root: unknown) => boolean | Promise<boolean>,
+    message?: string
+  ): this {
+    this.rules.push({ code, params: {}, message, test })
+    return this
+  }
+
+  protected addRule(
+    code: string,
+    params: Record<string, unknown>,
+    test: (value: T) => boolean
+  ): this {
+    this.rules.push({ code, params, test })
+    return this
+  }
+
+  /** @internal 由 validate 和父级 Schema 调用 */
+  async run(
+    value: unknown,
+    path: string,
+    ctx: RunContext
+  ): Promise<FieldError[]> {
+    const error = (
+      code: string,
+      params: Record<string, unknown>,
+      message?: string
+    ) => {
+      const all = { label: this.fieldLabel ?? (path || 'value'), ...params }
+      return [
+        {
+          path,
+          code,
+          message: message ?? formatMessage(code, all, ctx.messages),
+          params: all,
+        },
+      ]
+    }
+
+    if (value === undefined || value === null) {
+      return this.isOptional ? [] : error('required', {})
+    }
+    if (!this.isType(value)) {
+      return error('type', { expected: this.typeName })
+    }
+
+    // 规则链：通过的规则 pass() 给下一个，第一个失败的规则给出该字段的错误
+    const chain = this.rules.reduceRight<AsyncHandler<T, Rule<T>> | undefined>(
+      (next, rule) =>
+        new AsyncHandler<T, Rule<T>>(
+          async input => ((await rule.test(input, ctx.root)) ? pass() : rule),
+          next,
+          { name: rule.code }
+        ),
+      undefined
+    )
+    const failed = await chain?.handle(value)
+    if (failed) return error(failed.code, failed.params, failed.message)
+    return this.runChildren(value, path, ctx)
+  }
+
+  // 对象和数组在自身规则通过后校验子元素
+  protected async runChildren(
+    _value: T,
+    _path: string,
+    _ctx: RunContext
+  ): Promise<FieldError[]> {
+    return []
+  }
+}
+
+export class StringSchema extends Schema<string> {
+  protected readonly typeName = 'string'
+
+  protected isType(value: unknown): value is string {
+    return typeof value === 'string'
+  }
+
+  min(length: number): this {
+    return this.addRule('string.min', { min: length }, v => v.length >= length)
+  }
+
+  max(length: number): this {
+    return this.addRule('string.max', { max: length }, v => v.length <= length)
+  }
+
+  email(): this {
+    return this.addRule('string.email', {}, v => EMAIL.test(v))
+  }
+
+  pattern(regex: RegExp, code = 'string.pattern'): this {
+    return this.addRule(code, { pattern: regex.source }, v => regex.test(v))
+  }
+}
+
+export class NumberSchema extends Schema<number> {
+  protected readonly typeName = 'number'
+
+  protected isType(value: unknown): value is number {
+    return typeof value === 'number' && !Number.isNaN(value)
+  }
+
+  min(min: number): this {
+    return this.addRule('number.min', { min }, v => v >= min)
+  }
+
+  max(max: number): this {
+    return this.addRule('number.max', { max }, v => v <= max)
+  }
+
+  integer(): this {
+    return this.addRule('number.integer', {}, v => Number.isInteger(v))
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = Record<string, Schema<unknown>>
+
+export class ObjectSchema<S extends Shape> extends Schema<{
+  [K in keyof S]: Infer<S[K]>
+}> {
+  protected readonly typeName = 'object'
+
+  constructor(private shape: S) {
+    super()
+  }
+
+  protected isType(value: unknown): value is { [K in keyof S]: Infer<S[K]> } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+
+  protected async runChildren(
+    value: Record<string, unknown>,
+    path: string,
+    ctx: RunContext
+  ): Promise<FieldError[]> {
+    const errors: FieldError[] = []
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const childPath = path ? `${path}.${key}` : key
+      errors.push(...(await schema.run(value[key], childPath, ctx)))
+      if (ctx.mode === 'failFast' && errors.length > 0) break
+    }
+    return errors
+  }
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  protected readonly typeName = 'array'
+
+  constructor(private item: Schema<T>) {
+    super()
+  }
+
+  protected isType(value: unknown): value is T[] {
+    return Array.isArray(value)
+  }
+
+  min(length: number): this {
+    return this.addRule('array.min', { min: length }, v => v.length >= length)
+  }
+
+  max(length: number): this {
+    return this.addRule('array.max', { max: length }, v => v.length <= length)
+  }
+
+  protected async runChildren(
+    value: T[],
+    path: string,
+    ctx: RunContext
+  ): Promise<FieldError[]> {
+    const errors: FieldError[] = []
+    for (const [index, item] of value.entries()) {
+      errors.push(...(await this.item.run(item, `${path}[${index}]`, ctx)))
+      if (ctx.mode === 'failFast' && errors.length > 0) break
+    }
+    return errors
+  }
+}
+
+/** Schema 构造函数：v.object({ name: v.string().min(2) }) */
+export const v = {
+  string: () => new StringSchema(),
+  number: () => new NumberSchema(),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+  array: <T>(item: Schema<T>) => new ArraySchema(item),
+}
+
+export interface ValidateOptions {
+  // 默认 collect：收集所有字段的错误
+  mode?: ValidationMode
+  messages?: MessageCatalog
+}
+
+export async function validate(
+  schema: Schema<unknown>,
+  value: unknown,
+  { mode = 'collect', messages = zhCN }: ValidateOptions = {}
+): Promise<ValidationReport> {
+  const errors = await schema.run(value, '', { mode, messages, root: value })
+  return { valid: errors.length === 0, errors }
+}
+
+// ============ 使用示例 ============
+
+export async function validationSchemaDemo(): Promise<void> {
+  console.log('📋 声明式校验 Schema 演示')
+
+  const taken = new Set(['admin'])
+  const schema = v.object({
+    username: v
+      .string()
+      .label('用户名')
+      .min(3)
+      .custom(
+        'username.taken',
+        async name => !taken.has(name),
+        '用户名已被占用'
+      ),
+    age: v.number().label('年龄').integer().min(18),
+    address: v.object({
+      city: v.string().label('城市'),
+      zip: v
+        .string()
+        .label('邮编')
+        .pattern(/^\d{6}$/),
+    }),
+    tags: v.array(v.string().max(10)).max(3).optional(),
+  })
+
+  const input = {
+    username: 'admin',
+    age: 16.5,
+    address: { zip: '12ab' },
+    tags: ['ok', 'a very long tag'],
+  }
+  for (const mode of ['failFast', 'collect'] as const) {
+    const report = await validate(schema, input, { mode })
+    console.log(`\n${mode}:`)
+    report.errors.forEach(error =>
+      console.log(`  ${error.path}: ${error.message}`)
+    )
+  }
+
+  const english = await validate(schema, {}, { messages: enUS })
+  console.log(
+    '\nenUS:',
+    english.errors.map(error => error.message)
+  )
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  void validationSchemaDemo()
+}
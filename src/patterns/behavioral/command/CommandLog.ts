@@ -0,0 +1,227 @@
+// 命令日志：把执行过的命令序列化为 JSON 记录，追加写入，并能在新的编辑器上回放
+// 用途：崩溃恢复、复现问题时附带一份可以确定性重放的操作记录
+
+import {
+  Application,
+  Command,
+  CommandRecord,
+  CopyCommand,
+  CutCommand,
+  Editor,
+  MacroCommand,
+  PasteCommand,
+  RedoCommand,
+  SelectCommand,
+  TypeCommand,
+  UndoCommand,
+} from './DocEditor'
+
+// 根据记录重建命令；registry 用于重建嵌套命令（如宏）
+export type CommandFactory = (
+  app: Application,
+  editor: Editor,
+  record: CommandRecord,
+  registry: CommandRegistry
+) => Command
+
+// 从 payload 中读取指定类型的字段，格式不对时抛错，避免回放出错误结果
+function readPayload<T>(
+  record: CommandRecord,
+  key: string,
+  isValid: (value: unknown) => value is T
+): T {
+  const value = record.payload?.[key]
+  if (!isValid(value)) {
+    throw new Error(`Invalid payload "${key}" for command "${record.type}"`)
+  }
+  return value
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isNumber = (value: unknown): value is number => typeof value === 'number'
+const isRecordList = (value: unknown): value is CommandRecord[] =>
+  Array.isArray(value)
+
+// 命令注册表：类型 → 重建方式
+export class CommandRegistry {
+  private factories = new Map<string, CommandFactory>()
+
+  register(type: string, factory: CommandFactory): this {
+    this.factories.set(type, factory)
+    return this
+  }
+
+  has(type: string): boolean {
+    return this.factories.has(type)
+  }
+
+  create(record: CommandRecord, app: Application, editor: Editor): Command {
+    const factory = this.factories.get(record.type)
+    if (!factory) {
+      throw new Error(`Unknown command type: ${record.type}`)
+    }
+    return factory(app, editor, record, this)
+  }
+}
+
+// 内置命令的注册表
+export function createDefaultRegistry(): CommandRegistry {
+  return new CommandRegistry()
+    .register('copy', (app, editor) => new CopyCommand(app, editor))
+    .register('cut', (app, editor) => new CutCommand(app, editor))
+    .register(
+      'paste',
+      (app, editor, record) =>
+        new PasteCommand(
+          app,
+          editor,
+          record.payload ? readPayload(record, 'ringIndex', isNumber) : 0
+        )
+    )
+    .register(
+      'type',
+      (app, editor, record) =>
+        new TypeCommand(app, editor, readPayload(record, 'text', isString))
+    )
+    .register(
+      'select',
+      (app, editor, record) =>
+        new SelectCommand(
+          app,
+          editor,
+          readPayload(record, 'start', isNumber),
+          readPayload(record, 'end', isNumber)
+        )
+    )
+    .register('macro', (app, editor, record, registry) => {
+      const children = readPayload(record, 'commands', isRecordList)
+      return new MacroCommand(
+        app,
+        editor,
+        children.map(child => registry.create(child, app, editor))
+      )
+    })
+    .register('undo', (app, editor) => new UndoCommand(app, editor))
+    .register('redo', (app, editor) => new RedoCommand(app, editor))
+}
+
+// 会话开始时的状态，回放从这里出发
+export interface SessionSnapshot {
+  text: string
+  clipboard: string
+  // 初始编辑器的 id；缺省时第一条记录所在的编辑器视为初始编辑器
+  editor?: string
+  // 与原会话的 ApplicationOptions 一致，历史深度和剪贴板环容量会影响撤销与粘贴的结果
+  historyLimit?: number
+  clipboardSize?: number
+}
+
+// 只追加的命令日志
+export class CommandLog {
+  private records: CommandRecord[] = []
+
+  constructor(
+    readonly initial: SessionSnapshot = { text: '', clipboard: '' }
+  ) {}
+
+  // 追加一条记录；存入深拷贝，之后修改原对象不会影响日志
+  append(record: CommandRecord): void {
+    this.records.push(JSON.parse(JSON.stringify(record)))
+  }
+
+  get entries(): readonly CommandRecord[] {
+    return this.records
+  }
+
+  get size(): number {
+    return this.records.length
+  }
+
+  // JSON Lines 格式：第一行是初始快照，之后每行一条命令记录
+  serialize(): string {
+    return [this.initial, ...this.records]
+      .map(line => JSON.stringify(line))
+      .join('\n')
+  }
+
+  static parse(text: string): CommandLog {
+    const [header, ...lines] = text
+      .split('\n')
+      .filter(line => line.trim() !== '')
+    const log = new CommandLog(
+      header ? (JSON.parse(header) as SessionSnapshot) : undefined
+    )
+    lines.forEach(line => log.append(JSON.parse(line) as CommandRecord))
+    return log
+  }
+
+  // 在全新的编辑器上回放整个会话，得到与原会话一致的文本和剪贴板
+  // 记录按编辑器 id 分派；会话中途打开的编辑器按 open 记录中的文本重建，
+  // 没有 open 记录的编辑器（旧格式日志）从空文档开始
+  replay(registry: CommandRegistry = createDefaultRegistry()): {
+    app: Application
+    editor: Editor
+  } {
+    const { text, clipboard, historyLimit, clipboardSize } = this.initial
+    // 缺省时取第一条不是由 open 记录引入的编辑器作为初始编辑器
+    const opened = new Set(
+      this.records
+        .filter(record => record.type === 'open')
+        .map(record => record.editor)
+    )
+    const initialId =
+      this.initial.editor ??
+      this.records.find(
+        record => record.editor !== undefined && !opened.has(record.editor)
+      )?.editor
+    const editor = new Editor(text, initialId)
+    const app = new Application(editor, { historyLimit, clipboardSize })
+    // 原会话的剪贴板环从空开始，只有初始内容非空时才放入
+    if (clipboard) app.clipboard = clipboard
+
+    const editors = new Map([[editor.id, editor]])
+    const editorFor = (id: string | undefined): Editor => {
+      if (id === undefined) return editor
+      let target = editors.get(id)
+      if (!target) {
+        target = new Editor('', id)
+        editors.set(id, target)
+        app.openEditor(target)
+      }
+      return target
+    }
+
+    // 关闭最后一个编辑器时 closeEditor 会自动打开空白编辑器，
+    // 原会话中它紧跟一条 open 记录，回放到那条记录时用记录中的编辑器替换掉这个占位
+    let placeholder: Editor | undefined
+    for (const record of this.records) {
+      if (record.type === 'open') {
+        const target = new Editor(
+          readPayload(record, 'text', isString),
+          record.editor
+        )
+        target.setSelections(record.selections ?? [record.selection])
+        editors.set(target.id, target)
+        app.openEditor(target)
+        if (placeholder) app.closeEditor(placeholder)
+        placeholder = undefined
+        continue
+      }
+      if (record.type === 'close') {
+        const target = record.editor && editors.get(record.editor)
+        if (target) {
+          app.closeEditor(target)
+          editors.delete(target.id)
+          if (!editors.has(app.activeEditor.id)) placeholder = app.activeEditor
+        }
+        continue
+      }
+
+      const target = editorFor(record.editor)
+      // 记录中的选区是执行前的选区，先恢复再执行，直接操作编辑器的选区变化也能复现
+      target.setSelections(record.selections ?? [record.selection])
+      app.executeCommand(registry.create(record, app, target))
+    }
+    return { app, editor }
+  }
+}
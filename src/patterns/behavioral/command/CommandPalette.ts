@@ -0,0 +1,93 @@
+// 命令面板：对注册表中所有命令的描述做模糊搜索，按匹配度排序后执行
+
+import { Keymap } from './Keymap'
+import { getCommandState, MenuCommandRegistry } from './ParameterizedCommands'
+
+export interface FuzzyMatch {
+  score: number
+  // 命中的字符下标，用于高亮
+  matches: number[]
+}
+
+export interface PaletteItem extends FuzzyMatch {
+  id: string
+  description: string
+  keybinding?: string
+  // 不可用的命令仍然出现在结果中，由界面置灰并显示原因
+  enabled: boolean
+  reason?: string
+}
+
+const isWordStart = (text: string, index: number): boolean =>
+  index === 0 || /[\s_\-./]/.test(text[index - 1])
+
+// 子序列匹配：查询中的字符按顺序出现在文本中即算命中，忽略大小写
+// 连续命中和单词开头命中加分，跳过的字符扣分；不匹配时返回 null
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.replace(/\s+/g, '').toLowerCase()
+  const haystack = text.toLowerCase()
+  if (needle === '') return { score: 0, matches: [] }
+
+  const matches: number[] = []
+  let score = 0
+  let from = 0
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from)
+    if (index === -1) return null
+
+    const previous = matches[matches.length - 1]
+    score += 1
+    if (previous !== undefined && index === previous + 1) score += 5
+    if (isWordStart(text, index)) score += 3
+    score -= (index - from) * 0.1
+    matches.push(index)
+    from = index + 1
+  }
+  return { score, matches }
+}
+
+export class CommandPalette {
+  constructor(
+    private registry: MenuCommandRegistry,
+    private keymap?: Keymap
+  ) {}
+
+  // 搜索描述，描述不匹配时再尝试命令 id；按分数降序，同分时描述较短的在前
+  search(query: string, limit: number = 20): PaletteItem[] {
+    const items: PaletteItem[] = []
+    for (const { id, command } of this.registry.entries()) {
+      const description = command.getDescription()
+      const match = fuzzyMatch(query, description) ?? this.matchId(query, id)
+      if (!match) continue
+      const { enabled, reason } = getCommandState(command)
+      items.push({
+        id,
+        description,
+        keybinding: this.keymap?.labelFor(id),
+        enabled,
+        reason,
+        ...match,
+      })
+    }
+    return items
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.description.length - b.description.length
+      )
+      .slice(0, limit)
+  }
+
+  // 执行搜索结果中排名第一的命令，没有结果时返回 undefined
+  // 排名第一的命令不可用时不执行，调用方从返回结果的 enabled 和 reason 得知原因
+  run(query: string): PaletteItem | undefined {
+    const [best] = this.search(query, 1)
+    if (best?.enabled) this.registry.execute(best.id)
+    return best
+  }
+
+  // 通过 id 命中的结果不高亮描述，并略微降低分数
+  private matchId(query: string, id: string): FuzzyMatch | null {
+    const match = fuzzyMatch(query, id)
+    return match && { score: match.score - 1, matches: [] }
+  }
+}
@@ -1,24 +1,146 @@
 // 命令模式（含撤销）：抽象命令 + 具体命令 + 历史记录 + 应用协调
 
+import type { CommandLog } from './CommandLog'
+
+export interface SelectionRange {
+  start: number
+  end: number
+}
+
+// 一次文本修改的最小差异：从 start 起删除 deleted，再插入 inserted
+// start 使用修改前文档中的位置
+export interface TextEdit {
+  start: number
+  deleted: string
+  inserted: string
+}
+
+// 命令的 JSON 记录：类型 + 所在编辑器 + 执行前的选区 + 命令自带的参数
+// 编辑器的打开 / 关闭也用同样的格式记录，类型为 open / close
+// 多光标时 selection 是第一个选区，selections 保存全部选区
+export interface CommandRecord {
+  type: string
+  // 执行命令的编辑器 id，多编辑器会话回放时据此找回对应的文档
+  editor?: string
+  selection: SelectionRange
+  selections?: SelectionRange[]
+  payload?: Record<string, unknown>
+}
+
 // 抽象命令：封装一次可撤销的编辑操作
-abstract class Command {
+// 只记录差异和前后选区，内存开销与修改量相关，而与文档大小无关
+export abstract class Command {
   protected app: Application
   protected editor: Editor
-  protected backup: string = ''
+  // 每个光标一条差异，按位置升序排列
+  protected edits: TextEdit[] = []
+  protected selectionsBefore: SelectionRange[] = [{ start: 0, end: 0 }]
+  protected selectionsAfter: SelectionRange[] = [{ start: 0, end: 0 }]
+
+  // 命令类型，序列化后据此在注册表中找到重建方式
+  abstract readonly type: string
 
   constructor(app: Application, editor: Editor) {
     this.app = app
     this.editor = editor
   }
 
-  // 在修改前保存文本，用于撤销
-  saveBackup(): void {
-    this.backup = this.editor.text
+  getEditor(): Editor {
+    return this.editor
+  }
+
+  // 执行入口：先记下执行前的选区，再执行具体命令
+  run(): boolean {
+    this.selectionsBefore = this.editor.getSelections()
+    return this.execute()
   }
 
-  // 撤销：恢复至备份的文本
+  // 序列化为 JSON 记录，不包含对应用和编辑器的引用
+  toRecord(): CommandRecord {
+    const [primary] = this.selectionsBefore
+    const record: CommandRecord = {
+      type: this.type,
+      editor: this.editor.id,
+      selection: { ...primary },
+    }
+    if (this.selectionsBefore.length > 1) {
+      record.selections = this.selectionsBefore.map(range => ({ ...range }))
+    }
+    const payload = this.payload()
+    if (payload) record.payload = payload
+    return record
+  }
+
+  // 命令自带的参数，无参数的命令返回 undefined
+  protected payload(): Record<string, unknown> | undefined {
+    return undefined
+  }
+
+  // 用 text 替换所有选区（数组时每个选区依次使用一项），并记录差异与修改前后的选区
+  protected replaceSelection(text: string | string[]): void {
+    const ranges = this.editor.getSelections()
+    const texts = Array.isArray(text) ? text : ranges.map(() => text)
+    this.selectionsBefore = ranges
+    this.edits = ranges.map((range, i) => ({
+      start: range.start,
+      deleted: this.editor.text.slice(range.start, range.end),
+      inserted: texts[i] ?? '',
+    }))
+    this.editor.replaceSelection(texts)
+    this.selectionsAfter = this.editor.getSelections()
+  }
+
+  // 撤销：删掉插入的文本、放回删除的文本，并恢复修改前的所有选区
+  // 从后往前处理，每条差异的位置需要换算到修改后的文档中
   undo(): void {
-    this.editor.text = this.backup
+    if (this.edits.length === 0) return
+    let shift = this.edits.reduce(
+      (sum, edit) => sum + edit.inserted.length - edit.deleted.length,
+      0
+    )
+    for (const edit of [...this.edits].reverse()) {
+      shift -= edit.inserted.length - edit.deleted.length
+      const start = edit.start + shift
+      this.editor.replaceRange(
+        start,
+        start + edit.inserted.length,
+        edit.deleted
+      )
+    }
+    this.editor.setSelections(this.selectionsBefore)
+  }
+
+  // 重做：从后往前再次应用差异，前面的位置不受影响，并回到修改后的选区
+  redo(): void {
+    if (this.edits.length === 0) return
+    for (const edit of [...this.edits].reverse()) {
+      this.editor.replaceRange(
+        edit.start,
+        edit.start + edit.deleted.length,
+        edit.inserted
+      )
+    }
+    this.editor.setSelections(this.selectionsAfter)
+  }
+
+  // 尝试把紧随其后执行的命令合并为同一条历史，合并成功返回 true
+  mergeWith(_next: Command): boolean {
+    return false
+  }
+
+  // 为另一个应用/编辑器创建同类型、同参数的新命令，用于录制回放
+  // 只接收 (app, editor) 的命令可以直接复用，带参数的命令需要覆盖
+  cloneFor(app: Application, editor: Editor): Command {
+    const CommandClass = this.constructor as new (
+      app: Application,
+      editor: Editor
+    ) => Command
+    return new CommandClass(app, editor)
+  }
+
+  // 是否会被宏录制器记录，撤销/重做这类操作历史的命令返回 false
+  isRecordable(): boolean {
+    return true
   }
 
   // 返回 true 表示更改了状态，需要记录到历史栈
@@ -26,118 +148,604 @@ abstract class Command {
 }
 
 // 接收者：提供基础文本与选区操作
-class Editor {
+// 支持多个互不重叠的选区（多光标），选区操作会同时作用于所有选区
+let editorCount = 0
+
+export class Editor {
   text: string
-  private selectionStart = 0
-  private selectionEnd = 0
+  // 按位置升序排列，互不重叠
+  private selections: SelectionRange[] = [{ start: 0, end: 0 }]
 
-  constructor(text: string = '') {
+  // id 在同一进程内唯一，回放时用日志中的 id 重建编辑器
+  constructor(
+    text: string = '',
+    readonly id: string = `editor-${++editorCount}`
+  ) {
     this.text = text
   }
 
   // 设置选区，起止索引会被限制在文本长度范围内
   setSelection(start: number, end: number): void {
+    this.setSelections([{ start, end }])
+  }
+
+  // 设置多个选区：越界的索引会被限制，重叠或相接的选区会被合并
+  setSelections(ranges: SelectionRange[]): void {
     const len = this.text.length
-    this.selectionStart = Math.max(0, Math.min(start, len))
-    this.selectionEnd = Math.max(this.selectionStart, Math.min(end, len))
+    const clamped = ranges
+      .map(range => {
+        const start = Math.max(0, Math.min(range.start, len))
+        return { start, end: Math.max(start, Math.min(range.end, len)) }
+      })
+      .sort((a, b) => a.start - b.start || a.end - b.end)
+
+    const merged: SelectionRange[] = []
+    for (const range of clamped) {
+      const last = merged[merged.length - 1]
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end)
+      } else {
+        merged.push(range)
+      }
+    }
+    this.selections = merged.length > 0 ? merged : [{ start: 0, end: 0 }]
   }
 
-  // 获取当前选中文本（半开半闭区间）
+  // 增加一个光标/选区
+  addSelection(start: number, end: number = start): void {
+    this.setSelections([...this.selections, { start, end }])
+  }
+
+  getSelections(): SelectionRange[] {
+    return this.selections.map(range => ({ ...range }))
+  }
+
+  // 第一个选区（单光标时即唯一的选区）
+  getSelectionRange(): SelectionRange {
+    return { ...this.selections[0] }
+  }
+
+  // 每个选区中的文本
+  getSelectedTexts(): string[] {
+    return this.selections.map(({ start, end }) => this.text.slice(start, end))
+  }
+
+  // 获取当前选中文本（半开半闭区间），多个选区按行拼接
   getSelection(): string {
-    return this.text.slice(this.selectionStart, this.selectionEnd)
+    return this.getSelectedTexts().join('\n')
   }
 
   // 删除选中文本，光标归位到起点
   deleteSelection(): void {
-    const pre = this.text.slice(0, this.selectionStart)
-    const suf = this.text.slice(this.selectionEnd)
-    this.text = pre + suf
-    this.selectionEnd = this.selectionStart
+    this.replaceSelection('')
+  }
+
+  // 替换 [start, end) 范围内的文本，不改变选区
+  replaceRange(start: number, end: number, text: string): void {
+    this.text = this.text.slice(0, start) + text + this.text.slice(end)
   }
 
-  // 用指定文本替换选区，选区更新为新文本范围
-  replaceSelection(text: string): void {
-    const pre = this.text.slice(0, this.selectionStart)
-    const suf = this.text.slice(this.selectionEnd)
-    this.text = pre + text + suf
-    this.selectionEnd = this.selectionStart + text.length
+  // 用指定文本替换所有选区，数组时每个选区依次使用一项
+  // 前面的选区长度变化后，后面选区的位置随之平移，选区更新为新文本范围
+  replaceSelection(text: string | string[]): void {
+    const texts = Array.isArray(text) ? text : this.selections.map(() => text)
+    const next: SelectionRange[] = []
+    let result = ''
+    let cursor = 0
+    let shift = 0
+    this.selections.forEach((range, i) => {
+      const inserted = texts[i] ?? ''
+      result += this.text.slice(cursor, range.start) + inserted
+      cursor = range.end
+      const start = range.start + shift
+      next.push({ start, end: start + inserted.length })
+      shift += inserted.length - (range.end - range.start)
+    })
+    this.text = result + this.text.slice(cursor)
+    this.selections = next
   }
 }
 
-// 历史记录：栈结构，支持 push/pop 撤销
-class CommandHistory {
+// 历史记录：撤销栈 + 重做栈，超过最大深度时丢弃最早的记录
+export class CommandHistory {
   private history: Command[] = []
+  private redoStack: Command[] = []
+  // 上一次 push 的命令；撤销/重做之后置空，避免把新命令合并进旧记录
+  private lastPushed: Command | undefined
+
+  constructor(private maxDepth: number = 100) {}
 
+  // 记录新命令：能与上一条合并则合并，否则入栈；新命令使重做栈失效
   push(c: Command): void {
+    this.redoStack = []
+    if (this.lastPushed && this.lastPushed.mergeWith(c)) return
+
     this.history.push(c)
+    this.lastPushed = c
+    if (this.history.length > this.maxDepth) {
+      this.history.shift()
+    }
   }
 
   pop(): Command | undefined {
+    this.lastPushed = undefined
     return this.history.pop()
   }
+
+  undo(): boolean {
+    const command = this.pop()
+    if (!command) return false
+    command.undo()
+    this.redoStack.push(command)
+    return true
+  }
+
+  redo(): boolean {
+    const command = this.redoStack.pop()
+    if (!command) return false
+    command.redo()
+    this.history.push(command)
+    this.lastPushed = undefined
+    return true
+  }
+
+  canUndo(): boolean {
+    return this.history.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  get undoDepth(): number {
+    return this.history.length
+  }
+
+  get redoDepth(): number {
+    return this.redoStack.length
+  }
+
+  clear(): void {
+    this.history = []
+    this.redoStack = []
+    this.lastPushed = undefined
+  }
 }
 
-// 发送者/协调者：统一调度命令，维护剪贴板与历史
-class Application {
-  clipboard = ''
+// 剪贴板环：保留最近 N 次剪切/复制的内容，粘贴时可以选择其中任意一条
+export class ClipboardRing {
+  private entries: string[] = []
+
+  constructor(private capacity: number = 10) {}
+
+  // 最新的内容放在最前面，超出容量时丢弃最旧的
+  push(text: string): void {
+    this.entries.unshift(text)
+    if (this.entries.length > this.capacity) {
+      this.entries.pop()
+    }
+  }
+
+  // index 为 0 表示最近一次，超出范围返回空字符串
+  get(index: number = 0): string {
+    return this.entries[index] ?? ''
+  }
+
+  get current(): string {
+    return this.get(0)
+  }
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  // 循环：把最新的内容移到末尾，下一条成为当前内容
+  rotate(): string {
+    const head = this.entries.shift()
+    if (head !== undefined) this.entries.push(head)
+    return this.current
+  }
+
+  toArray(): string[] {
+    return [...this.entries]
+  }
+
+  // 保存 / 恢复整个环，供事务回滚使用
+  snapshot(): string[] {
+    return this.toArray()
+  }
+
+  restore(entries: string[]): void {
+    this.entries = [...entries]
+  }
+}
+
+export interface ApplicationOptions {
+  // 每个编辑器历史记录的最大深度，默认 100
+  historyLimit?: number
+  // 剪贴板环容量，默认 10
+  clipboardSize?: number
+  // 命令日志：每条执行成功的命令都会以 JSON 记录追加进去
+  log?: CommandLog
+}
+
+// 发送者/协调者：统一调度命令，管理打开的编辑器、剪贴板与各编辑器的历史
+export class Application {
   editors: Editor[] = []
   activeEditor: Editor
-  history = new CommandHistory()
+  readonly clipboardRing: ClipboardRing
+  // 每个编辑器独立的历史，撤销只影响对应的文档
+  private histories = new Map<Editor, CommandHistory>()
+  private historyLimit: number | undefined
+  // 录制中的命令序列，未录制时为 undefined
+  private recording: Command[] | undefined
+  private log: CommandLog | undefined
+
+  constructor(activeEditor?: Editor, options: ApplicationOptions = {}) {
+    this.historyLimit = options.historyLimit
+    this.clipboardRing = new ClipboardRing(options.clipboardSize)
+    // 初始编辑器由日志的初始快照描述，先打开再接入日志，不记录 open
+    this.activeEditor = this.openEditor(activeEditor)
+    this.log = options.log
+  }
+
+  // 剪贴板：读取最近一次内容，写入时推入剪贴板环
+  get clipboard(): string {
+    return this.clipboardRing.current
+  }
+
+  set clipboard(text: string) {
+    this.clipboardRing.push(text)
+  }
+
+  // 当前编辑器的历史
+  get history(): CommandHistory {
+    return this.historyFor(this.activeEditor)
+  }
+
+  historyFor(editor: Editor): CommandHistory {
+    let history = this.histories.get(editor)
+    if (!history) {
+      history = new CommandHistory(this.historyLimit)
+      this.histories.set(editor, history)
+    }
+    return history
+  }
 
-  constructor(activeEditor?: Editor) {
-    this.activeEditor = activeEditor ?? new Editor()
+  // 打开编辑器并切换为当前编辑器；已经打开的编辑器只做切换
+  // 新打开的编辑器以 open 记录写入日志，带上打开时的文本和选区，回放时据此重建
+  openEditor(editor: Editor = new Editor()): Editor {
+    if (!this.editors.includes(editor)) {
+      this.editors.push(editor)
+      this.logLifecycle('open', editor, { text: editor.text })
+    }
+    this.activeEditor = editor
+    return editor
   }
 
-  // 执行命令：只有改变状态的命令才入栈
+  // 切换当前编辑器，只能切换到已打开的编辑器
+  switchEditor(editor: Editor): void {
+    if (!this.editors.includes(editor)) {
+      throw new Error('Editor is not open in this application')
+    }
+    this.activeEditor = editor
+  }
+
+  // 关闭编辑器并丢弃它的历史；关闭当前编辑器时切换到相邻的编辑器
+  // 最后一个编辑器被关闭后打开一个空白编辑器，保证始终有当前编辑器
+  closeEditor(editor: Editor = this.activeEditor): void {
+    const index = this.editors.indexOf(editor)
+    if (index === -1) return
+
+    this.editors.splice(index, 1)
+    this.histories.delete(editor)
+    this.logLifecycle('close', editor)
+    if (editor !== this.activeEditor) return
+
+    if (this.editors.length === 0) {
+      this.openEditor()
+    } else {
+      this.activeEditor = this.editors[Math.min(index, this.editors.length - 1)]
+    }
+  }
+
+  // 编辑器的打开 / 关闭记录，格式与命令记录相同
+  private logLifecycle(
+    type: 'open' | 'close',
+    editor: Editor,
+    payload?: Record<string, unknown>
+  ): void {
+    if (!this.log) return
+    const selections = editor.getSelections()
+    const record: CommandRecord = {
+      type,
+      editor: editor.id,
+      selection: selections[0],
+    }
+    if (selections.length > 1) record.selections = selections
+    if (payload) record.payload = payload
+    this.log.append(record)
+  }
+
+  // 执行命令：只有改变状态的命令才进入所属编辑器的历史；录制中时记录执行成功的命令
   executeCommand(command: Command): void {
-    if (command.execute()) {
-      this.history.push(command)
+    const changed = command.run()
+    this.log?.append(command.toRecord())
+    if (this.recording && command.isRecordable()) {
+      this.recording.push(command)
+    }
+    if (changed) {
+      this.historyFor(command.getEditor()).push(command)
     }
   }
 
-  // 撤销最近一次改变状态的命令
-  undo(): void {
-    const command = this.history.pop()
-    if (command) command.undo()
+  get isRecording(): boolean {
+    return this.recording !== undefined
+  }
+
+  // 开始录制：之后经 executeCommand 执行的命令都会被记录
+  startRecording(): void {
+    this.recording = []
+  }
+
+  // 停止录制并返回录到的命令序列
+  stopRecording(): Command[] {
+    const recorded = this.recording ?? []
+    this.recording = undefined
+    return recorded
+  }
+
+  // 把录制的命令回放到指定编辑器，整段回放作为一个宏，可以一次撤销
+  replay(commands: Command[], editor: Editor = this.activeEditor): void {
+    const steps = commands.map(command => command.cloneFor(this, editor))
+    this.executeCommand(new MacroCommand(this, editor, steps))
+  }
+
+  // 撤销指定编辑器（默认当前编辑器）最近一次改变状态的命令
+  // 经由 UndoCommand 执行，直接调用也会写入命令日志，回放时能复现
+  undo(editor: Editor = this.activeEditor): void {
+    this.executeCommand(new UndoCommand(this, editor))
+  }
+
+  // 重做指定编辑器（默认当前编辑器）最近一次被撤销的命令
+  redo(editor: Editor = this.activeEditor): void {
+    this.executeCommand(new RedoCommand(this, editor))
+  }
+
+  canUndo(editor: Editor = this.activeEditor): boolean {
+    return this.historyFor(editor).canUndo()
+  }
+
+  canRedo(editor: Editor = this.activeEditor): boolean {
+    return this.historyFor(editor).canRedo()
   }
 }
 
 // 复制：不更改文本，不入历史栈
-class CopyCommand extends Command {
+export class CopyCommand extends Command {
+  readonly type = 'copy'
+
   execute(): boolean {
     this.app.clipboard = this.editor.getSelection()
     return false
   }
 }
 
-// 剪切：更改文本（删除选区），需保存备份并入栈
-class CutCommand extends Command {
+// 剪切：更改文本（删除选区），记录差异并入栈
+export class CutCommand extends Command {
+  readonly type = 'cut'
+
   execute(): boolean {
-    this.saveBackup()
     this.app.clipboard = this.editor.getSelection()
-    this.editor.deleteSelection()
+    this.replaceSelection('')
+    return true
+  }
+}
+
+// 粘贴：更改文本（替换选区），记录差异并入栈
+// ringIndex 指定粘贴剪贴板环中的第几条，0 为最近一次
+// 多光标时，剪贴板行数与光标数相同则每个光标粘贴一行，否则每个光标都粘贴全部内容
+export class PasteCommand extends Command {
+  readonly type = 'paste'
+
+  constructor(
+    app: Application,
+    editor: Editor,
+    private ringIndex: number = 0
+  ) {
+    super(app, editor)
+  }
+
+  execute(): boolean {
+    const text = this.app.clipboardRing.get(this.ringIndex)
+    const lines = text.split('\n')
+    const cursors = this.editor.getSelections().length
+    this.replaceSelection(
+      cursors > 1 && lines.length === cursors ? lines : text
+    )
     return true
   }
+
+  cloneFor(app: Application, editor: Editor): Command {
+    return new PasteCommand(app, editor, this.ringIndex)
+  }
+
+  protected payload(): Record<string, unknown> | undefined {
+    return this.ringIndex === 0 ? undefined : { ringIndex: this.ringIndex }
+  }
 }
 
-// 粘贴：更改文本（替换选区），需保存备份并入栈
-class PasteCommand extends Command {
+// 输入：用输入的文本替换选区；连续输入合并为一条历史，撤销时整段撤回
+export class TypeCommand extends Command {
+  readonly type = 'type'
+
+  constructor(
+    app: Application,
+    editor: Editor,
+    private typed: string
+  ) {
+    super(app, editor)
+  }
+
   execute(): boolean {
-    this.saveBackup()
-    this.editor.replaceSelection(this.app.clipboard)
+    this.replaceSelection(this.typed)
+    // 输入后每个光标停在各自新文本的末尾
+    this.selectionsAfter = this.editor
+      .getSelections()
+      .map(({ end }) => ({ start: end, end }))
+    this.editor.setSelections(this.selectionsAfter)
+    return true
+  }
+
+  // 同一编辑器中每个光标都紧接着上次输入末尾继续输入时才合并
+  // 后一次删除的文本紧跟在前一次删除的文本之后，两段差异可以直接拼接
+  mergeWith(next: Command): boolean {
+    if (!(next instanceof TypeCommand) || next.editor !== this.editor) {
+      return false
+    }
+    if (this.edits.length === 0 || next.edits.length !== this.edits.length) {
+      return false
+    }
+    // next 的位置基于本次修改后的文档，需要累加前面光标造成的偏移
+    let shift = 0
+    const contiguous = this.edits.every((edit, i) => {
+      const end = edit.start + shift + edit.inserted.length
+      shift += edit.inserted.length - edit.deleted.length
+      return next.edits[i].start === end
+    })
+    if (!contiguous) return false
+
+    this.edits = this.edits.map((edit, i) => ({
+      start: edit.start,
+      deleted: edit.deleted + next.edits[i].deleted,
+      inserted: edit.inserted + next.edits[i].inserted,
+    }))
+    this.selectionsAfter = next.selectionsAfter
     return true
   }
+
+  cloneFor(app: Application, editor: Editor): Command {
+    return new TypeCommand(app, editor, this.typed)
+  }
+
+  protected payload(): Record<string, unknown> {
+    return { text: this.typed }
+  }
+}
+
+// 选择：移动选区，不更改文本，不入历史栈；用于录制脚本中的光标移动
+export class SelectCommand extends Command {
+  readonly type = 'select'
+
+  constructor(
+    app: Application,
+    editor: Editor,
+    private start: number,
+    private end: number = start
+  ) {
+    super(app, editor)
+  }
+
+  execute(): boolean {
+    this.editor.setSelection(this.start, this.end)
+    return false
+  }
+
+  cloneFor(app: Application, editor: Editor): Command {
+    return new SelectCommand(app, editor, this.start, this.end)
+  }
+
+  protected payload(): Record<string, unknown> {
+    return { start: this.start, end: this.end }
+  }
+}
+
+// 宏命令：把多条命令组合成一个事务，整体执行、整体撤销
+// 任一步骤抛错时，按相反顺序撤销已生效的步骤，恢复剪贴板与选区后再抛出
+export class MacroCommand extends Command {
+  readonly type = 'macro'
+  private applied: Command[] = []
+
+  constructor(
+    app: Application,
+    editor: Editor,
+    private commands: Command[]
+  ) {
+    super(app, editor)
+  }
+
+  execute(): boolean {
+    const clipboard = this.app.clipboardRing.snapshot()
+    const selections = this.editor.getSelections()
+    this.applied = []
+    try {
+      for (const command of this.commands) {
+        if (command.run()) this.applied.push(command)
+      }
+    } catch (error) {
+      this.undo()
+      this.applied = []
+      this.app.clipboardRing.restore(clipboard)
+      this.editor.setSelections(selections)
+      throw error
+    }
+    return this.applied.length > 0
+  }
+
+  undo(): void {
+    for (const command of [...this.applied].reverse()) {
+      command.undo()
+    }
+  }
+
+  redo(): void {
+    for (const command of this.applied) {
+      command.redo()
+    }
+  }
+
+  cloneFor(app: Application, editor: Editor): Command {
+    return new MacroCommand(
+      app,
+      editor,
+      this.commands.map(command => command.cloneFor(app, editor))
+    )
+  }
+
+  protected payload(): Record<string, unknown> {
+    return { commands: this.commands.map(command => command.toRecord()) }
+  }
 }
 
 // 撤销命令：委托应用执行撤销，不入历史栈
-class UndoCommand extends Command {
+export class UndoCommand extends Command {
+  readonly type = 'undo'
+
+  execute(): boolean {
+    this.app.historyFor(this.editor).undo()
+    return false
+  }
+
+  isRecordable(): boolean {
+    return false
+  }
+}
+
+// 重做命令：委托应用执行重做，不入历史栈
+export class RedoCommand extends Command {
+  readonly type = 'redo'
+
   execute(): boolean {
-    this.app.undo()
+    this.app.historyFor(this.editor).redo()
+    return false
+  }
+
+  isRecordable(): boolean {
     return false
   }
 }
 
-// Demo：复制 → 剪切 → 粘贴 → 撤销，返回状态字符串便于验证
+// Demo：复制 → 剪切 → 粘贴 → 撤销 → 重做，返回状态字符串便于验证
 export function commandUndoDemo(): string {
   const editor = new Editor('Hello World')
   // 选中 "World"
@@ -157,5 +765,8 @@ export function commandUndoDemo(): string {
   app.executeCommand(new UndoCommand(app, editor))
   const s4 = `text=${editor.text}`
 
-  return [s1, s2, s3, s4].join(' | ')
+  app.executeCommand(new RedoCommand(app, editor))
+  const s5 = `text=${editor.text}`
+
+  return [s1, s2, s3, s4, s5].join(' | ')
 }
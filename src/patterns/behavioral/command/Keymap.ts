@@ -0,0 +1,249 @@
+// 快捷键层：把按键序列（支持 Ctrl+K Ctrl+S 这样的组合键）绑定到注册表中的菜单命令
+// 绑定可以带 when 条件，只在满足条件的上下文中生效；同一上下文中的重复绑定会被报告为冲突
+
+import { getCommandState, MenuCommandRegistry } from './ParameterizedCommands'
+
+// 上下文：when 条件中引用的键，例如 { editorFocus: true, readOnly: false }
+export type KeyContext = Record<string, unknown>
+
+export interface Keybinding {
+  // 规范化后的按键序列，每个元素是一次按键，例如 ['Ctrl+K', 'Ctrl+S']
+  keys: string[]
+  commandId: string
+  when?: string
+}
+
+export interface KeybindingConflict {
+  // duplicate：同一序列绑定了多个命令；prefix：较短的序列会截断较长的组合键
+  kind: 'duplicate' | 'prefix'
+  keys: string
+  bindings: Keybinding[]
+}
+
+export type DispatchResult =
+  | { status: 'executed'; keys: string[]; commandId: string }
+  | { status: 'pending'; keys: string[] }
+  | { status: 'disabled'; keys: string[]; commandId: string; reason: string }
+  | { status: 'unbound'; keys: string[] }
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta']
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+}
+
+// 规范化一次按键：修饰键按固定顺序排列，单字符键转大写，例如 'shift+ctrl+p' → 'Ctrl+Shift+P'
+export function normalizeKeystroke(keystroke: string): string {
+  const parts = keystroke
+    .split('+')
+    .map(part => part.trim())
+    .filter(part => part !== '')
+  const modifiers = new Set<string>()
+  let key: string | undefined
+
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()]
+    if (modifier) {
+      modifiers.add(modifier)
+    } else if (key === undefined) {
+      key =
+        part.length === 1
+          ? part.toUpperCase()
+          : part[0].toUpperCase() + part.slice(1).toLowerCase()
+    } else {
+      throw new Error(`Invalid keystroke "${keystroke}": more than one key`)
+    }
+  }
+  if (key === undefined) {
+    throw new Error(`Invalid keystroke "${keystroke}": missing key`)
+  }
+  return [...MODIFIERS.filter(m => modifiers.has(m)), key].join('+')
+}
+
+// 解析按键序列，空格分隔各次按键
+export function parseKeySequence(sequence: string): string[] {
+  const keys = sequence
+    .trim()
+    .split(/\s+/)
+    .filter(part => part !== '')
+  if (keys.length === 0) {
+    throw new Error('Empty key sequence')
+  }
+  return keys.map(normalizeKeystroke)
+}
+
+// 计算 when 条件，支持 ||、&& 和 ! 前缀，例如 'editorFocus && !readOnly'
+// 省略条件时总是生效
+export function evaluateWhen(
+  when: string | undefined,
+  context: KeyContext
+): boolean {
+  if (when === undefined || when.trim() === '') return true
+  return when.split('||').some(clause =>
+    clause.split('&&').every(term => {
+      const name = term.trim()
+      return name.startsWith('!')
+        ? !context[name.slice(1).trim()]
+        : Boolean(context[name])
+    })
+  )
+}
+
+// 规范化 when 条件的写法，用于判断两个绑定是否作用于同一上下文
+function normalizeWhen(when: string | undefined): string {
+  if (when === undefined) return ''
+  return when
+    .split('||')
+    .map(clause =>
+      clause
+        .split('&&')
+        .map(term => term.replace(/\s+/g, ''))
+        .filter(term => term !== '')
+        .sort()
+        .join('&&')
+    )
+    .filter(clause => clause !== '')
+    .sort()
+    .join('||')
+}
+
+const isPrefix = (prefix: string[], keys: string[]): boolean =>
+  prefix.length <= keys.length && prefix.every((key, i) => keys[i] === key)
+
+export class Keymap {
+  private bindings: Keybinding[] = []
+
+  bind(sequence: string, commandId: string, when?: string): this {
+    this.bindings.push({ keys: parseKeySequence(sequence), commandId, when })
+    return this
+  }
+
+  // 移除按键序列上的绑定；指定 commandId 时只移除该命令的绑定
+  unbind(sequence: string, commandId?: string): void {
+    const keys = parseKeySequence(sequence).join(' ')
+    this.bindings = this.bindings.filter(
+      binding =>
+        binding.keys.join(' ') !== keys ||
+        (commandId !== undefined && binding.commandId !== commandId)
+    )
+  }
+
+  getBindings(): Keybinding[] {
+    return [...this.bindings]
+  }
+
+  bindingsFor(commandId: string): Keybinding[] {
+    return this.bindings.filter(binding => binding.commandId === commandId)
+  }
+
+  // 在当前上下文中查找与序列完全匹配的绑定（后绑定的优先），并报告是否还有更长的组合键
+  resolve(
+    keys: string[],
+    context: KeyContext = {}
+  ): { binding?: Keybinding; hasLonger: boolean } {
+    let binding: Keybinding | undefined
+    let hasLonger = false
+    for (const candidate of this.bindings) {
+      if (!isPrefix(keys, candidate.keys)) continue
+      if (!evaluateWhen(candidate.when, context)) continue
+      if (candidate.keys.length === keys.length) binding = candidate
+      else hasLonger = true
+    }
+    return { binding, hasLonger }
+  }
+
+  // 找出 when 条件相同的绑定之间的冲突
+  getConflicts(): KeybindingConflict[] {
+    const conflicts: KeybindingConflict[] = []
+    const groups = new Map<string, Keybinding[]>()
+    for (const binding of this.bindings) {
+      const key = `${binding.keys.join(' ')}\u0000${normalizeWhen(binding.when)}`
+      groups.set(key, [...(groups.get(key) ?? []), binding])
+    }
+    for (const group of groups.values()) {
+      const commands = new Set(group.map(binding => binding.commandId))
+      if (commands.size > 1) {
+        conflicts.push({
+          kind: 'duplicate',
+          keys: group[0].keys.join(' '),
+          bindings: group,
+        })
+      }
+    }
+
+    for (const short of this.bindings) {
+      const longer = this.bindings.filter(
+        binding =>
+          binding.keys.length > short.keys.length &&
+          isPrefix(short.keys, binding.keys) &&
+          normalizeWhen(binding.when) === normalizeWhen(short.when)
+      )
+      if (longer.length > 0) {
+        conflicts.push({
+          kind: 'prefix',
+          keys: short.keys.join(' '),
+          bindings: [short, ...longer],
+        })
+      }
+    }
+    return conflicts
+  }
+
+  // 命令的第一个快捷键，用于在菜单和命令面板中显示
+  labelFor(commandId: string): string | undefined {
+    return this.bindingsFor(commandId)[0]?.keys.join(' ')
+  }
+}
+
+// 分发器：逐次接收按键，组合键的前缀会进入等待状态，直到序列完整或不再匹配
+export class KeybindingDispatcher {
+  private pending: string[] = []
+
+  constructor(
+    private keymap: Keymap,
+    private registry: MenuCommandRegistry
+  ) {}
+
+  get pendingKeys(): string[] {
+    return [...this.pending]
+  }
+
+  dispatch(keystroke: string, context: KeyContext = {}): DispatchResult {
+    const keys = [...this.pending, normalizeKeystroke(keystroke)]
+    const { binding, hasLonger } = this.keymap.resolve(keys, context)
+
+    // 还有更长的组合键时先等待下一次按键
+    if (hasLonger) {
+      this.pending = keys
+      return { status: 'pending', keys }
+    }
+
+    this.pending = []
+    if (!binding) return { status: 'unbound', keys }
+    // 与菜单一致：不可用的命令不执行
+    const command = this.registry.get(binding.commandId)
+    const state = command && getCommandState(command)
+    if (state && !state.enabled) {
+      return {
+        status: 'disabled',
+        keys,
+        commandId: binding.commandId,
+        reason: state.reason ?? '',
+      }
+    }
+    this.registry.execute(binding.commandId)
+    return { status: 'executed', keys, commandId: binding.commandId }
+  }
+
+  // 放弃未完成的组合键（例如按下 Escape 或焦点切换时）
+  reset(): void {
+    this.pending = []
+  }
+}
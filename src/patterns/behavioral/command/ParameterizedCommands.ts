@@ -2,30 +2,76 @@
 // 核心思想：将特定方法调用转化为独立对象，实现参数化、保存、切换等操作
 
 // 命令接口：统一执行规范
-interface MenuCommand {
+export interface MenuCommand {
   execute(): void
   getDescription(): string
+  // 可选：根据接收者状态判断是否可用，不可用时 getDisabledReason 说明原因
+  isEnabled?(): boolean
+  getDisabledReason?(): string
+  // 可选：复选菜单项的勾选状态
+  isChecked?(): boolean
+}
+
+// 命令当前的可用和勾选状态，未实现对应方法的命令视为可用、不可勾选
+export interface CommandState {
+  enabled: boolean
+  reason?: string
+  checked?: boolean
+}
+
+export function getCommandState(command: MenuCommand): CommandState {
+  const enabled = command.isEnabled?.() ?? true
+  const state: CommandState = { enabled }
+  if (!enabled) state.reason = command.getDisabledReason?.() ?? '命令不可用'
+  if (command.isChecked) state.checked = command.isChecked()
+  return state
 }
 
 // 接收者：文档编辑器（提供具体操作）
-class DocumentEditor {
+export class DocumentEditor {
   private content: string = ''
   private clipboard: string = ''
+  private modified: boolean = false
+  private wordWrap: boolean = false
+
+  hasContent(): boolean {
+    return this.content !== ''
+  }
+
+  hasClipboard(): boolean {
+    return this.clipboard !== ''
+  }
+
+  isModified(): boolean {
+    return this.modified
+  }
+
+  isWordWrap(): boolean {
+    return this.wordWrap
+  }
 
   newDocument(): void {
     this.content = ''
+    this.modified = false
     console.log('📄 新建文档')
   }
 
   openDocument(filename: string): void {
     this.content = `打开的文件：${filename}`
+    this.modified = false
     console.log(`📂 打开文档：${filename}`)
   }
 
   saveDocument(): void {
+    this.modified = false
     console.log('💾 保存文档')
   }
 
+  toggleWordWrap(): void {
+    this.wordWrap = !this.wordWrap
+    console.log(`↩️ 自动换行：${this.wordWrap ? '开' : '关'}`)
+  }
+
   copyText(): void {
     this.clipboard = this.content
     console.log('📋 复制文本')
@@ -33,6 +79,7 @@ class DocumentEditor {
 
   pasteText(): void {
     this.content += this.clipboard
+    this.modified = true
     console.log('📝 粘贴文本')
   }
 
@@ -42,7 +89,7 @@ class DocumentEditor {
 }
 
 // 具体命令：新建文档
-class NewDocumentCommand implements MenuCommand {
+export class NewDocumentCommand implements MenuCommand {
   constructor(private editor: DocumentEditor) {}
 
   execute(): void {
@@ -55,7 +102,7 @@ class NewDocumentCommand implements MenuCommand {
 }
 
 // 具体命令：打开文档（带参数）
-class OpenDocumentCommand implements MenuCommand {
+export class OpenDocumentCommand implements MenuCommand {
   constructor(
     private editor: DocumentEditor,
     private filename: string
@@ -71,7 +118,7 @@ class OpenDocumentCommand implements MenuCommand {
 }
 
 // 具体命令：保存文档
-class SaveDocumentCommand implements MenuCommand {
+export class SaveDocumentCommand implements MenuCommand {
   constructor(private editor: DocumentEditor) {}
 
   execute(): void {
@@ -81,10 +128,18 @@ class SaveDocumentCommand implements MenuCommand {
   getDescription(): string {
     return '保存'
   }
+
+  isEnabled(): boolean {
+    return this.editor.isModified()
+  }
+
+  getDisabledReason(): string {
+    return '文档没有修改'
+  }
 }
 
 // 具体命令：复制文本
-class CopyCommand implements MenuCommand {
+export class CopyCommand implements MenuCommand {
   constructor(private editor: DocumentEditor) {}
 
   execute(): void {
@@ -94,10 +149,18 @@ class CopyCommand implements MenuCommand {
   getDescription(): string {
     return '复制'
   }
+
+  isEnabled(): boolean {
+    return this.editor.hasContent()
+  }
+
+  getDisabledReason(): string {
+    return '文档为空'
+  }
 }
 
 // 具体命令：粘贴文本
-class PasteCommand implements MenuCommand {
+export class PasteCommand implements MenuCommand {
   constructor(private editor: DocumentEditor) {}
 
   execute(): void {
@@ -107,52 +170,247 @@ class PasteCommand implements MenuCommand {
   getDescription(): string {
     return '粘贴'
   }
+
+  isEnabled(): boolean {
+    return this.editor.hasClipboard()
+  }
+
+  getDisabledReason(): string {
+    return '剪贴板为空'
+  }
+}
+
+// 具体命令：切换自动换行（复选菜单项）
+export class ToggleWordWrapCommand implements MenuCommand {
+  constructor(private editor: DocumentEditor) {}
+
+  execute(): void {
+    this.editor.toggleWordWrap()
+  }
+
+  getDescription(): string {
+    return '自动换行'
+  }
+
+  isChecked(): boolean {
+    return this.editor.isWordWrap()
+  }
+}
+
+// 命令注册表：按 id 登记所有命令，菜单、快捷键和命令面板共用同一份
+export class MenuCommandRegistry {
+  private commands = new Map<string, MenuCommand>()
+
+  register(id: string, command: MenuCommand): this {
+    if (this.commands.has(id)) {
+      throw new Error(`Command "${id}" is already registered`)
+    }
+    this.commands.set(id, command)
+    return this
+  }
+
+  get(id: string): MenuCommand | undefined {
+    return this.commands.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.commands.has(id)
+  }
+
+  // 与菜单一致：不可用的命令不执行，返回是否执行了命令
+  execute(id: string): boolean {
+    const command = this.commands.get(id)
+    if (!command) {
+      throw new Error(`Unknown command "${id}"`)
+    }
+    if (!getCommandState(command).enabled) return false
+    command.execute()
+    return true
+  }
+
+  entries(): { id: string; command: MenuCommand }[] {
+    return [...this.commands].map(([id, command]) => ({ id, command }))
+  }
 }
 
+// 菜单项：命令、分隔线或子菜单
+export type MenuItem =
+  | { kind: 'command'; label: string; command: MenuCommand }
+  | { kind: 'separator' }
+  | { kind: 'submenu'; label: string; menu: ContextMenu }
+
+// 渲染用的菜单树节点，只包含数据，可以直接序列化为 JSON
+export type MenuNode =
+  | ({ type: 'command'; label: string; description: string } & CommandState)
+  | { type: 'separator' }
+  | { type: 'submenu'; label: string; enabled: boolean; items: MenuNode[] }
+
+export type ClickResult =
+  | { status: 'executed'; label: string }
+  | { status: 'disabled'; label: string; reason: string }
+  | { status: 'invalid'; reason: string }
+
 // GUI 组件：上下文菜单（调用者）
-class ContextMenu {
-  private menuItems: { label: string; command: MenuCommand }[] = []
+export class ContextMenu {
+  private menuItems: MenuItem[] = []
 
   // 添加菜单项（参数化配置）
   addMenuItem(label: string, command: MenuCommand): void {
-    this.menuItems.push({ label, command })
+    this.menuItems.push({ kind: 'command', label, command })
+  }
+
+  // 从注册表添加菜单项，默认使用命令描述作为标签
+  addRegisteredItem(
+    registry: MenuCommandRegistry,
+    id: string,
+    label?: string
+  ): void {
+    const command = registry.get(id)
+    if (!command) {
+      throw new Error(`Unknown command "${id}"`)
+    }
+    this.addMenuItem(label ?? command.getDescription(), command)
   }
 
-  // 移除菜单项
+  addSeparator(): void {
+    this.menuItems.push({ kind: 'separator' })
+  }
+
+  // 添加子菜单，返回子菜单以便继续配置
+  addSubmenu(
+    label: string,
+    menu: ContextMenu = new ContextMenu()
+  ): ContextMenu {
+    this.menuItems.push({ kind: 'submenu', label, menu })
+    return menu
+  }
+
+  getItems(): readonly MenuItem[] {
+    return this.menuItems
+  }
+
+  // 移除菜单项（包括同名的子菜单）
   removeMenuItem(label: string): void {
-    this.menuItems = this.menuItems.filter(item => item.label !== label)
+    this.menuItems = this.menuItems.filter(
+      item => item.kind === 'separator' || item.label !== label
+    )
+  }
+
+  // 按当前状态生成菜单树；子菜单中至少有一项可用时子菜单才可用
+  toTree(): MenuNode[] {
+    return this.menuItems.map((item): MenuNode => {
+      switch (item.kind) {
+        case 'separator':
+          return { type: 'separator' }
+        case 'submenu': {
+          const items = item.menu.toTree()
+          return {
+            type: 'submenu',
+            label: item.label,
+            enabled: items.some(
+              node => node.type !== 'separator' && node.enabled
+            ),
+            items,
+          }
+        }
+        case 'command':
+          return {
+            type: 'command',
+            label: item.label,
+            description: item.command.getDescription(),
+            ...getCommandState(item.command),
+          }
+      }
+    })
   }
 
   // 显示菜单
   showMenu(): void {
     console.log('\n=== 上下文菜单 ===')
-    this.menuItems.forEach((item, index) => {
-      console.log(
-        `${index + 1}. ${item.label} (${item.command.getDescription()})`
-      )
-    })
+    console.log(renderMenuText(this.toTree()))
     console.log('==================\n')
   }
 
   // 执行菜单项（模拟用户点击）
-  clickMenuItem(index: number): void {
-    if (index >= 0 && index < this.menuItems.length) {
-      const item = this.menuItems[index]
-      console.log(`🖱️ 点击菜单项：${item.label}`)
-      item.command.execute()
-    } else {
+  clickMenuItem(index: number): ClickResult {
+    const item = this.menuItems[index]
+    if (!item || item.kind !== 'command') {
       console.log('❌ 无效的菜单项索引')
+      return { status: 'invalid', reason: '无效的菜单项索引' }
+    }
+    return this.activate(item.label, item.command)
+  }
+
+  // 按标签路径点击子菜单中的菜单项，例如 ['打开最近', 'readme.md']
+  clickPath(path: string[]): ClickResult {
+    let items = this.menuItems
+    for (const [depth, label] of path.entries()) {
+      const item = items.find(
+        item => item.kind !== 'separator' && item.label === label
+      )
+      const isLast = depth === path.length - 1
+      if (item?.kind === 'command' && isLast) {
+        return this.activate(item.label, item.command)
+      }
+      if (item?.kind !== 'submenu' || isLast) {
+        console.log(`❌ 无效的菜单路径：${path.join(' > ')}`)
+        return {
+          status: 'invalid',
+          reason: `无效的菜单路径：${path.join(' > ')}`,
+        }
+      }
+      items = item.menu.menuItems
     }
+    return { status: 'invalid', reason: '菜单路径为空' }
   }
 
   // 运行时切换命令
   replaceCommand(label: string, newCommand: MenuCommand): void {
-    const item = this.menuItems.find(item => item.label === label)
-    if (item) {
+    const item = this.menuItems.find(
+      item => item.kind === 'command' && item.label === label
+    )
+    if (item?.kind === 'command') {
       item.command = newCommand
       console.log(`🔄 已更新菜单项"${label}"的命令`)
     }
   }
+
+  // 不可用的命令不执行，只返回原因
+  private activate(label: string, command: MenuCommand): ClickResult {
+    const { enabled, reason } = getCommandState(command)
+    if (!enabled) {
+      console.log(`🚫 菜单项不可用：${label}（${reason}）`)
+      return { status: 'disabled', label, reason: reason ?? '' }
+    }
+    console.log(`🖱️ 点击菜单项：${label}`)
+    command.execute()
+    return { status: 'executed', label }
+  }
+}
+
+// 以缩进文本渲染菜单树：[x] / [ ] 表示勾选状态，▸ 表示子菜单
+export function renderMenuText(nodes: MenuNode[], depth: number = 0): string {
+  const indent = '  '.repeat(depth)
+  return nodes
+    .map(node => {
+      if (node.type === 'separator') return `${indent}────────`
+      if (node.type === 'submenu') {
+        const line = `${indent}${node.label} ▸${node.enabled ? '' : '（不可用）'}`
+        return node.items.length > 0
+          ? `${line}\n${renderMenuText(node.items, depth + 1)}`
+          : line
+      }
+      const mark =
+        node.checked === undefined ? '' : node.checked ? '[x] ' : '[ ] '
+      const state = node.enabled ? '' : `（不可用：${node.reason}）`
+      return `${indent}${mark}${node.label} (${node.description})${state}`
+    })
+    .join('\n')
+}
+
+// 以 JSON 渲染菜单树，供前端按数据绘制真实界面
+export function renderMenuJson(nodes: MenuNode[]): string {
+  return JSON.stringify(nodes, null, 2)
 }
 
 // 演示函数：展示命令模式的参数化对象应用
@@ -179,6 +437,10 @@ export function parameterizedCommandDemo(): void {
   menu.addMenuItem('保存文档', saveCmd)
   menu.addMenuItem('复制内容', copyCmd)
   menu.addMenuItem('粘贴内容', pasteCmd)
+  menu.addSeparator()
+  menu
+    .addSubmenu('视图')
+    .addMenuItem('自动换行', new ToggleWordWrapCommand(editor))
 
   // 展示菜单
   menu.showMenu()
@@ -199,6 +461,12 @@ export function parameterizedCommandDemo(): void {
   menu.clickMenuItem(1) // 现在打开的是 readme.md
   editor.showContent()
 
+  // 不可用的菜单项点击无效，勾选项和子菜单按当前状态渲染
+  console.log('\n--- 可用状态与子菜单 ---')
+  menu.clickMenuItem(2) // 刚打开的文档没有修改，保存不可用
+  menu.clickPath(['视图', '自动换行'])
+  menu.showMenu()
+
   console.log('\n✅ 演示完成！')
   console.log('📝 关键优势：')
   console.log('  1. 参数化对象：可以将命令作为参数传递给菜单项')
@@ -1,41 +1,207 @@
-export type EventListener = (...args: unknown[]) => void
+/** 事件表：事件名 → 参数元组 */
+export type EventMap = Record<string, unknown[]>
 
-class EventEmitter {
-  private listeners: Record<string, EventListener[]> = {}
+export type EventName<Events extends EventMap> = Extract<keyof Events, string>
 
-  on(eventName: string, listener: EventListener): this {
-    ;(this.listeners[eventName] ??= []).push(listener)
-    return this
+export type EventListener<Args extends unknown[] = unknown[]> = (
+  ...args: Args
+) => void | Promise<unknown>
+
+/** 通配订阅：`user.*` 匹配一段，`**` 匹配任意多段 */
+export type WildcardPattern = `${string}*${string}`
+
+/** 通配监听器额外收到实际触发的事件名，参数无法静态确定故为 unknown[] */
+export type WildcardListener<Events extends EventMap> = (
+  eventName: EventName<Events>,
+  ...args: unknown[]
+) => void | Promise<unknown>
+
+/** `error` 事件监听器：收到监听器抛出的错误和出错的事件名 */
+export type ErrorListener = (
+  error: unknown,
+  eventName: string
+) => void | Promise<unknown>
+
+/**
+ * 监听器抛错时的处理策略
+ * - rethrow: 立即抛出，剩余监听器不再执行（默认，与旧行为一致）
+ * - collect: 执行完所有监听器后，把错误合并为 AggregateError 抛出
+ * - emit: 转发到 `error` 事件，没有 `error` 监听器时抛出
+ */
+export type ErrorPolicy = 'rethrow' | 'collect' | 'emit'
+
+export interface EventEmitterOptions {
+  errorPolicy?: ErrorPolicy
+  /** 单个事件的监听器上限，超过时打印泄漏警告，0 表示不限制，默认 10 */
+  maxListeners?: number
+}
+
+export interface ListenerOptions {
+  /** 数值越大越先执行，相同优先级按注册顺序，默认 0 */
+  priority?: number
+  /** signal 触发 abort 时自动移除该监听器 */
+  signal?: AbortSignal
+}
+
+export const DEFAULT_MAX_LISTENERS = 10
+
+const ERROR_EVENT = 'error'
+
+type AnyListener = (...args: never) => unknown
+
+interface ListenerEntry {
+  listener: AnyListener
+  priority: number
+  seq: number
+  /** 解除与 AbortSignal 的绑定 */
+  dispose?: () => void
+}
+
+const isWildcard = (eventName: string): boolean => eventName.includes('*')
+
+/** 按 `.` 分段匹配，`*` 匹配恰好一段，`**` 匹配零或多段 */
+export function matchEventPattern(pattern: string, eventName: string): boolean {
+  const match = (p: string[], e: string[]): boolean => {
+    if (p.length === 0) return e.length === 0
+    const [head, ...rest] = p
+    if (head === '**') {
+      for (let i = 0; i <= e.length; i++) {
+        if (match(rest, e.slice(i))) return true
+      }
+      return false
+    }
+    if (e.length === 0) return false
+    return (head === '*' || head === e[0]) && match(rest, e.slice(1))
   }
+  return match(pattern.split('.'), eventName.split('.'))
+}
+
+export class EventEmitter<Events extends EventMap = EventMap> {
+  private listeners: Record<string, ListenerEntry[]> = {}
+  private seq = 0
+  private errorPolicy: ErrorPolicy
+  private maxListeners: number
+  /** 已经警告过的事件名，每个事件只警告一次 */
+  private warned = new Set<string>()
 
-  once(eventName: string, listener: EventListener): this {
-    const wrapper: EventListener = (...args: unknown[]) => {
-      listener(...args)
+  constructor(options: EventEmitterOptions = {}) {
+    this.errorPolicy = options.errorPolicy ?? 'rethrow'
+    this.maxListeners = options.maxListeners ?? DEFAULT_MAX_LISTENERS
+  }
+
+  on<K extends EventName<Events>>(
+    eventName: K extends WildcardPattern ? never : K,
+    listener: EventListener<Events[K]>,
+    options?: ListenerOptions
+  ): this
+  on(
+    eventName: typeof ERROR_EVENT,
+    listener: ErrorListener,
+    options?: ListenerOptions
+  ): this
+  on(
+    pattern: WildcardPattern,
+    listener: WildcardListener<Events>,
+    options?: ListenerOptions
+  ): this
+  on(eventName: string, listener: AnyListener, options?: ListenerOptions) {
+    return this.add(eventName, listener, options)
+  }
+
+  once<K extends EventName<Events>>(
+    eventName: K extends WildcardPattern ? never : K,
+    listener: EventListener<Events[K]>,
+    options?: ListenerOptions
+  ): this
+  once(
+    eventName: typeof ERROR_EVENT,
+    listener: ErrorListener,
+    options?: ListenerOptions
+  ): this
+  once(
+    pattern: WildcardPattern,
+    listener: WildcardListener<Events>,
+    options?: ListenerOptions
+  ): this
+  once(eventName: string, listener: AnyListener, options?: ListenerOptions) {
+    // 先移除再调用，监听器抛错时也不会再次触发
+    const wrapper = (...args: unknown[]) => {
       this.removeListener(eventName, wrapper)
+      return (listener as (...args: unknown[]) => unknown)(...args)
     }
-    return this.on(eventName, wrapper)
+    return this.add(eventName, wrapper, options)
   }
 
-  emit(eventName: string, ...args: unknown[]): void {
-    const list = this.listeners[eventName]
-    if (!list || list.length === 0) return
-    for (const cb of [...list]) {
-      cb(...args)
+  emit<K extends EventName<Events>>(eventName: K, ...args: Events[K]): void {
+    const errors: unknown[] = []
+    for (const invoke of this.collect(eventName, args)) {
+      try {
+        this.invokeSync(invoke, eventName)
+      } catch (error) {
+        this.handleError(error, eventName, errors)
+      }
+    }
+    this.throwCollected(eventName, errors)
+  }
+
+  /** 依次执行监听器，前一个返回的 Promise 完成后才调用下一个 */
+  async emitAsync<K extends EventName<Events>>(
+    eventName: K,
+    ...args: Events[K]
+  ): Promise<void> {
+    const errors: unknown[] = []
+    for (const invoke of this.collect(eventName, args)) {
+      try {
+        await invoke()
+      } catch (error) {
+        this.handleError(error, eventName, errors)
+      }
+    }
+    this.throwCollected(eventName, errors)
+  }
+
+  /** 同时调用所有监听器，等待全部 Promise 完成 */
+  async emitParallel<K extends EventName<Events>>(
+    eventName: K,
+    ...args: Events[K]
+  ): Promise<void> {
+    const invokes = this.collect(eventName, args)
+    if (this.errorPolicy === 'rethrow') {
+      await Promise.all(invokes.map(async invoke => invoke()))
+      return
+    }
+
+    const results = await Promise.allSettled(
+      invokes.map(async invoke => invoke())
+    )
+    const errors: unknown[] = []
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        this.handleError(result.reason, eventName, errors)
+      }
     }
+    this.throwCollected(eventName, errors)
   }
 
-  off(eventName: string, listener: EventListener): this {
+  off<K extends EventName<Events>>(
+    eventName: K extends WildcardPattern ? never : K,
+    listener: EventListener<Events[K]>
+  ): this
+  off(eventName: typeof ERROR_EVENT, listener: ErrorListener): this
+  off(pattern: WildcardPattern, listener: WildcardListener<Events>): this
+  off(eventName: string, listener: AnyListener) {
     this.removeListener(eventName, listener)
     return this
   }
 
-  removeListener(eventName: string, listener: EventListener): void {
+  removeListener(eventName: string, listener: AnyListener): void {
     const list = this.listeners[eventName]
     if (!list) return
 
-    const index = list.findIndex(item => item === listener)
+    const index = list.findIndex(item => item.listener === listener)
     if (index !== -1) {
-      list.splice(index, 1)
+      const [entry] = list.splice(index, 1)
+      entry.dispose?.()
       if (list.length === 0) {
         delete this.listeners[eventName]
       }
@@ -43,11 +209,149 @@ class EventEmitter {
   }
 
   removeAllListeners(eventName?: string): void {
-    if (typeof eventName === 'undefined') {
-      this.listeners = {}
-      return
+    const names =
+      typeof eventName === 'undefined'
+        ? Object.keys(this.listeners)
+        : [eventName]
+    for (const name of names) {
+      this.listeners[name]?.forEach(entry => entry.dispose?.())
+      delete this.listeners[name]
+    }
+  }
+
+  listenerCount(eventName: string): number {
+    return this.listeners[eventName]?.length ?? 0
+  }
+
+  setMaxListeners(n: number): this {
+    if (!Number.isInteger(n) || n < 0) {
+      throw new RangeError(
+        `maxListeners must be a non-negative integer, got ${n}`
+      )
+    }
+    this.maxListeners = n
+    return this
+  }
+
+  getMaxListeners(): number {
+    return this.maxListeners
+  }
+
+  private add(
+    eventName: string,
+    listener: AnyListener,
+    options?: ListenerOptions
+  ): this {
+    const signal = options?.signal
+    // 已经中止的 signal 直接忽略订阅，与 Node 的行为一致
+    if (signal?.aborted) return this
+
+    const list = (this.listeners[eventName] ??= [])
+    const entry: ListenerEntry = {
+      listener,
+      priority: options?.priority ?? 0,
+      seq: this.seq++,
+    }
+    if (signal) {
+      const onAbort = () => this.removeListener(eventName, listener)
+      signal.addEventListener('abort', onAbort, { once: true })
+      entry.dispose = () => signal.removeEventListener('abort', onAbort)
     }
-    delete this.listeners[eventName]
+
+    // 保持列表按优先级降序，同优先级插到末尾
+    const index = list.findIndex(item => item.priority < entry.priority)
+    if (index === -1) list.push(entry)
+    else list.splice(index, 0, entry)
+
+    this.checkLeak(eventName, list.length)
+    return this
+  }
+
+  private checkLeak(eventName: string, count: number): void {
+    if (this.maxListeners === 0 || count <= this.maxListeners) return
+    if (this.warned.has(eventName)) return
+    this.warned.add(eventName)
+    console.warn(
+      `MaxListenersExceededWarning: Possible EventEmitter memory leak detected. ` +
+        `${count} "${eventName}" listeners added. ` +
+        `Use emitter.setMaxListeners() to increase limit`
+    )
+  }
+
+  private handleError(error: unknown, eventName: string, errors: unknown[]) {
+    switch (this.errorPolicy) {
+      case 'rethrow':
+        throw error
+      case 'collect':
+        errors.push(error)
+        return
+      case 'emit': {
+        // error 事件自身出错或无人监听时只能抛出，避免错误被静默吞掉
+        // 只算精确的 error 监听器，`**` 之类的通配订阅不算处理了错误
+        if (
+          eventName === ERROR_EVENT ||
+          this.listenerCount(ERROR_EVENT) === 0
+        ) {
+          throw error
+        }
+        for (const invoke of this.collect(ERROR_EVENT, [error, eventName])) {
+          this.invokeSync(invoke, ERROR_EVENT)
+        }
+      }
+    }
+  }
+
+  /**
+   * 同步调用监听器；同步 emit 不等待返回的 Promise，
+   * 拒绝时按错误策略处理，此时 emit 已经返回，无法抛给调用方的错误打印到 stderr
+   */
+  private invokeSync(invoke: () => unknown, eventName: string): void {
+    const result = invoke()
+    if (!(result instanceof Promise)) return
+    result.catch((rejection: unknown) => {
+      const errors: unknown[] = []
+      try {
+        this.handleError(rejection, eventName, errors)
+        this.throwCollected(eventName, errors)
+      } catch (error) {
+        console.error(error)
+      }
+    })
+  }
+
+  private throwCollected(eventName: string, errors: unknown[]): void {
+    if (errors.length === 0) return
+    throw new AggregateError(
+      errors,
+      `${errors.length} listener(s) failed while handling "${eventName}"`
+    )
+  }
+
+  /**
+   * 收集精确订阅与匹配的通配订阅，按优先级合并后返回调用闭包
+   * 先拷贝快照，监听器内部增删订阅不会影响本次派发
+   */
+  private collect(eventName: string, args: unknown[]) {
+    const entries: { entry: ListenerEntry; wildcard: boolean }[] = []
+    for (const [name, list] of Object.entries(this.listeners)) {
+      const wildcard = isWildcard(name)
+      const matched = wildcard
+        ? matchEventPattern(name, eventName)
+        : name === eventName
+      if (!matched) continue
+      for (const entry of list) entries.push({ entry, wildcard })
+    }
+
+    entries.sort(
+      (a, b) => b.entry.priority - a.entry.priority || a.entry.seq - b.entry.seq
+    )
+
+    return entries.map(({ entry, wildcard }) => {
+      const listener = entry.listener as (...args: unknown[]) => unknown
+      return wildcard
+        ? () => listener(eventName, ...args)
+        : () => listener(...args)
+    })
   }
 }
 
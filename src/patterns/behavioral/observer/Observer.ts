@@ -1,4 +1,7 @@
-interface ISubject {
+import { filter } from './Operators'
+import { Observable, Subject, Subscription } from './Subject'
+
+export interface ISubject {
   /** 添加观察者 */
   attach(observer: IObserver): void
 
@@ -9,15 +12,29 @@ interface ISubject {
   notify(): void
 }
 
-class ConcreteSubject implements ISubject {
+export interface IObserver {
+  update(subject: ISubject): void
+}
+
+export type Logger = (message: string) => void
+
+export class ConcreteSubject implements ISubject {
   state: number = 0
 
+  /**
+   * 状态流：观察者通过 subscribe 拿到 Subscription，
+   * 用操作符声明自己关心哪些状态，而不是在 update 里手写判断
+   */
+  readonly state$ = new Subject<number>()
+
   /**
    * 订阅者名单
    * 「发布订阅者模式」可以存储得更全面（按事件、类型等）
    */
   private observers = new Set<IObserver>()
 
+  constructor(private log: Logger = console.log) {}
+
   attach(observer: IObserver) {
     this.observers.add(observer)
   }
@@ -30,54 +47,88 @@ class ConcreteSubject implements ISubject {
     for (const observer of this.observers) {
       observer.update(this)
     }
+    this.state$.next(this.state)
   }
 
-  someBusinessLogic(): void {
-    console.log("\nSubject: I'm doing something important.")
-    this.state = Math.floor(Math.random() * (10 + 1))
+  someBusinessLogic(
+    nextState: number = Math.floor(Math.random() * (10 + 1))
+  ): void {
+    this.log("Subject: I'm doing something important.")
+    this.state = nextState
 
-    console.log(`Subject: My state has just changed to: ${this.state}`)
+    this.log(`Subject: My state has just changed to: ${this.state}`)
     this.notify()
   }
 }
 
-interface IObserver {
-  update(subject: ISubject): void
-}
+/**
+ * 两种用法：attach 后由 notify 调用 update（经典观察者），
+ * 或者 observe 订阅 state$；两种用法的状态都经过同一条操作符管道（react）
+ */
+export class ConcreteObserverA implements IObserver {
+  // update 收到的状态先推入这里，再交给 react 过滤
+  private updates = new Subject<number>()
 
-class ConcreteObserverA implements IObserver {
-  public update(subject: ISubject): void {
-    if (subject instanceof ConcreteSubject && subject.state < 3) {
-      console.log('ConcreteObserverA: Reacted to the event.')
-    }
+  constructor(private log: Logger = console.log) {
+    this.react(this.updates)
+  }
+
+  update(subject: ISubject): void {
+    if (subject instanceof ConcreteSubject) this.updates.next(subject.state)
+  }
+
+  observe(subject: ConcreteSubject): Subscription {
+    return this.react(subject.state$)
+  }
+
+  private react(states: Observable<number>): Subscription {
+    return states
+      .pipe(filter(state => state < 3))
+      .subscribe(() => this.log('ConcreteObserverA: Reacted to the event.'))
   }
 }
-class ConcreteObserverB implements IObserver {
-  public update(subject: ISubject): void {
-    if (
-      subject instanceof ConcreteSubject &&
-      (subject.state === 0 || subject.state >= 2)
-    ) {
-      console.log('ConcreteObserverB: Reacted to the event.')
-    }
+
+export class ConcreteObserverB implements IObserver {
+  private updates = new Subject<number>()
+
+  constructor(private log: Logger = console.log) {
+    this.react(this.updates)
+  }
+
+  update(subject: ISubject): void {
+    if (subject instanceof ConcreteSubject) this.updates.next(subject.state)
+  }
+
+  observe(subject: ConcreteSubject): Subscription {
+    return this.react(subject.state$)
+  }
+
+  private react(states: Observable<number>): Subscription {
+    return states
+      .pipe(filter(state => state === 0 || state >= 2))
+      .subscribe(() => this.log('ConcreteObserverB: Reacted to the event.'))
   }
 }
 
 /**
  * The client code.
  */
+export function observerDemo(states: number[] = [1, 5, 0]): string {
+  const output: string[] = []
+  const log: Logger = message => output.push(message)
 
-const subject = new ConcreteSubject()
+  const subject = new ConcreteSubject(log)
 
-const observer1 = new ConcreteObserverA()
-subject.attach(observer1)
+  const subscription1 = new ConcreteObserverA(log).observe(subject)
+  const subscription2 = new ConcreteObserverB(log).observe(subject)
 
-const observer2 = new ConcreteObserverB()
-subject.attach(observer2)
+  subject.someBusinessLogic(states[0])
+  subject.someBusinessLogic(states[1])
 
-subject.someBusinessLogic()
-subject.someBusinessLogic()
+  subscription2.unsubscribe()
 
-subject.detach(observer2)
+  subject.someBusinessLogic(states[2])
 
-subject.someBusinessLogic()
+  subscription1.unsubscribe()
+  return output.join('\n')
+}
@@ -0,0 +1,157 @@
+/**
+ * 可管道化的操作符，配合 Observable.pipe 使用
+ *
+ * 每个操作符都返回一个新的 Observable：订阅时再订阅上游，
+ * 取消订阅时一并取消上游，不会修改原有数据源。
+ */
+
+import { Observable, Operator, Subscriber, Subscription } from './Subject'
+
+/**
+ * 订阅上游并把通知转发给下游，next 中抛出的异常转为 error 通知
+ * 返回上游订阅，供操作符在提前结束时取消
+ */
+function forward<T, R>(
+  source: Observable<T>,
+  subscriber: Subscriber<R>,
+  onNext: (value: T) => void,
+  onComplete: () => void = () => subscriber.complete()
+): Subscription {
+  return source.subscribe({
+    next: value => {
+      try {
+        onNext(value)
+      } catch (err) {
+        subscriber.error(err)
+      }
+    },
+    error: err => subscriber.error(err),
+    complete: onComplete,
+  })
+}
+
+/** 对每个值做映射 */
+export function map<T, R>(
+  project: (value: T, index: number) => R
+): Operator<T, R> {
+  return source =>
+    new Observable<R>(subscriber => {
+      let index = 0
+      const upstream = forward(source, subscriber, value =>
+        subscriber.next(project(value, index++))
+      )
+      return () => upstream.unsubscribe()
+    })
+}
+
+/** 只放行满足条件的值 */
+export function filter<T>(
+  predicate: (value: T, index: number) => boolean
+): Operator<T, T> {
+  return source =>
+    new Observable<T>(subscriber => {
+      let index = 0
+      const upstream = forward(source, subscriber, value => {
+        if (predicate(value, index++)) subscriber.next(value)
+      })
+      return () => upstream.unsubscribe()
+    })
+}
+
+/**
+ * 防抖：上游停止发值 ms 毫秒后，才把最后一个值发给下游
+ * 上游完成时立即发出尚未发送的值再完成
+ */
+export function debounce<T>(ms: number): Operator<T, T> {
+  return source =>
+    new Observable<T>(subscriber => {
+      let timer: ReturnType<typeof globalThis.setTimeout> | undefined
+      let pending: { value: T } | undefined
+
+      const flush = () => {
+        timer = undefined
+        if (!pending) return
+        const { value } = pending
+        pending = undefined
+        subscriber.next(value)
+      }
+
+      const upstream = forward(
+        source,
+        subscriber,
+        value => {
+          pending = { value }
+          if (timer !== undefined) globalThis.clearTimeout(timer)
+          timer = globalThis.setTimeout(flush, ms)
+        },
+        () => {
+          if (timer !== undefined) globalThis.clearTimeout(timer)
+          flush()
+          subscriber.complete()
+        }
+      )
+
+      return () => {
+        if (timer !== undefined) globalThis.clearTimeout(timer)
+        upstream.unsubscribe()
+      }
+    })
+}
+
+/** 与上一个值相同时跳过，默认使用 Object.is 比较 */
+export function distinctUntilChanged<T>(
+  compare: (previous: T, current: T) => boolean = Object.is
+): Operator<T, T> {
+  return source =>
+    new Observable<T>(subscriber => {
+      let last: { value: T } | undefined
+      const upstream = forward(source, subscriber, value => {
+        if (last && compare(last.value, value)) return
+        last = { value }
+        subscriber.next(value)
+      })
+      return () => upstream.unsubscribe()
+    })
+}
+
+/** 只取前 count 个值，然后完成并取消上游订阅 */
+export function take<T>(count: number): Operator<T, T> {
+  return source =>
+    new Observable<T>(subscriber => {
+      if (count <= 0) {
+        subscriber.complete()
+        return
+      }
+      let taken = 0
+      const upstream = forward(source, subscriber, value => {
+        subscriber.next(value)
+        if (++taken >= count) subscriber.complete()
+      })
+      return () => upstream.unsubscribe()
+    })
+}
+
+/** 把当前流与其他流合并，所有流都完成后才完成，任一出错即出错 */
+export function merge<T, O extends unknown[]>(
+  ...others: { [K in keyof O]: Observable<O[K]> }
+): Operator<T, T | O[number]> {
+  return source =>
+    new Observable<T | O[number]>(subscriber => {
+      const sources: Observable<T | O[number]>[] = [source, ...others]
+      let active = sources.length
+      const subscription = new Subscription()
+      for (const item of sources) {
+        subscription.add(
+          forward(
+            item,
+            subscriber,
+            value => subscriber.next(value),
+            () => {
+              if (--active === 0) subscriber.complete()
+            }
+          )
+        )
+      }
+      return () => subscription.unsubscribe()
+    })
+}
@@ -0,0 +1,248 @@
+/**
+ * 观察者模式 - 响应式 Subject
+ *
+ * 在 ISubject / IObserver 的基础上补齐经典实现缺少的能力：
+ * - subscribe 返回 Subscription，取消订阅不需要持有 Subject
+ * - 除 next 外还有 error / complete 两种终止通知
+ * - BehaviorSubject 记住当前值，ReplaySubject 回放历史值
+ * - Observable.pipe 串联 Operators.ts 中的操作符
+ */
+
+export interface Observer<T> {
+  next(value: T): void
+  error(err: unknown): void
+  complete(): void
+}
+
+export type PartialObserver<T> = Partial<Observer<T>>
+
+export type Teardown = () => void
+
+/** 操作符：接收一个 Observable，返回新的 Observable */
+export type Operator<T, R> = (source: Observable<T>) => Observable<R>
+
+/** 订阅句柄，unsubscribe 时执行所有清理逻辑，可重复调用 */
+export class Subscription {
+  private teardowns: Teardown[] = []
+  private isClosed = false
+
+  constructor(teardown?: Teardown) {
+    if (teardown) this.teardowns.push(teardown)
+  }
+
+  get closed(): boolean {
+    return this.isClosed
+  }
+
+  add(teardown: Teardown | Subscription): void {
+    const fn =
+      teardown instanceof Subscription ? () => teardown.unsubscribe() : teardown
+    // 已关闭的订阅立即执行新加入的清理逻辑
+    if (this.isClosed) fn()
+    else this.teardowns.push(fn)
+  }
+
+  unsubscribe(): void {
+    if (this.isClosed) return
+    this.isClosed = true
+    const teardowns = this.teardowns
+    this.teardowns = []
+    teardowns.forEach(fn => fn())
+  }
+}
+
+/**
+ * 订阅者：包装用户传入的观察者
+ * 保证 error / complete 之后不再收到任何通知，并在终止时自动清理
+ */
+export class Subscriber<T> extends Subscription implements Observer<T> {
+  private isStopped = false
+
+  constructor(private destination: PartialObserver<T>) {
+    super()
+  }
+
+  next(value: T): void {
+    if (this.isStopped || this.closed) return
+    this.destination.next?.(value)
+  }
+
+  error(err: unknown): void {
+    if (this.isStopped || this.closed) return
+    this.isStopped = true
+    if (this.destination.error) this.destination.error(err)
+    // 没有 error 回调时不能静默吞掉错误
+    else console.error('Unhandled error in Subscriber:', err)
+    this.unsubscribe()
+  }
+
+  complete(): void {
+    if (this.isStopped || this.closed) return
+    this.isStopped = true
+    this.destination.complete?.()
+    this.unsubscribe()
+  }
+}
+
+const toObserver = <T>(
+  observerOrNext?: PartialObserver<T> | ((value: T) => void)
+): PartialObserver<T> =>
+  typeof observerOrNext === 'function'
+    ? { next: observerOrNext }
+    : (observerOrNext ?? {})
+
+export class Observable<T> {
+  constructor(
+    private producer?: (subscriber: Subscriber<T>) => Teardown | void
+  ) {}
+
+  subscribe(
+    observerOrNext?: PartialObserver<T> | ((value: T) => void)
+  ): Subscription {
+    const subscriber = new Subscriber(toObserver(observerOrNext))
+    const teardown = this.produce(subscriber)
+    if (teardown) subscriber.add(teardown)
+    return subscriber
+  }
+
+  /** 建立订阅时执行，返回的函数在取消订阅时调用，子类可以覆盖 */
+  protected produce(subscriber: Subscriber<T>): Teardown | void {
+    return this.producer?.(subscriber)
+  }
+
+  pipe(): Observable<T>
+  pipe<A>(op1: Operator<T, A>): Observable<A>
+  pipe<A, B>(op1: Operator<T, A>, op2: Operator<A, B>): Observable<B>
+  pipe<A, B, C>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>
+  ): Observable<C>
+  pipe<A, B, C, D>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>
+  ): Observable<D>
+  pipe<A, B, C, D, E>(
+    op1: Operator<T, A>,
+    op2: Operator<A, B>,
+    op3: Operator<B, C>,
+    op4: Operator<C, D>,
+    op5: Operator<D, E>
+  ): Observable<E>
+  pipe(...operators: Operator<unknown, unknown>[]): Observable<unknown> {
+    return operators.reduce<Observable<unknown>>(
+      (source, operator) => operator(source),
+      this
+    )
+  }
+}
+
+/**
+ * Subject：既是 Observable 也是 Observer，向所有订阅者多播
+ * 终止（error / complete）后，新的订阅者会立即收到同样的终止通知
+ */
+export class Subject<T> extends Observable<T> implements Observer<T> {
+  private subscribers = new Set<Subscriber<T>>()
+  private stopped:
+    | { kind: 'error'; err: unknown }
+    | { kind: 'complete' }
+    | null = null
+
+  get isStopped(): boolean {
+    return this.stopped !== null
+  }
+
+  get observerCount(): number {
+    return this.subscribers.size
+  }
+
+  next(value: T): void {
+    if (this.stopped) return
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.next(value)
+    }
+  }
+
+  error(err: unknown): void {
+    if (this.stopped) return
+    this.stopped = { kind: 'error', err }
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.error(err)
+    }
+    this.subscribers.clear()
+  }
+
+  complete(): void {
+    if (this.stopped) return
+    this.stopped = { kind: 'complete' }
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.complete()
+    }
+    this.subscribers.clear()
+  }
+
+  /** 只暴露订阅能力，防止外部调用 next */
+  asObservable(): Observable<T> {
+    return new Observable<T>(subscriber => {
+      const subscription = this.subscribe(subscriber)
+      return () => subscription.unsubscribe()
+    })
+  }
+
+  /** 新订阅者加入前的钩子，子类用于回放值 */
+  protected onSubscribe(_subscriber: Subscriber<T>): void {}
+
+  protected produce(subscriber: Subscriber<T>): Teardown | void {
+    this.onSubscribe(subscriber)
+    if (this.stopped) {
+      if (this.stopped.kind === 'error') subscriber.error(this.stopped.err)
+      else subscriber.complete()
+      return
+    }
+    this.subscribers.add(subscriber)
+    return () => this.subscribers.delete(subscriber)
+  }
+}
+
+/** BehaviorSubject：保存当前值，新订阅者立即收到它 */
+export class BehaviorSubject<T> extends Subject<T> {
+  constructor(private current: T) {
+    super()
+  }
+
+  get value(): T {
+    return this.current
+  }
+
+  next(value: T): void {
+    if (this.isStopped) return
+    this.current = value
+    super.next(value)
+  }
+
+  protected onSubscribe(subscriber: Subscriber<T>): void {
+    if (!this.isStopped) subscriber.next(this.current)
+  }
+}
+
+/** ReplaySubject：缓存最近 bufferSize 个值，新订阅者先收到这些历史值 */
+export class ReplaySubject<T> extends Subject<T> {
+  private buffer: T[] = []
+
+  constructor(private bufferSize: number = Infinity) {
+    super()
+  }
+
+  next(value: T): void {
+    if (this.isStopped) return
+    this.buffer.push(value)
+    if (this.buffer.length > this.bufferSize) this.buffer.shift()
+    super.next(value)
+  }
+
+  protected onSubscribe(subscriber: Subscriber<T>): void {
+    this.buffer.forEach(value => subscriber.next(value))
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * 幂等键：防止客户端重试导致重复扣款
+ * 同一个幂等键在有效期内只执行一次，重复请求直接返回第一次的结果；
+ * 同一个键携带不同的请求内容视为冲突并抛出 IdempotencyConflictError
+ * 存储可插拔（内存 / 文件），PaymentProcessor、AsyncPaymentProcessor 和桥接模式的 Payment 共用
+ */
+
+import { createHash, randomUUID } from 'node:crypto'
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs'
+
+// ========== 存储 ==========
+
+export interface IdempotencyEntry<T> {
+  /** 请求内容的摘要，用于发现复用幂等键的不同请求 */
+  fingerprint: string
+  result: T
+  expiresAt: number
+}
+
+/** 同步接口：PaymentProcessor.process 本身是同步的，存储不应迫使调用方改成异步 */
+export interface IdempotencyStore<T> {
+  get(key: string): IdempotencyEntry<T> | undefined
+  set(key: string, entry: IdempotencyEntry<T>): void
+  delete(key: string): void
+  /** 删除所有在 now 之前过期的记录，返回删除的数量 */
+  prune(now: number): number
+}
+
+/** 内存存储：保存和读取时都做一次 JSON 往返，保证结果可以序列化，与文件存储行为一致 */
+export class InMemoryIdempotencyStore<T> implements IdempotencyStore<T> {
+  private entries = new Map<string, string>()
+
+  get(key: string): IdempotencyEntry<T> | undefined {
+    const json = this.entries.get(key)
+    return json === undefined ? undefined : JSON.parse(json)
+  }
+
+  set(key: string, entry: IdempotencyEntry<T>): void {
+    this.entries.set(key, JSON.stringify(entry))
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  prune(now: number): number {
+    let removed = 0
+    for (const [key, json] of this.entries) {
+      if ((JSON.parse(json) as IdempotencyEntry<T>).expiresAt <= now) {
+        this.entries.delete(key)
+        removed++
+      }
+    }
+    return removed
+  }
+}
+
+/**
+ * 文件存储：所有记录保存在一个 JSON 文件中，进程重启后仍然有效
+ * 每次操作都重新读取文件；写入先写临时文件再重命名，避免中途退出留下半个文件
+ * 只适用于单个进程：读取-修改-写入之间没有加锁，多个进程共用一个文件时后写入的会覆盖先写入的记录，
+ * 多进程部署需要换成支持原子操作的存储（数据库唯一键、Redis SET NX 等）
+ * 文件内容无法解析时直接报错，而不是当作空存储，否则已经执行过的请求会被再次执行
+ */
+export class FileIdempotencyStore<T> implements IdempotencyStore<T> {
+  constructor(private path: string) {}
+
+  get(key: string): IdempotencyEntry<T> | undefined {
+    return this.read()[key]
+  }
+
+  set(key: string, entry: IdempotencyEntry<T>): void {
+    this.write({ ...this.read(), [key]: entry })
+  }
+
+  delete(key: string): void {
+    const entries = this.read()
+    if (!(key in entries)) return
+    delete entries[key]
+    this.write(entries)
+  }
+
+  prune(now: number): number {
+    const entries = this.read()
+    const kept = Object.fromEntries(
+      Object.entries(entries).filter(([, entry]) => entry.expiresAt > now)
+    )
+    const removed = Object.keys(entries).length - Object.keys(kept).length
+    if (removed > 0) this.write(kept)
+    return removed
+  }
+
+  private read(): Record<string, IdempotencyEntry<T>> {
+    if (!existsSync(this.path)) return {}
+    const text = readFileSync(this.path, 'utf8')
+    let entries: unknown
+    try {
+      entries = JSON.parse(text)
+    } catch (err) {
+      throw new IdempotencyStoreError(this.path, (err as Error).message)
+    }
+    if (
+      typeof entries !== 'object' ||
+      entries === null ||
+      Array.isArray(entries)
+    ) {
+      throw new IdempotencyStoreError(this.path, 'expected a JSON object')
+    }
+    return entries as Record<string, IdempotencyEntry<T>>
+  }
+
+  // 临时文件名带随机后缀，同一目录下的多个实例不会写到同一个临时文件
+  private write(entries: Record<string, IdempotencyEntry<T>>): void {
+    const temp = `${this.path}.${randomUUID()}.tmp`
+    writeFileSync(temp, JSON.stringify(entries))
+    renameSync(temp, this.path)
+  }
+}
+
+// ========== 幂等执行 ==========
+
+export class IdempotencyConflictError extends Error {
+  constructor(readonly key: string) {
+    super(`Idempotency key "${key}" was reused with a different payload`)
+    this.name = 'IdempotencyConflictError'
+  }
+}
+
+export class IdempotencyStoreError extends Error {
+  constructor(
+    readonly path: string,
+    reason: string
+  ) {
+    super(`Idempotency store "${path}" is unreadable: ${reason}`)
+    this.name = 'IdempotencyStoreError'
+  }
+}
+
+// 对象按键排序后序列化，字段顺序不同的相同请求得到相同的摘要
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`
+  if (value && typeof value === 'object') {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonical(field)}`)
+    return `{${fields.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/** 请求内容的摘要，忽略 idempotencyKey 字段本身 */
+export function fingerprintOf(payload: object): string {
+  const rest: Record<string, unknown> = { ...payload }
+  delete rest.idempotencyKey
+  return createHash('sha256').update(canonical(rest)).digest('hex')
+}
+
+// 可以确定渠道没有处理请求的错误：渠道明确拒绝（限流）或请求根本没有发出（熔断）
+const UNSENT_CATEGORIES: ReadonlySet<unknown> = new Set([
+  'rate_limited',
+  'circuit_open',
+])
+
+/**
+ * 确定没有扣款的失败：status 为 failed，错误以及每次尝试的错误都属于限流或熔断
+ * 超时、网络错误、渠道不可用和未知错误时渠道可能已经扣款，不属于这一类，
+ * 这类结果需要保存，否则客户端用同一个键重试会再扣一次
+ */
+export function isUnsentFailure(result: unknown): boolean {
+  const { status, error, attempts } = (result ?? {}) as {
+    status?: unknown
+    error?: { category?: unknown }
+    attempts?: { error?: { category?: unknown } }[]
+  }
+  return (
+    status === 'failed' &&
+    UNSENT_CATEGORIES.has(error?.category) &&
+    (attempts ?? []).every(
+      attempt => !attempt.error || UNSENT_CATEGORIES.has(attempt.error.category)
+    )
+  )
+}
+
+export interface IdempotencyOptions<T = unknown> {
+  /** 记录的有效期，默认 24 小时；过期后同一个键会重新执行 */
+  ttlMs?: number
+  now?: () => number
+  /** 是否保存某个结果，默认只有确定没有扣款的失败（isUnsentFailure）不保存 */
+  shouldStore?: (result: T) => boolean
+}
+
+/**
+ * 按幂等键执行一次操作并保存结果
+ * 只保存正常返回且 shouldStore 认可的结果：操作抛出异常或确定没有扣款的失败不记录，客户端可以用同一个键重试；
+ * 结果不确定的失败（超时等）照常保存，重试拿到同一个失败，需要对账后换新的键再付款
+ */
+export class Idempotency<T> {
+  private ttlMs: number
+  private now: () => number
+  private shouldStore: (result: T) => boolean
+  // 异步操作尚未完成时，用同一个键的重复请求等待同一个 Promise
+  private inFlight = new Map<
+    string,
+    { fingerprint: string; result: Promise<T> }
+  >()
+
+  constructor(
+    private store: IdempotencyStore<T> = new InMemoryIdempotencyStore(),
+    options: IdempotencyOptions<T> = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000
+    this.now = options.now ?? Date.now
+    this.shouldStore =
+      options.shouldStore ?? (result => !isUnsentFailure(result))
+  }
+
+  run(key: string, payload: object, operation: () => T): T {
+    const fingerprint = fingerprintOf(payload)
+    const pending = this.inFlight.get(key)
+    if (pending && pending.fingerprint !== fingerprint) {
+      throw new IdempotencyConflictError(key)
+    }
+    const saved = this.lookup(key, fingerprint)
+    if (saved) return saved.result
+
+    const result = operation()
+    this.save(key, fingerprint, result)
+    return result
+  }
+
+  async runAsync(
+    key: string,
+    payload: object,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const fingerprint = fingerprintOf(payload)
+    const pending = this.inFlight.get(key)
+    if (pending) {
+      if (pending.fingerprint !== fingerprint) {
+        throw new IdempotencyConflictError(key)
+      }
+      return pending.result
+    }
+    const saved = this.lookup(key, fingerprint)
+    if (saved) return saved.result
+
+    const result = operation().then(value => {
+      this.save(key, fingerprint, value)
+      return value
+    })
+    this.inFlight.set(key, { fingerprint, result })
+    try {
+      return await result
+    } finally {
+      this.inFlight.delete(key)
+    }
+  }
+
+  /** 清理存储中已经过期的记录 */
+  prune(): number {
+    return this.store.prune(this.now())
+  }
+
+  private lookup(
+    key: string,
+    fingerprint: string
+  ): IdempotencyEntry<T> | undefined {
+    const entry = this.store.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= this.now()) {
+      this.store.delete(key)
+      return undefined
+    }
+    if (entry.fingerprint !== fingerprint) {
+      throw new IdempotencyConflictError(key)
+    }
+    return entry
+  }
+
+  private save(key: string, fingerprint: string, result: T): void {
+    if (!this.shouldStore(result)) return
+    this.store.set(key, {
+      fingerprint,
+      result,
+      expiresAt: this.now() + this.ttlMs,
+    })
+  }
+}
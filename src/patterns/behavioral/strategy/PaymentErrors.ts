@@ -0,0 +1,123 @@
+/**
+ * 支付结果状态与统一的错误分类
+ * 各渠道的原始错误码（Stripe 的 card_declined、PayPal 的 INSTRUMENT_DECLINED……）
+ * 通过映射表归入同一套分类，调用方按分类分支，而不是解析渠道返回的字符串
+ */
+
+export type PaymentStatus = 'succeeded' | 'declined' | 'failed' | 'pending'
+
+export type PaymentErrorCategory =
+  // 拒付：重试不会改变结果
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'fraud_suspected'
+  | 'risk_denied'
+  // 需要付款人操作（3DS 验证、PayPal 确认），支付处于 pending
+  | 'action_required'
+  // 请求或商户配置有误
+  | 'invalid_request'
+  | 'unauthorized'
+  // 临时故障：可以用同一个幂等键重试
+  | 'rate_limited'
+  | 'timeout'
+  | 'network'
+  | 'provider_unavailable'
+  | 'circuit_open'
+  | 'unknown'
+
+export interface PaymentError {
+  category: PaymentErrorCategory
+  /** 是否值得重试 */
+  retryable: boolean
+  message: string
+  /** 渠道名称和原始错误码，本地产生的错误（风控、超时、熔断）没有 */
+  provider?: string
+  providerCode?: string
+}
+
+const DECLINES: ReadonlySet<PaymentErrorCategory> = new Set([
+  'card_declined',
+  'insufficient_funds',
+  'expired_card',
+  'fraud_suspected',
+  'risk_denied',
+])
+
+const RETRYABLE: ReadonlySet<PaymentErrorCategory> = new Set([
+  'rate_limited',
+  'timeout',
+  'network',
+  'provider_unavailable',
+  'circuit_open',
+  'unknown',
+])
+
+export function paymentError(
+  category: PaymentErrorCategory,
+  message: string,
+  provider?: { provider: string; providerCode: string }
+): PaymentError {
+  return { category, retryable: RETRYABLE.has(category), message, ...provider }
+}
+
+/** 错误对应的支付状态：拒付为 declined，需要付款人操作为 pending，其余为 failed */
+export function statusOf(error: PaymentError): PaymentStatus {
+  if (DECLINES.has(error.category)) return 'declined'
+  return error.category === 'action_required' ? 'pending' : 'failed'
+}
+
+/** 渠道原始错误码到统一分类的映射，未列出的错误码归为 unknown */
+export type ProviderErrorMap = Record<string, PaymentErrorCategory>
+
+export function normalizeError(
+  provider: string,
+  errors: ProviderErrorMap,
+  code: string,
+  message = `${provider} error: ${code}`
+): PaymentError {
+  return paymentError(errors[code] ?? 'unknown', message, {
+    provider,
+    providerCode: code,
+  })
+}
+
+// ========== 各渠道的错误码映射 ==========
+
+export const stripeErrors: ProviderErrorMap = {
+  card_declined: 'card_declined',
+  insufficient_funds: 'insufficient_funds',
+  expired_card: 'expired_card',
+  fraudulent: 'fraud_suspected',
+  authentication_required: 'action_required',
+  invalid_request_error: 'invalid_request',
+  authentication_error: 'unauthorized',
+  rate_limit: 'rate_limited',
+  api_connection_error: 'network',
+  api_error: 'provider_unavailable',
+}
+
+export const payPalErrors: ProviderErrorMap = {
+  INSTRUMENT_DECLINED: 'card_declined',
+  INSUFFICIENT_FUNDS: 'insufficient_funds',
+  CARD_EXPIRED: 'expired_card',
+  TRANSACTION_REFUSED: 'fraud_suspected',
+  PAYER_ACTION_REQUIRED: 'action_required',
+  INVALID_REQUEST: 'invalid_request',
+  PERMISSION_DENIED: 'unauthorized',
+  RATE_LIMIT_REACHED: 'rate_limited',
+  INTERNAL_SERVICE_ERROR: 'provider_unavailable',
+}
+
+export const applePayErrors: ProviderErrorMap = {
+  paymentDeclined: 'card_declined',
+  insufficientFunds: 'insufficient_funds',
+  cardExpired: 'expired_card',
+  riskRejected: 'fraud_suspected',
+  authenticationRequired: 'action_required',
+  invalidPaymentToken: 'invalid_request',
+  merchantNotAuthorized: 'unauthorized',
+  tooManyRequests: 'rate_limited',
+  networkError: 'network',
+  serviceUnavailable: 'provider_unavailable',
+}
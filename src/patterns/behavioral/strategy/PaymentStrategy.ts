@@ -3,16 +3,36 @@
  * 适用：仅在“算法/规则”维度（风控、重试）可替换，渠道固定。
  */
 
+import { Idempotency } from './Idempotency'
+import {
+  normalizeError,
+  PaymentError,
+  paymentError,
+  PaymentStatus,
+  statusOf,
+  stripeErrors,
+} from './PaymentErrors'
+
 // ========== 基础请求模型 ==========
 export interface PaymentRequest {
   amount: number
   currency: 'USD' | 'EUR' | 'CNY'
   userId: string
+  /** 幂等键：客户端重试时携带同一个键，配置了 Idempotency 的处理器不会重复扣款 */
+  idempotencyKey?: string
 }
 
 // ========== 固定渠道客户端（示例用：Stripe） ==========
+/** 渠道响应：失败时由客户端把渠道错误码映射为统一分类（见 normalizeError） */
+export interface PSPResponse {
+  ok: boolean
+  transactionId?: string
+  error?: PaymentError
+}
+
 export interface PSPClient {
-  send(req: PaymentRequest): boolean
+  /** 只返回 boolean 的客户端无法区分失败原因，失败按 unknown 处理并继续重试 */
+  send(req: PaymentRequest): boolean | PSPResponse
 }
 
 export class StripeClient implements PSPClient {
@@ -23,11 +43,40 @@ export class StripeClient implements PSPClient {
 }
 
 // ========== 风控策略 ==========
+export type RiskAction = 'allow' | 'review' | 'deny'
+
+export interface RiskReason {
+  /** 命中的规则 ID */
+  rule: string
+  message: string
+  score?: number
+}
+
+export interface RiskDecision {
+  action: RiskAction
+  score: number
+  reasons: RiskReason[]
+}
+
 export interface RiskStrategy {
   allow(req: PaymentRequest): boolean
+  /** 可选：给出转人工审核、评分和原因（见 RuleBasedRisk），未实现时只按 allow 判断 */
+  evaluate?(req: PaymentRequest): RiskDecision
   name: string
 }
 
+/** 风控判定：未实现 evaluate 的策略只按 allow 判断 */
+function decideRisk(risk: RiskStrategy, req: PaymentRequest): RiskDecision {
+  return (
+    risk.evaluate?.(req) ?? {
+      action: risk.allow(req) ? 'allow' : 'deny',
+      score: 0,
+      reasons: [],
+    }
+  )
+}
+
+/** 固定金额阈值；需要币种限额、频率、黑名单等规则时使用 RuleBasedRisk */
 export class StrictRisk implements RiskStrategy {
   name = 'StrictRisk'
   allow(req: PaymentRequest): boolean {
@@ -48,7 +97,7 @@ export class RelaxedRisk implements RiskStrategy {
 export interface RetryStrategy {
   /** 是否继续重试 */
   shouldRetry(attempt: number): boolean
-  /** 等待时间（毫秒），Demo 不实际等待，仅记录 */
+  /** 等待时间（毫秒）：PaymentProcessor 仅记录，AsyncPaymentProcessor 实际等待 */
   delayMs(attempt: number): number
   name: string
 }
@@ -75,41 +124,432 @@ export class FixedIntervalRetry implements RetryStrategy {
   }
 }
 
+/**
+ * 抖动：在基础策略的等待时间上随机减少最多 ratio 比例，避免大量客户端同时重试
+ * ratio 为 1 时即 "full jitter"（0 ~ 基础等待时间）
+ */
+export class JitteredRetry implements RetryStrategy {
+  name: string
+
+  constructor(
+    private base: RetryStrategy,
+    private ratio = 0.5,
+    private random: () => number = Math.random
+  ) {
+    this.name = `${base.name}+Jitter`
+  }
+
+  shouldRetry(attempt: number): boolean {
+    return this.base.shouldRetry(attempt)
+  }
+
+  delayMs(attempt: number): number {
+    const delay = this.base.delayMs(attempt)
+    return Math.round(delay * (1 - this.ratio * this.random()))
+  }
+}
+
+// ========== 支付结果 ==========
+
+/** fail 为可以重试的失败；declined / pending 来自渠道的拒付或待付款人操作，不再重试 */
+export type AttemptOutcome =
+  | 'success'
+  | 'fail'
+  | 'declined'
+  | 'pending'
+  | 'timeout'
+  | 'error'
+
+export interface PaymentAttempt {
+  attempt: number
+  outcome: AttemptOutcome
+  startedAt: number
+  durationMs: number
+  error?: PaymentError
+  /** 失败后到下一次尝试之前等待的时间 */
+  waitMs?: number
+}
+
+/**
+ * 处理结果：风控 review 为 pending，风控拒绝或渠道拒付为 declined，
+ * 重试耗尽或熔断为 failed；formatPaymentResult 可以输出原来的日志格式
+ */
+export interface PaymentResult {
+  status: PaymentStatus
+  transactionId?: string
+  /** 渠道拒付时的原始错误码 */
+  declineCode?: string
+  error?: PaymentError
+  strategies: { risk: string; retry: string }
+  risk: RiskDecision
+  attempts: PaymentAttempt[]
+  /** 最后一次尝试失败后熔断器打开，没有继续重试；error 仍是最后一次尝试的错误 */
+  circuitOpened?: boolean
+}
+
+type AttemptResult = Pick<PaymentAttempt, 'outcome' | 'error'> & {
+  transactionId?: string
+}
+
+function toAttemptResult(response: boolean | PSPResponse): AttemptResult {
+  const { ok, transactionId, error }: PSPResponse =
+    typeof response === 'boolean' ? { ok: response } : response
+  if (ok) return { outcome: 'success', transactionId }
+  const failure = error ?? paymentError('unknown', 'payment failed')
+  const status = statusOf(failure)
+  return {
+    outcome: status === 'declined' || status === 'pending' ? status : 'fail',
+    error: failure,
+  }
+}
+
+/** 风控没有放行时的结果：review 等待人工审核，deny 直接拒绝 */
+function riskOutcome(
+  name: string,
+  decision: RiskDecision
+): Pick<PaymentResult, 'status' | 'error'> {
+  if (decision.action === 'review') return { status: 'pending' }
+  const message =
+    decision.reasons.map(reason => reason.message).join('; ') ||
+    `denied by ${name}`
+  return { status: 'declined', error: paymentError('risk_denied', message) }
+}
+
+/** 按最后一次尝试（或熔断）得出最终状态 */
+function settle(
+  last: AttemptResult
+): Pick<PaymentResult, 'status' | 'transactionId' | 'declineCode' | 'error'> {
+  if (last.outcome === 'success') {
+    return { status: 'succeeded', transactionId: last.transactionId }
+  }
+  const error = last.error ?? paymentError('unknown', 'payment failed')
+  const status = statusOf(error)
+  const declineCode = status === 'declined' ? error.providerCode : undefined
+  return { status, error, declineCode }
+}
+
+const circuitOpen: AttemptResult = {
+  outcome: 'fail',
+  error: paymentError('circuit_open', 'circuit breaker is open'),
+}
+
+const FINAL: Record<PaymentStatus, string> = {
+  succeeded: 'ok',
+  declined: 'declined',
+  failed: 'failed',
+  pending: 'pending',
+}
+
+/** 输出原来的 ' | ' 分隔日志，供 Demo 打印 */
+export function formatPaymentResult(result: PaymentResult): string {
+  const logs = [
+    `Risk(${result.strategies.risk}) & Retry(${result.strategies.retry})`,
+  ]
+  const { action, reasons } = result.risk
+  const why =
+    reasons.length > 0
+      ? `(${reasons.map(reason => reason.rule).join(',')})`
+      : ''
+  if (action === 'review') logs.push(`risk=review${why}`, 'final=review')
+  if (action === 'deny') logs.push(`risk=denied${why}`)
+  if (action !== 'allow') return logs.join(' | ')
+  if (why) logs.push(`risk=allowed${why}`)
+
+  for (const attempt of result.attempts) {
+    logs.push(`attempt#${attempt.attempt} -> ${attempt.outcome}`)
+    if (attempt.waitMs !== undefined) logs.push(`wait=${attempt.waitMs}ms`)
+  }
+  if (result.circuitOpened || result.error?.category === 'circuit_open') {
+    logs.push('circuit=open')
+  }
+  logs.push(`final=${FINAL[result.status]}`)
+  return logs.join(' | ')
+}
+
 // ========== 支付处理器（注入策略） ==========
+export interface ProcessorOptions {
+  /** 请求携带 idempotencyKey 时，重复请求直接返回第一次的结果 */
+  idempotency?: Idempotency<PaymentResult>
+  now?: () => number
+}
+
 export class PaymentProcessor {
+  private idempotency?: Idempotency<PaymentResult>
+  private now: () => number
+
   constructor(
     private client: PSPClient,
     private risk: RiskStrategy,
-    private retry: RetryStrategy
-  ) {}
+    private retry: RetryStrategy,
+    options: ProcessorOptions = {}
+  ) {
+    this.idempotency = options.idempotency
+    this.now = options.now ?? Date.now
+  }
 
-  process(req: PaymentRequest): string {
-    const logs: string[] = []
-    logs.push(`Risk(${this.risk.name}) & Retry(${this.retry.name})`)
+  process(req: PaymentRequest): PaymentResult {
+    if (this.idempotency && req.idempotencyKey) {
+      return this.idempotency.run(req.idempotencyKey, req, () =>
+        this.execute(req)
+      )
+    }
+    return this.execute(req)
+  }
 
-    // 风控判定
-    if (!this.risk.allow(req)) {
-      logs.push('risk=denied')
-      return logs.join(' | ')
+  private execute(req: PaymentRequest): PaymentResult {
+    const strategies = { risk: this.risk.name, retry: this.retry.name }
+    const risk = decideRisk(this.risk, req)
+    const attempts: PaymentAttempt[] = []
+    if (risk.action !== 'allow') {
+      return {
+        ...riskOutcome(this.risk.name, risk),
+        strategies,
+        risk,
+        attempts,
+      }
     }
 
     // 重试执行（不实际等待，仅记录）
-    let attempt = 0
-    let success = false
     while (true) {
-      attempt++
-      const ok = this.client.send(req)
-      logs.push(`attempt#${attempt} -> ${ok ? 'success' : 'fail'}`)
-      if (ok) {
-        success = true
-        break
+      const startedAt = this.now()
+      const result = toAttemptResult(this.client.send(req))
+      const attempt: PaymentAttempt = {
+        attempt: attempts.length + 1,
+        outcome: result.outcome,
+        startedAt,
+        durationMs: this.now() - startedAt,
+        error: result.error,
       }
-      if (!this.retry.shouldRetry(attempt)) break
-      logs.push(`wait=${this.retry.delayMs(attempt)}ms`)
+      attempts.push(attempt)
+      if (
+        result.outcome === 'success' ||
+        !result.error?.retryable ||
+        !this.retry.shouldRetry(attempt.attempt)
+      ) {
+        return { ...settle(result), strategies, risk, attempts }
+      }
+      attempt.waitMs = this.retry.delayMs(attempt.attempt)
     }
+  }
+}
+
+// ========== 异步支付处理器（真实等待、超时、熔断） ==========
+
+/** 可注入的时钟，测试中配合 fake timers 使用 */
+export interface Clock {
+  now(): number
+  /** 等待 ms 毫秒；signal 中止时提前结束并清除定时器 */
+  sleep(ms: number, signal?: AbortSignal): Promise<void>
+}
 
-    logs.push(`final=${success ? 'ok' : 'failed'}`)
-    return logs.join(' | ')
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  // 正常到时后移除 abort 监听，长期复用的 signal 上不会堆积监听器
+  sleep: (ms, signal) =>
+    new Promise(resolve => {
+      if (signal?.aborted) return resolve()
+      const onAbort = () => {
+        globalThis.clearTimeout(timer)
+        resolve()
+      }
+      const timer = globalThis.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    }),
+}
+
+/** 异步渠道客户端：超时后 signal 会被中止；同步的 PSPClient 也可以直接使用 */
+export interface AsyncPSPClient {
+  send(
+    req: PaymentRequest,
+    signal: AbortSignal
+  ): boolean | PSPResponse | Promise<boolean | PSPResponse>
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  /** 连续失败多少次后打开，默认 5 */
+  failureThreshold?: number
+  /** 打开后多久进入半开状态，默认 30 秒 */
+  cooldownMs?: number
+  now?: () => number
+}
+
+/**
+ * 熔断器：连续失败达到阈值后打开，拒绝请求；冷却后半开，只放行一次试探请求，
+ * 试探成功则关闭，失败则重新打开
+ */
+export class CircuitBreaker {
+  private failures = 0
+  private openedAt = 0
+  private current: CircuitState = 'closed'
+  private trialInFlight = false
+  private failureThreshold: number
+  private cooldownMs: number
+  private now: () => number
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5
+    this.cooldownMs = options.cooldownMs ?? 30_000
+    this.now = options.now ?? Date.now
+  }
+
+  get state(): CircuitState {
+    if (
+      this.current === 'open' &&
+      this.now() - this.openedAt >= this.cooldownMs
+    ) {
+      this.current = 'half-open'
+      this.trialInFlight = false
+    }
+    return this.current
+  }
+
+  canRequest(): boolean {
+    const state = this.state
+    if (state === 'closed') return true
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess(): void {
+    this.failures = 0
+    this.current = 'closed'
+  }
+
+  recordFailure(): void {
+    this.failures++
+    if (
+      this.current === 'half-open' ||
+      this.failures >= this.failureThreshold
+    ) {
+      this.current = 'open'
+      this.openedAt = this.now()
+    }
+  }
+}
+
+/** 计时使用 clock.now，不读取 ProcessorOptions.now */
+export interface AsyncProcessorOptions extends Omit<ProcessorOptions, 'now'> {
+  /** 单次调用渠道的超时时间，默认 5 秒 */
+  timeoutMs?: number
+  clock?: Clock
+  breaker?: CircuitBreaker
+}
+
+export class AsyncPaymentProcessor {
+  private timeoutMs: number
+  private clock: Clock
+  private breaker?: CircuitBreaker
+  private idempotency?: Idempotency<PaymentResult>
+
+  constructor(
+    private client: AsyncPSPClient,
+    private risk: RiskStrategy,
+    private retry: RetryStrategy,
+    options: AsyncProcessorOptions = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? 5000
+    this.clock = options.clock ?? systemClock
+    this.breaker = options.breaker
+    this.idempotency = options.idempotency
+  }
+
+  /** 处理中的请求被重复提交时，等待同一次执行的结果 */
+  process(req: PaymentRequest): Promise<PaymentResult> {
+    if (this.idempotency && req.idempotencyKey) {
+      return this.idempotency.runAsync(req.idempotencyKey, req, () =>
+        this.execute(req)
+      )
+    }
+    return this.execute(req)
+  }
+
+  private async execute(req: PaymentRequest): Promise<PaymentResult> {
+    const strategies = { risk: this.risk.name, retry: this.retry.name }
+    const risk = decideRisk(this.risk, req)
+    const attempts: PaymentAttempt[] = []
+    if (risk.action !== 'allow') {
+      return {
+        ...riskOutcome(this.risk.name, risk),
+        strategies,
+        risk,
+        attempts,
+      }
+    }
+
+    while (true) {
+      if (this.breaker && !this.breaker.canRequest()) {
+        return { ...settle(circuitOpen), strategies, risk, attempts }
+      }
+      const startedAt = this.clock.now()
+      const result = await this.attempt(req)
+      const attempt: PaymentAttempt = {
+        attempt: attempts.length + 1,
+        outcome: result.outcome,
+        startedAt,
+        durationMs: this.clock.now() - startedAt,
+        error: result.error,
+      }
+      attempts.push(attempt)
+      // 拒付说明渠道工作正常，只有可重试的失败才计入熔断
+      if (!result.error?.retryable) this.breaker?.recordSuccess()
+      else this.breaker?.recordFailure()
+      if (
+        result.outcome === 'success' ||
+        !result.error?.retryable ||
+        !this.retry.shouldRetry(attempt.attempt)
+      ) {
+        return { ...settle(result), strategies, risk, attempts }
+      }
+      // 熔断器已经打开时不必再等待，返回最后一次尝试的真实错误
+      if (this.breaker?.state === 'open') {
+        return {
+          ...settle(result),
+          strategies,
+          risk,
+          attempts,
+          circuitOpened: true,
+        }
+      }
+      attempt.waitMs = this.retry.delayMs(attempt.attempt)
+      await this.clock.sleep(attempt.waitMs)
+    }
+  }
+
+  /** 调用一次渠道，超时则中止请求；客户端抛出的异常记为 error */
+  private async attempt(req: PaymentRequest): Promise<AttemptResult> {
+    const request = new globalThis.AbortController()
+    const timer = new globalThis.AbortController()
+    const sent = Promise.resolve()
+      .then(() => this.client.send(req, request.signal))
+      .then(
+        toAttemptResult,
+        (error: unknown): AttemptResult => ({
+          outcome: 'error',
+          error: paymentError(
+            'network',
+            error instanceof Error ? error.message : String(error)
+          ),
+        })
+      )
+    const timedOut = this.clock.sleep(this.timeoutMs, timer.signal).then(
+      (): AttemptResult => ({
+        outcome: 'timeout',
+        error: paymentError('timeout', `no response in ${this.timeoutMs}ms`),
+      })
+    )
+
+    const result = await Promise.race([sent, timedOut])
+    timer.abort()
+    if (result.outcome === 'timeout') request.abort()
+    return result
   }
 }
 
@@ -132,5 +572,116 @@ export function paymentStrategyDemo(): string {
 
   const r1 = procA.process(req1)
   const r2 = procB.process(req2)
-  return [r1, r2].join('\n')
+  return [r1, r2].map(formatPaymentResult).join('\n')
+}
+
+export async function asyncPaymentStrategyDemo(): Promise<string> {
+  // 前两次调用超时，第三次成功
+  let calls = 0
+  const flakyClient: AsyncPSPClient = {
+    send: (_req, signal) =>
+      new Promise(resolve => {
+        calls++
+        const timer = globalThis.setTimeout(
+          () => resolve(true),
+          calls < 3 ? 500 : 10
+        )
+        signal.addEventListener('abort', () => globalThis.clearTimeout(timer))
+      }),
+  }
+  const processor = new AsyncPaymentProcessor(
+    flakyClient,
+    new StrictRisk(),
+    new JitteredRetry(new ExponentialBackoff()),
+    { timeoutMs: 100, breaker: new CircuitBreaker({ failureThreshold: 3 }) }
+  )
+  const result = await processor.process({
+    amount: 500,
+    currency: 'USD',
+    userId: 'u1',
+  })
+  return formatPaymentResult(result)
+}
+
+export function idempotentPaymentDemo(): string {
+  // 统计实际调用渠道的次数：结账页面重试 3 次，只扣款一次
+  let charges = 0
+  const client: PSPClient = {
+    send: req => {
+      charges++
+      return new StripeClient().send(req)
+    },
+  }
+  const processor = new PaymentProcessor(
+    client,
+    new StrictRisk(),
+    new ExponentialBackoff(),
+    { idempotency: new Idempotency() }
+  )
+  const req: PaymentRequest = {
+    amount: 500,
+    currency: 'USD',
+    userId: 'u1',
+    idempotencyKey: 'checkout-42',
+  }
+
+  const results = [1, 2, 3].map(() =>
+    formatPaymentResult(processor.process(req))
+  )
+  try {
+    processor.process({ ...req, amount: 900 })
+  } catch (error) {
+    results.push((error as Error).message)
+  }
+  results.push(`charges=${charges}`)
+  return results.join('\n')
+}
+
+export function paymentResultDemo(): string {
+  // 渠道依次返回 Stripe 的 rate_limit（可重试）和 insufficient_funds（拒付，不再重试）
+  const codes = ['rate_limit', 'insufficient_funds']
+  const client: PSPClient = {
+    send: () => {
+      const code = codes.shift()
+      return code
+        ? { ok: false, error: normalizeError('Stripe', stripeErrors, code) }
+        : { ok: true, transactionId: 'ch_1' }
+    },
+  }
+  const processor = new PaymentProcessor(
+    client,
+    new StrictRisk(),
+    new ExponentialBackoff()
+  )
+  const result = processor.process({
+    amount: 500,
+    currency: 'USD',
+    userId: 'u1',
+  })
+
+  // 业务代码按状态和错误分类分支，不解析日志
+  let next: string
+  switch (result.status) {
+    case 'succeeded':
+      next = `ship order, transaction=${result.transactionId}`
+      break
+    case 'declined':
+      next = `ask for another card (${result.declineCode} -> ${result.error?.category})`
+      break
+    case 'pending':
+      next = 'wait for review'
+      break
+    case 'failed':
+      next = 'retry later'
+      break
+  }
+  return `${formatPaymentResult(result)}\n${next}`
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  console.log(paymentStrategyDemo())
+  console.log(idempotentPaymentDemo())
+  console.log(paymentResultDemo())
+  void asyncPaymentStrategyDemo().then(result => console.log(result))
 }
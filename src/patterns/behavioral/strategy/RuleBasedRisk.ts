@@ -0,0 +1,372 @@
+/**
+ * 基于规则的风控策略（RiskStrategy 的一种实现）
+ * 用可组合的规则代替 StrictRisk / RelaxedRisk 的固定金额阈值：
+ * 币种限额、频率检查（每个用户在时间窗口内的支付次数）、黑名单、金额评分
+ * 命中的规则累加分数，按阈值映射为 allow / review / deny 并给出原因；规则可以从 JSON 加载
+ */
+
+import {
+  PaymentRequest,
+  RiskAction,
+  RiskDecision,
+  RiskReason,
+  RiskStrategy,
+} from './PaymentStrategy'
+
+type Currency = PaymentRequest['currency']
+
+/** 规则命中时的结果：action 为 deny / review 时直接决定结果的下限，score 参与累加 */
+export interface RiskHit {
+  message: string
+  score?: number
+  action?: Exclude<RiskAction, 'allow'>
+}
+
+export interface RiskRule {
+  id: string
+  /** 规则需要回看的支付历史时长；引擎按所有规则中的最大值裁剪历史，不需要历史的规则省略 */
+  windowMs?: number
+  evaluate(req: PaymentRequest, context: RiskContext): RiskHit | undefined
+}
+
+export interface RiskContext {
+  now: number
+  /** 该用户在此次请求之前被放行的支付时间（毫秒） */
+  history: readonly number[]
+}
+
+// ========== JSON 配置 ==========
+
+interface RuleConfigBase {
+  id?: string
+  score?: number
+  action?: 'review' | 'deny'
+}
+
+export type RiskRuleConfig =
+  | (RuleConfigBase & {
+      type: 'currencyLimit'
+      limits: Partial<Record<Currency, number>>
+    })
+  | (RuleConfigBase & {
+      type: 'velocity'
+      maxPayments: number
+      windowMs: number
+    })
+  | (RuleConfigBase & { type: 'blocklist'; userIds: string[] })
+  | (RuleConfigBase & { type: 'amountAbove'; amount: number })
+
+export interface RiskEngineConfig {
+  name?: string
+  /** 总分达到 review / deny 时分别转人工审核和拒绝 */
+  thresholds: { review: number; deny: number }
+  rules: RiskRuleConfig[]
+}
+
+// ========== 内置规则 ==========
+
+// 未配置 score 和 action 时，每种规则的默认处理
+const hitOf = (
+  config: RuleConfigBase,
+  message: string,
+  fallback: Pick<RiskHit, 'score' | 'action'>
+): RiskHit =>
+  config.score === undefined && config.action === undefined
+    ? { message, ...fallback }
+    : { message, score: config.score, action: config.action }
+
+/** 币种限额：超过对应币种的单笔上限，默认拒绝 */
+export function currencyLimit(
+  config: Omit<Extract<RiskRuleConfig, { type: 'currencyLimit' }>, 'type'>
+): RiskRule {
+  return {
+    id: config.id ?? 'currencyLimit',
+    evaluate: req => {
+      const limit = config.limits[req.currency]
+      if (limit === undefined || req.amount <= limit) return undefined
+      return hitOf(
+        config,
+        `${req.currency} amount ${req.amount} exceeds limit ${limit}`,
+        { action: 'deny' }
+      )
+    },
+  }
+}
+
+/** 频率检查：同一用户在 windowMs 内的支付次数（含本次）超过 maxPayments，默认加 50 分 */
+export function velocity(
+  config: Omit<Extract<RiskRuleConfig, { type: 'velocity' }>, 'type'>
+): RiskRule {
+  return {
+    id: config.id ?? 'velocity',
+    windowMs: config.windowMs,
+    evaluate: (_req, { now, history }) => {
+      const recent = history.filter(time => now - time < config.windowMs)
+      if (recent.length + 1 <= config.maxPayments) return undefined
+      return hitOf(
+        config,
+        `${recent.length + 1} payments within ${config.windowMs}ms (max ${config.maxPayments})`,
+        { score: 50 }
+      )
+    },
+  }
+}
+
+/** 黑名单用户，默认拒绝 */
+export function blocklist(
+  config: Omit<Extract<RiskRuleConfig, { type: 'blocklist' }>, 'type'>
+): RiskRule {
+  const blocked = new Set(config.userIds)
+  return {
+    id: config.id ?? 'blocklist',
+    evaluate: req =>
+      blocked.has(req.userId)
+        ? hitOf(config, `user ${req.userId} is blocklisted`, {
+            action: 'deny',
+          })
+        : undefined,
+  }
+}
+
+/** 金额评分：超过 amount 时加分，默认加 50 分 */
+export function amountAbove(
+  config: Omit<Extract<RiskRuleConfig, { type: 'amountAbove' }>, 'type'>
+): RiskRule {
+  return {
+    id: config.id ?? 'amountAbove',
+    evaluate: req =>
+      req.amount > config.amount
+        ? hitOf(config, `amount ${req.amount} above ${config.amount}`, {
+            score: 50,
+          })
+        : undefined,
+  }
+}
+
+export function createRule(config: RiskRuleConfig): RiskRule {
+  switch (config.type) {
+    case 'currencyLimit':
+      return currencyLimit(config)
+    case 'velocity':
+      return velocity(config)
+    case 'blocklist':
+      return blocklist(config)
+    case 'amountAbove':
+      return amountAbove(config)
+    default:
+      throw new Error(
+        `Unknown risk rule type "${(config as { type: unknown }).type}"`
+      )
+  }
+}
+
+// ========== 配置校验 ==========
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+function requireNumber(
+  value: unknown,
+  field: string,
+  check: (value: number) => boolean = () => true
+): void {
+  if (!isFiniteNumber(value) || !check(value)) {
+    throw new Error(`Invalid risk config: "${field}" must be a valid number`)
+  }
+}
+
+/** 校验从 JSON 读到的一条规则，缺字段或类型不对时抛错，而不是让规则静默失效 */
+function validateRuleConfig(config: unknown, index: number): RiskRuleConfig {
+  const at = `rules[${index}]`
+  if (typeof config !== 'object' || config === null) {
+    throw new Error(`Invalid risk config: ${at} must be an object`)
+  }
+  const rule = config as Record<string, unknown>
+  if (rule.score !== undefined) requireNumber(rule.score, `${at}.score`)
+  if (
+    rule.action !== undefined &&
+    rule.action !== 'review' &&
+    rule.action !== 'deny'
+  ) {
+    throw new Error(`Invalid risk config: ${at}.action must be review or deny`)
+  }
+
+  switch (rule.type) {
+    case 'currencyLimit': {
+      const limits = rule.limits
+      if (typeof limits !== 'object' || limits === null) {
+        throw new Error(`Invalid risk config: ${at}.limits must be an object`)
+      }
+      for (const [currency, limit] of Object.entries(limits)) {
+        requireNumber(limit, `${at}.limits.${currency}`, value => value >= 0)
+      }
+      break
+    }
+    case 'velocity':
+      requireNumber(rule.maxPayments, `${at}.maxPayments`, Number.isInteger)
+      requireNumber(rule.windowMs, `${at}.windowMs`, value => value > 0)
+      break
+    case 'blocklist':
+      if (
+        !Array.isArray(rule.userIds) ||
+        !rule.userIds.every(id => typeof id === 'string')
+      ) {
+        throw new Error(`Invalid risk config: ${at}.userIds must be strings`)
+      }
+      break
+    case 'amountAbove':
+      requireNumber(rule.amount, `${at}.amount`)
+      break
+  }
+  // 未知的类型交给 createRule 报错
+  return config as RiskRuleConfig
+}
+
+// ========== 风控引擎 ==========
+
+const ACTION_ORDER: Record<RiskAction, number> = {
+  allow: 0,
+  review: 1,
+  deny: 2,
+}
+
+export class RuleBasedRisk implements RiskStrategy {
+  name: string
+  private history = new Map<string, number[]>()
+  private now: () => number
+  // 历史只需要保留规则中最长的回看时长
+  private retainMs: number
+  // 每隔 retainMs 清理一次过期的历史，不再付款的用户不会一直占用内存
+  private lastSweep: number
+
+  constructor(
+    private rules: RiskRule[],
+    private thresholds: RiskEngineConfig['thresholds'],
+    options: { name?: string; now?: () => number } = {}
+  ) {
+    this.name = options.name ?? 'RuleBasedRisk'
+    this.now = options.now ?? Date.now
+    this.retainMs = Math.max(0, ...rules.map(rule => rule.windowMs ?? 0))
+    this.lastSweep = this.now()
+  }
+
+  /** 从 JSON 文本或已解析的配置创建，修改风控规则不需要改代码 */
+  static fromJSON(
+    json: string | RiskEngineConfig,
+    options: { now?: () => number } = {}
+  ): RuleBasedRisk {
+    const config: RiskEngineConfig =
+      typeof json === 'string' ? JSON.parse(json) : json
+    if (!config.thresholds || !Array.isArray(config.rules)) {
+      throw new Error('Risk config requires "thresholds" and "rules"')
+    }
+    const { review, deny } = config.thresholds
+    requireNumber(review, 'thresholds.review')
+    requireNumber(deny, 'thresholds.deny')
+    if (deny < review) {
+      throw new Error(
+        'Invalid risk config: "thresholds.deny" must not be below "thresholds.review"'
+      )
+    }
+    const rules = config.rules.map(validateRuleConfig).map(createRule)
+    return new RuleBasedRisk(rules, config.thresholds, {
+      ...options,
+      name: config.name,
+    })
+  }
+
+  /** 当前保留了支付历史的用户数 */
+  trackedUsers(): number {
+    return this.history.size
+  }
+
+  allow(req: PaymentRequest): boolean {
+    return this.evaluate(req).action === 'allow'
+  }
+
+  /** 依次执行所有规则；放行的支付记入历史（用于频率检查），被拒绝或转人工的不计入 */
+  evaluate(req: PaymentRequest): RiskDecision {
+    const now = this.now()
+    if (now - this.lastSweep >= this.retainMs) this.sweep(now)
+    const history = (this.history.get(req.userId) ?? []).filter(
+      time => now - time < this.retainMs
+    )
+    const reasons: RiskReason[] = []
+    let score = 0
+    let action: RiskAction = 'allow'
+
+    for (const rule of this.rules) {
+      const hit = rule.evaluate(req, { now, history })
+      if (!hit) continue
+      reasons.push({ rule: rule.id, message: hit.message, score: hit.score })
+      score += hit.score ?? 0
+      if (hit.action && ACTION_ORDER[hit.action] > ACTION_ORDER[action]) {
+        action = hit.action
+      }
+    }
+
+    const scored: RiskAction =
+      score >= this.thresholds.deny
+        ? 'deny'
+        : score >= this.thresholds.review
+          ? 'review'
+          : 'allow'
+    if (ACTION_ORDER[scored] > ACTION_ORDER[action]) action = scored
+
+    if (action === 'allow' && this.retainMs > 0) {
+      this.history.set(req.userId, [...history, now])
+    } else if (history.length > 0) {
+      this.history.set(req.userId, history)
+    } else {
+      this.history.delete(req.userId)
+    }
+    return { action, score, reasons }
+  }
+
+  private sweep(now: number): void {
+    for (const [userId, times] of this.history) {
+      const recent = times.filter(time => now - time < this.retainMs)
+      if (recent.length > 0) {
+        this.history.set(userId, recent)
+      } else {
+        this.history.delete(userId)
+      }
+    }
+    this.lastSweep = now
+  }
+}
+
+// ========== 最小可运行 Demo ==========
+
+export const defaultRiskConfig: RiskEngineConfig = {
+  name: 'DefaultRisk',
+  thresholds: { review: 50, deny: 100 },
+  rules: [
+    { type: 'blocklist', userIds: ['fraudster'] },
+    { type: 'currencyLimit', limits: { USD: 10000, EUR: 8000, CNY: 50000 } },
+    { type: 'velocity', maxPayments: 3, windowMs: 60_000 },
+    { type: 'amountAbove', id: 'largeAmount', amount: 1000, score: 50 },
+  ],
+}
+
+export function ruleBasedRiskDemo(): string {
+  const risk = RuleBasedRisk.fromJSON(JSON.stringify(defaultRiskConfig))
+  const requests: PaymentRequest[] = [
+    { amount: 500, currency: 'USD', userId: 'u1' },
+    { amount: 5000, currency: 'USD', userId: 'u1' },
+    { amount: 9000, currency: 'EUR', userId: 'u2' },
+    { amount: 10, currency: 'USD', userId: 'fraudster' },
+  ]
+  return requests
+    .map(req => {
+      const { action, score, reasons } = risk.evaluate(req)
+      const why = reasons.map(reason => reason.rule).join(',')
+      return `${req.userId} ${req.amount} ${req.currency} -> ${action} (score=${score}${why ? `; ${why}` : ''})`
+    })
+    .join('\n')
+}
+
+// 如果直接运行此文件，执行演示
+if (import.meta.url === `file://${process.argv[1]}`) {
+  console.log(ruleBasedRiskDemo())
+}
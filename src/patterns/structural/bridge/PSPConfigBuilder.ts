@@ -11,6 +11,8 @@ import {
   ApplePayPSP,
   OneTimePayment,
   SubscriptionPayment,
+  PSPResult,
+  formatPSPResult,
 } from './PaymentBridge'
 
 // ========== 配置模型 ==========
@@ -42,14 +44,18 @@ export class ConfiguredPSP implements PSPImplementor {
     return `env=${this.config.environment}, risk=${this.config.riskLevel}, retry=${this.config.retryAttempts}x/${this.config.backoffMs}ms, key=${key}${this.config.label ? `, label=${this.config.label}` : ''}`
   }
 
-  charge(ctx: PaymentContext): string {
-    return `${this.base.charge(ctx)} [${this.describe()}]`
+  private annotate(result: PSPResult): PSPResult {
+    return { ...result, notes: [...(result.notes ?? []), this.describe()] }
   }
-  refund(ctx: PaymentContext): string {
-    return `${this.base.refund(ctx)} [${this.describe()}]`
+
+  charge(ctx: PaymentContext): PSPResult {
+    return this.annotate(this.base.charge(ctx))
+  }
+  refund(ctx: PaymentContext): PSPResult {
+    return this.annotate(this.base.refund(ctx))
   }
-  subscribe(ctx: PaymentContext, planId: string): string {
-    return `${this.base.subscribe(ctx, planId)} [${this.describe()}]`
+  subscribe(ctx: PaymentContext, planId: string): PSPResult {
+    return this.annotate(this.base.subscribe(ctx, planId))
   }
 }
 
@@ -184,5 +190,7 @@ export function pspConfigBuilderBridgeDemo(): string {
 
   const ctx: PaymentContext = { amount: 99, currency: 'USD', userId: 'u100' }
 
-  return [onceStripe.execute(ctx), subPayPal.execute(ctx)].join(' | ')
+  return [onceStripe.execute(ctx), subPayPal.execute(ctx)]
+    .map(formatPSPResult)
+    .join(' | ')
 }
@@ -3,11 +3,48 @@
  * 适用：抽象（一次性/订阅/退款）与实现（Stripe/PayPal/ApplePay）独立演化、自由组合。
  */
 
+import { randomUUID } from 'node:crypto'
+import { Idempotency } from '../../behavioral/strategy/Idempotency'
+import {
+  applePayErrors,
+  normalizeError,
+  PaymentError,
+  PaymentStatus,
+  payPalErrors,
+  ProviderErrorMap,
+  statusOf,
+  stripeErrors,
+} from '../../behavioral/strategy/PaymentErrors'
+
 // ========== 上下文与实现层（PSP） ==========
 export interface PaymentContext {
   amount: number
   currency: 'USD' | 'EUR' | 'CNY'
   userId: string
+  /** 幂等键：同一个键在有效期内只调用一次渠道，重复调用返回第一次的结果 */
+  idempotencyKey?: string
+}
+
+export type PSPOperation = 'charge' | 'refund' | 'subscribe'
+
+/**
+ * 渠道处理结果：失败时 error 为按渠道错误码映射后的统一分类，
+ * declineCode 为拒付时渠道的原始错误码；formatPSPResult 输出原来的描述文字
+ */
+export interface PSPResult {
+  status: PaymentStatus
+  provider: string
+  operation: PSPOperation
+  amount: number
+  currency: PaymentContext['currency']
+  userId: string
+  planId?: string
+  /** 成功或待付款人操作时渠道返回的交易号 */
+  transactionId?: string
+  declineCode?: string
+  error?: PaymentError
+  /** 附加说明，例如 ConfiguredPSP 的配置摘要 */
+  notes?: string[]
 }
 
 /**
@@ -15,50 +52,117 @@ export interface PaymentContext {
  * 作用：抽象各支付服务提供方的统一能力（Stripe/PayPal/ApplePay）。
  */
 export interface PSPImplementor {
-  /** 执行一次性扣款（单次支付）。返回渠道处理结果描述。 */
-  charge(ctx: PaymentContext): string
-  /** 执行原路或指定规则退款。返回渠道处理结果描述。 */
-  refund(ctx: PaymentContext): string
-  /** 创建订阅并按计划周期性扣款。返回渠道处理结果描述。 */
-  subscribe(ctx: PaymentContext, planId: string): string
+  /** 执行一次性扣款（单次支付）。 */
+  charge(ctx: PaymentContext): PSPResult
+  /** 执行原路或指定规则退款。 */
+  refund(ctx: PaymentContext): PSPResult
+  /** 创建订阅并按计划周期性扣款。 */
+  subscribe(ctx: PaymentContext, planId: string): PSPResult
 }
 
-export class StripePSP implements PSPImplementor {
-  charge(ctx: PaymentContext): string {
-    return `Stripe charge: ${ctx.amount} ${ctx.currency} for ${ctx.userId}`
-  }
-  refund(ctx: PaymentContext): string {
-    return `Stripe refund: ${ctx.amount} ${ctx.currency} to ${ctx.userId}`
-  }
-  subscribe(ctx: PaymentContext, planId: string): string {
-    return `Stripe subscribe: plan=${planId} for ${ctx.userId}`
-  }
+export interface SimulatedPSPOptions {
+  /** 模拟渠道返回的原始错误码，返回 undefined 表示成功 */
+  simulateError?: (
+    ctx: PaymentContext,
+    operation: PSPOperation
+  ) => string | undefined
+  generateId?: () => string
 }
 
-export class PayPalPSP implements PSPImplementor {
-  charge(ctx: PaymentContext): string {
-    return `PayPal charge: ${ctx.amount} ${ctx.currency} for ${ctx.userId}`
+/** 示例渠道的公共部分：子类只提供渠道名称、错误码映射和交易号前缀 */
+export abstract class SimulatedPSP implements PSPImplementor {
+  protected abstract readonly provider: string
+  protected abstract readonly errors: ProviderErrorMap
+  protected abstract readonly idPrefix: Record<PSPOperation, string>
+
+  constructor(private options: SimulatedPSPOptions = {}) {}
+
+  charge(ctx: PaymentContext): PSPResult {
+    return this.respond(ctx, 'charge')
+  }
+  refund(ctx: PaymentContext): PSPResult {
+    return this.respond(ctx, 'refund')
   }
-  refund(ctx: PaymentContext): string {
-    return `PayPal refund: ${ctx.amount} ${ctx.currency} to ${ctx.userId}`
+  subscribe(ctx: PaymentContext, planId: string): PSPResult {
+    return this.respond(ctx, 'subscribe', planId)
   }
-  subscribe(ctx: PaymentContext, planId: string): string {
-    return `PayPal subscribe: plan=${planId} for ${ctx.userId}`
+
+  private respond(
+    ctx: PaymentContext,
+    operation: PSPOperation,
+    planId?: string
+  ): PSPResult {
+    const result: PSPResult = {
+      status: 'succeeded',
+      provider: this.provider,
+      operation,
+      amount: ctx.amount,
+      currency: ctx.currency,
+      userId: ctx.userId,
+      planId,
+    }
+    const code = this.options.simulateError?.(ctx, operation)
+    if (code !== undefined) {
+      result.error = normalizeError(this.provider, this.errors, code)
+      result.status = statusOf(result.error)
+      if (result.status === 'declined') result.declineCode = code
+    }
+    if (result.status === 'succeeded' || result.status === 'pending') {
+      const id = (this.options.generateId ?? randomUUID)()
+      result.transactionId = `${this.idPrefix[operation]}${id}`
+    }
+    return result
   }
 }
 
-export class ApplePayPSP implements PSPImplementor {
-  charge(ctx: PaymentContext): string {
-    return `ApplePay charge: ${ctx.amount} ${ctx.currency} for ${ctx.userId}`
+export class StripePSP extends SimulatedPSP {
+  protected readonly provider = 'Stripe'
+  protected readonly errors = stripeErrors
+  protected readonly idPrefix = {
+    charge: 'ch_',
+    refund: 're_',
+    subscribe: 'sub_',
   }
-  refund(ctx: PaymentContext): string {
-    return `ApplePay refund: ${ctx.amount} ${ctx.currency} to ${ctx.userId}`
+}
+
+export class PayPalPSP extends SimulatedPSP {
+  protected readonly provider = 'PayPal'
+  protected readonly errors = payPalErrors
+  protected readonly idPrefix = {
+    charge: 'PAY-',
+    refund: 'REF-',
+    subscribe: 'I-',
   }
-  subscribe(ctx: PaymentContext, planId: string): string {
-    return `ApplePay subscribe: plan=${planId} for ${ctx.userId}`
+}
+
+export class ApplePayPSP extends SimulatedPSP {
+  protected readonly provider = 'ApplePay'
+  protected readonly errors = applePayErrors
+  protected readonly idPrefix = {
+    charge: 'ap_ch_',
+    refund: 'ap_re_',
+    subscribe: 'ap_sub_',
   }
 }
 
+const DESCRIPTIONS: Record<PSPOperation, (result: PSPResult) => string> = {
+  charge: result =>
+    `charge: ${result.amount} ${result.currency} for ${result.userId}`,
+  refund: result =>
+    `refund: ${result.amount} ${result.currency} to ${result.userId}`,
+  subscribe: result => `subscribe: plan=${result.planId} for ${result.userId}`,
+}
+
+/** 描述文字，例如 "Stripe charge: 299 USD for u42"；未成功时追加状态和渠道错误码 */
+export function formatPSPResult(result: PSPResult): string {
+  const outcome =
+    result.status === 'succeeded'
+      ? ''
+      : ` -> ${result.status}(${result.error?.providerCode ?? result.error?.category})`
+  const notes = (result.notes ?? []).map(note => ` [${note}]`).join('')
+  return `${result.provider} ${DESCRIPTIONS[result.operation](result)}${outcome}${notes}`
+}
+
 // ========== 抽象层（业务支付类型） ==========
 /**
  * 抽象层（Payment）
@@ -66,36 +170,59 @@ export class ApplePayPSP implements PSPImplementor {
  * 结构：持有渠道实现 `PSPImplementor`，在运行时组合形成桥接关系。
  * 扩展：具体支付类重写 `execute()`，按业务语义调用渠道方法。
  * 价值：让“业务抽象”与“渠道实现”各自独立演化、自由组合。
+ * 幂等：传入 Idempotency 后，带 idempotencyKey 的重复调用不会再次调用渠道。
  */
 export abstract class Payment {
   protected psp: PSPImplementor
-  constructor(psp: PSPImplementor) {
+  protected idempotency?: Idempotency<PSPResult>
+  constructor(
+    psp: PSPImplementor,
+    options: { idempotency?: Idempotency<PSPResult> } = {}
+  ) {
     this.psp = psp
+    this.idempotency = options.idempotency
+  }
+  abstract execute(ctx: PaymentContext): PSPResult
+
+  /** 按幂等键只执行一次 run；operation 参与摘要，同一个键不能既扣款又退款 */
+  protected once(
+    ctx: PaymentContext,
+    operation: Record<string, string>,
+    run: () => PSPResult
+  ): PSPResult {
+    if (!this.idempotency || !ctx.idempotencyKey) return run()
+    return this.idempotency.run(
+      ctx.idempotencyKey,
+      { ...ctx, ...operation },
+      run
+    )
   }
-  abstract execute(ctx: PaymentContext): string
 }
 
 export class OneTimePayment extends Payment {
-  execute(ctx: PaymentContext): string {
-    return this.psp.charge(ctx)
+  execute(ctx: PaymentContext): PSPResult {
+    return this.once(ctx, { operation: 'charge' }, () => this.psp.charge(ctx))
   }
 }
 
 export class SubscriptionPayment extends Payment {
   constructor(
     psp: PSPImplementor,
-    private planId: string
+    private planId: string,
+    options: { idempotency?: Idempotency<PSPResult> } = {}
   ) {
-    super(psp)
+    super(psp, options)
   }
-  execute(ctx: PaymentContext): string {
-    return this.psp.subscribe(ctx, this.planId)
+  execute(ctx: PaymentContext): PSPResult {
+    return this.once(ctx, { operation: 'subscribe', planId: this.planId }, () =>
+      this.psp.subscribe(ctx, this.planId)
+    )
   }
 }
 
 export class RefundPayment extends Payment {
-  execute(ctx: PaymentContext): string {
-    return this.psp.refund(ctx)
+  execute(ctx: PaymentContext): PSPResult {
+    return this.once(ctx, { operation: 'refund' }, () => this.psp.refund(ctx))
   }
 }
 
@@ -111,5 +238,7 @@ export function paymentBridgeDemo(): string {
     onceStripe.execute(ctx),
     subPayPal.execute(ctx),
     refundApple.execute(ctx),
-  ].join(' | ')
+  ]
+    .map(formatPSPResult)
+    .join(' | ')
 }
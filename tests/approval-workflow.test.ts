@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ApprovalConflictError,
+  ApprovalEngine,
+  ApprovalError,
+  InMemoryApprovalStore,
+  WorkflowDefinition,
+} from '../src/patterns/behavioral/chain/examples/ApprovalWorkflow'
+import {
+  leaveApprovalWorkflow,
+  LeaveRequest,
+} from '../src/patterns/behavioral/chain/examples/ApprovalChain'
+
+const HOUR = 3_600_000
+
+function createEngine<T>(definition: WorkflowDefinition<T>) {
+  const clock = { now: 0 }
+  const store = new InMemoryApprovalStore<T>()
+  let seq = 0
+  const create = () =>
+    new ApprovalEngine(definition, {
+      store,
+      now: () => clock.now,
+      generateId: () => `req-${++seq}`,
+    })
+  return { engine: create(), create, clock }
+}
+
+describe('ApprovalEngine', () => {
+  it('请假流程按天数展开步骤，逐级审批后通过', async () => {
+    const { engine } = createEngine<LeaveRequest>(leaveApprovalWorkflow)
+    const stepsOf = async (days: number) =>
+      (await engine.submit('张三', { days, employeeName: '张三' })).steps.map(
+        step => step.id
+      )
+
+    expect(await stepsOf(1)).toEqual(['teamLeader'])
+    expect(await stepsOf(3)).toEqual(['teamLeader', 'manager'])
+    expect(await stepsOf(10)).toEqual([
+      'teamLeader',
+      'manager',
+      'director',
+      'longLeave',
+    ])
+
+    const { id } = await engine.submit('李四', {
+      days: 3,
+      employeeName: '李四',
+    })
+    await engine.decide(id, 'teamLeader', 'approve')
+    expect(await engine.pendingFor('manager')).toMatchObject([{ id }])
+    const done = await engine.decide(id, 'manager', 'approve', '同意')
+
+    expect(done.status).toBe('approved')
+    expect(done.audit.map(entry => entry.action)).toEqual([
+      'submitted',
+      'approved',
+      'approved',
+      'completed',
+    ])
+  })
+
+  it('all 模式需要全部审批人同意，任何拒绝都会结束申请', async () => {
+    const { engine } = createEngine<LeaveRequest>(leaveApprovalWorkflow)
+    const approveUntilLongLeave = async () => {
+      const { id } = await engine.submit('王五', {
+        days: 10,
+        employeeName: '王五',
+      })
+      for (const approver of ['teamLeader', 'manager', 'director']) {
+        await engine.decide(id, approver, 'approve')
+      }
+      return id
+    }
+
+    const approved = await approveUntilLongLeave()
+    await engine.decide(approved, 'director', 'approve')
+    expect((await engine.get(approved))?.status).toBe('pending')
+    await expect(
+      engine.decide(approved, 'director', 'approve')
+    ).rejects.toThrow('already approved')
+    expect((await engine.decide(approved, 'hr', 'approve')).status).toBe(
+      'approved'
+    )
+
+    const rejected = await approveUntilLongLeave()
+    const result = await engine.decide(rejected, 'hr', 'reject', '人手不足')
+    expect(result.status).toBe('rejected')
+    await expect(
+      engine.decide(rejected, 'director', 'approve')
+    ).rejects.toBeInstanceOf(ApprovalError)
+  })
+
+  it('转交后由被转交人代为审批，审计记录原审批人', async () => {
+    const { engine } = createEngine<LeaveRequest>(leaveApprovalWorkflow)
+    const { id } = await engine.submit('赵六', {
+      days: 1,
+      employeeName: '赵六',
+    })
+
+    await expect(engine.decide(id, 'deputy', 'approve')).rejects.toThrow(
+      '"deputy" is not an approver of step "teamLeader"'
+    )
+    await engine.delegate(id, 'teamLeader', 'deputy')
+    expect(await engine.pendingFor('deputy')).toMatchObject([{ id }])
+    const result = await engine.decide(id, 'deputy', 'approve')
+
+    expect(result.status).toBe('approved')
+    expect(result.audit[2]).toMatchObject({
+      actor: 'deputy',
+      action: 'approved',
+      onBehalfOf: 'teamLeader',
+    })
+  })
+
+  it('不能转交给本步骤的审批人、已有的被转交人或申请人', async () => {
+    const { engine } = createEngine<LeaveRequest>(leaveApprovalWorkflow)
+    const { id } = await engine.submit('王五', {
+      days: 10,
+      employeeName: '王五',
+    })
+    for (const approver of ['teamLeader', 'manager', 'director']) {
+      await engine.decide(id, approver, 'approve')
+    }
+
+    await expect(engine.delegate(id, 'director', 'hr')).rejects.toThrow(
+      '"hr" already approves in step "longLeave"'
+    )
+    await expect(engine.delegate(id, 'director', '王五')).rejects.toThrow(
+      'to its requester'
+    )
+    await engine.delegate(id, 'director', 'deputy')
+    await expect(engine.delegate(id, 'hr', 'deputy')).rejects.toThrow(
+      '"deputy" already approves'
+    )
+  })
+
+  it('审批人名字与 Object 原型成员同名时也按普通名字处理', async () => {
+    const { engine } = createEngine<LeaveRequest>(leaveApprovalWorkflow)
+    const submit = async () =>
+      (await engine.submit('赵六', { days: 1, employeeName: '赵六' })).id
+
+    const first = await submit()
+    expect(await engine.pendingFor('constructor')).toEqual([])
+    await expect(engine.decide(first, 'toString', 'approve')).rejects.toThrow(
+      '"toString" is not an approver'
+    )
+
+    for (const name of ['constructor', '__proto__']) {
+      const id = name === 'constructor' ? first : await submit()
+      await engine.delegate(id, 'teamLeader', name)
+      expect(await engine.pendingFor(name)).toMatchObject([{ id }])
+
+      const result = await engine.decide(id, name, 'approve')
+      expect(result.status).toBe('approved')
+      expect(result.audit).toContainEqual(
+        expect.objectContaining({ actor: name, onBehalfOf: 'teamLeader' })
+      )
+    }
+  })
+
+  it('申请人不能审批自己的申请', async () => {
+    const { engine } = createEngine<{ amount: number }>({
+      name: 'expense',
+      steps: [{ id: 'review', approvers: ['amy', 'bob'], mode: 'all' }],
+    })
+
+    const record = await engine.submit('amy', { amount: 50 })
+    expect(record.steps[0].approvers).toEqual(['bob'])
+    await expect(engine.decide(record.id, 'amy', 'approve')).rejects.toThrow(
+      'not an approver'
+    )
+    await expect(
+      createEngine<{ amount: number }>({
+        name: 'expense',
+        steps: [{ id: 'review', approvers: ['amy'] }],
+      }).engine.submit('amy', { amount: 50 })
+    ).rejects.toThrow('Step "review" has no approver other than "amy"')
+  })
+
+  it('并发的决定不会互相覆盖，存储拒绝过期版本', async () => {
+    const { engine, create } = createEngine<LeaveRequest>(leaveApprovalWorkflow)
+    const { id } = await engine.submit('王五', {
+      days: 10,
+      employeeName: '王五',
+    })
+    for (const approver of ['teamLeader', 'manager', 'director']) {
+      await engine.decide(id, approver, 'approve')
+    }
+
+    const [first] = await Promise.all([
+      engine.decide(id, 'director', 'approve'),
+      create().decide(id, 'hr', 'approve'),
+    ])
+    const result = await engine.get(id)
+
+    expect(first.status).toBe('pending')
+    expect(result?.status).toBe('approved')
+    expect(result?.steps[3].approvedBy.sort()).toEqual(['director', 'hr'])
+
+    const store = new InMemoryApprovalStore<LeaveRequest>()
+    const fresh = { ...first, version: 1 }
+    await store.save(fresh)
+    await expect(store.save(fresh)).rejects.toBeInstanceOf(
+      ApprovalConflictError
+    )
+    await store.save({ ...fresh, version: 2 })
+  })
+
+  it('超时后升级，状态持久化在存储中，可以由新的引擎实例继续', async () => {
+    const { engine, create, clock } = createEngine<LeaveRequest>(
+      leaveApprovalWorkflow
+    )
+    const { id } = await engine.submit('钱七', {
+      days: 2,
+      employeeName: '钱七',
+    })
+    clock.now = HOUR
+    await engine.decide(id, 'teamLeader', 'approve')
+
+    clock.now = 24 * HOUR
+    expect(await engine.escalateOverdue()).toEqual([])
+    clock.now = 25 * HOUR
+
+    const restarted = create()
+    expect((await restarted.escalateOverdue()).map(r => r.id)).toEqual([id])
+    expect(await restarted.escalateOverdue()).toEqual([])
+    await expect(restarted.decide(id, 'manager', 'approve')).rejects.toThrow(
+      'not an approver'
+    )
+    const result = await restarted.decide(id, 'director', 'approve')
+
+    expect(result.status).toBe('approved')
+    expect(result.audit.find(entry => entry.action === 'escalated')).toEqual({
+      at: 25 * HOUR,
+      actor: 'system',
+      action: 'escalated',
+      step: 'manager',
+      comment: 'to director',
+    })
+  })
+
+  it('审批人可以按申请人计算，没有步骤的申请直接通过', async () => {
+    const { engine } = createEngine<{ amount: number }>({
+      name: 'expense',
+      steps: [
+        {
+          id: 'lead',
+          approvers: (_subject, requester) => [`${requester}.lead`],
+          when: subject => subject.amount > 100,
+        },
+      ],
+    })
+
+    const small = await engine.submit('amy', { amount: 50 })
+    const large = await engine.submit('amy', { amount: 500 })
+
+    expect(small.status).toBe('approved')
+    expect(large.steps[0].approvers).toEqual(['amy.lead'])
+    await expect(engine.decide('missing', 'x', 'approve')).rejects.toThrow(
+      'Unknown approval request "missing"'
+    )
+  })
+})
@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Buffer } from 'node:buffer'
+import {
+  createRequest,
+  createResponse,
+  Response,
+  Router,
+  SimpleExpress,
+} from '../src/patterns/behavioral/chain/examples/SimpleExpressMiddleware'
+import {
+  can,
+  jwtAuth,
+  RbacPolicy,
+  rbac,
+  signJwt,
+  TokenError,
+  verifyJwt,
+} from '../src/patterns/behavioral/chain/examples/AuthMiddlewares'
+
+const secret = 'test-secret'
+const NOW = Date.UTC(2026, 0, 1)
+const now = () => NOW
+
+function reasonOf(fn: () => unknown): string | undefined {
+  try {
+    fn()
+  } catch (err) {
+    return err instanceof TokenError ? err.reason : 'not a TokenError'
+  }
+  return undefined
+}
+
+describe('verifyJwt', () => {
+  it('校验签名并返回载荷', () => {
+    const token = signJwt({ sub: 'u1', roles: ['reader'] }, secret, {
+      expiresInSec: 60,
+      now,
+    })
+
+    expect(verifyJwt(token, secret, { now })).toEqual({
+      sub: 'u1',
+      roles: ['reader'],
+      iat: NOW / 1000,
+      exp: NOW / 1000 + 60,
+    })
+  })
+
+  it('拒绝格式错误、错误签名和非 HS256 算法', () => {
+    const token = signJwt({ sub: 'u1' }, secret, { now })
+    const [, payload, signature] = token.split('.')
+    const none = Buffer.from('{"alg":"none"}').toString('base64url')
+
+    expect(reasonOf(() => verifyJwt('a.b', secret))).toBe('malformed_token')
+    expect(reasonOf(() => verifyJwt(token, 'other-secret'))).toBe(
+      'invalid_signature'
+    )
+    expect(
+      reasonOf(() => verifyJwt(`${none}.${payload}.${signature}`, secret))
+    ).toBe('unsupported_algorithm')
+    expect(reasonOf(() => verifyJwt(`${token}x`, secret))).toBe(
+      'invalid_signature'
+    )
+  })
+
+  it('过期和生效时间允许时钟偏差', () => {
+    const token = signJwt({ sub: 'u1', nbf: NOW / 1000 + 20 }, secret, {
+      expiresInSec: 60,
+      now,
+    })
+    const at = (ms: number) => ({ now: () => NOW + ms, clockToleranceSec: 30 })
+
+    expect(reasonOf(() => verifyJwt(token, secret, at(0)))).toBeUndefined()
+    expect(reasonOf(() => verifyJwt(token, secret, at(90_000)))).toBeUndefined()
+    expect(reasonOf(() => verifyJwt(token, secret, at(90_001)))).toBe(
+      'token_expired'
+    )
+    expect(
+      reasonOf(() => verifyJwt(token, secret, { now, clockToleranceSec: 10 }))
+    ).toBe('token_not_yet_valid')
+  })
+
+  it('exp / nbf 不是数字时视为无效声明', () => {
+    // 模拟签发方写错类型的令牌
+    const exp = signJwt(
+      { sub: 'u1', exp: '9999999999' as unknown as number },
+      secret,
+      { now }
+    )
+    const nbf = signJwt({ sub: 'u1', nbf: null as unknown as number }, secret, {
+      now,
+    })
+
+    expect(reasonOf(() => verifyJwt(exp, secret, { now }))).toBe(
+      'invalid_claims'
+    )
+    expect(reasonOf(() => verifyJwt(nbf, secret, { now }))).toBe(
+      'invalid_claims'
+    )
+  })
+
+  it('校验 issuer 和 audience', () => {
+    const token = signJwt({ sub: 'u1', iss: 'auth', aud: ['api'] }, secret, {
+      now,
+    })
+
+    expect(
+      reasonOf(() =>
+        verifyJwt(token, secret, { issuer: 'auth', audience: 'api' })
+      )
+    ).toBeUndefined()
+    expect(reasonOf(() => verifyJwt(token, secret, { issuer: 'other' }))).toBe(
+      'invalid_claims'
+    )
+  })
+})
+
+describe('jwtAuth + rbac', () => {
+  const policy: RbacPolicy = {
+    roles: {
+      reader: { permissions: ['posts:read'] },
+      editor: { permissions: ['posts:write'], inherits: ['reader'] },
+      admin: { permissions: ['*'], inherits: ['editor', 'admin'] },
+    },
+    rules: [
+      { method: 'GET', path: '/api/health', public: true },
+      { method: 'GET', path: '/api/posts/*', permission: 'posts:read' },
+      {
+        method: ['PUT', 'POST'],
+        path: '/api/posts/:id',
+        permission: 'posts:write',
+      },
+      { path: '/api/admin/*', permission: 'users:manage' },
+    ],
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function createApp(): SimpleExpress {
+    const api = new Router()
+      .use(jwtAuth({ secret, now }), rbac(policy))
+      .all('/:section/:id', (req, res) => res.send(`${req.user?.id} ok`))
+    return new SimpleExpress()
+      .get('/api/health', (_req, res) => res.send('ok'))
+      .use('/api', api)
+  }
+
+  async function call(
+    method: string,
+    url: string,
+    roles?: string[]
+  ): Promise<Response> {
+    const headers: Record<string, string> = {}
+    if (roles) {
+      headers.authorization = `Bearer ${signJwt({ sub: 'u1', roles }, secret, { expiresInSec: 60, now })}`
+    }
+    const res = createResponse()
+    await createApp().handle(createRequest(url, method, { headers }), res)
+    return res
+  }
+
+  it('角色继承展开权限，支持通配符，继承环不会死循环', () => {
+    expect(can(policy, ['editor'], 'posts:read')).toBe(true)
+    expect(can(policy, ['reader'], 'posts:write')).toBe(false)
+    expect(can(policy, ['admin'], 'users:manage')).toBe(true)
+    expect(
+      can(
+        { ...policy, roles: { ops: { permissions: ['users:*'] } } },
+        ['ops'],
+        'users:manage'
+      )
+    ).toBe(true)
+    expect(can(policy, ['unknown'], 'posts:read')).toBe(false)
+  })
+
+  it('令牌中的角色只匹配策略自身定义的字符串角色', async () => {
+    expect(can(policy, ['constructor', '__proto__'], 'posts:read')).toBe(false)
+    expect(can(policy, [1, ['reader']] as never, 'posts:read')).toBe(false)
+
+    const token = signJwt(
+      { sub: 'u1', roles: [{}, 'reader'] as string[] },
+      secret,
+      {
+        expiresInSec: 60,
+        now,
+      }
+    )
+    const res = createResponse()
+    await createApp().handle(
+      createRequest('/api/posts/1', 'GET', {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+      res
+    )
+    expect(res.body).toBe('u1 ok')
+  })
+
+  it('按规则放行或拒绝，401 / 403 响应体一致', async () => {
+    const noToken = await call('GET', '/api/posts/1')
+    const reader = await call('GET', '/api/posts/1', ['reader'])
+    const readerWrite = await call('PUT', '/api/posts/1', ['reader'])
+    const editorWrite = await call('PUT', '/api/posts/1', ['editor'])
+    const admin = await call('DELETE', '/api/admin/7', ['admin'])
+    const unmatched = await call('DELETE', '/api/posts/1', ['editor'])
+
+    expect(noToken.statusCode).toBe(401)
+    expect(noToken.body).toEqual({
+      error: 'Unauthorized',
+      reason: 'missing_token',
+    })
+    expect(noToken.headers['WWW-Authenticate']).toContain('Bearer')
+    expect(reader.body).toBe('u1 ok')
+    expect(readerWrite.statusCode).toBe(403)
+    expect(readerWrite.body).toEqual({
+      error: 'Forbidden',
+      reason: 'missing_permission',
+    })
+    expect(editorWrite.body).toBe('u1 ok')
+    expect(admin.body).toBe('u1 ok')
+    expect(unmatched.body).toEqual({
+      error: 'Forbidden',
+      reason: 'no_matching_rule',
+    })
+  })
+
+  it('无效令牌返回 401 并说明原因', async () => {
+    const expired = signJwt({ sub: 'u1', roles: ['admin'] }, secret, {
+      expiresInSec: 60,
+      now: () => NOW - 3_600_000,
+    })
+    const forged = signJwt({ sub: 'u1', roles: ['admin'] }, 'wrong', { now })
+    const noSubject = signJwt({ roles: ['admin'] }, secret, { now })
+
+    const results = []
+    for (const token of [expired, forged, noSubject, 'garbage']) {
+      const res = createResponse()
+      await createApp().handle(
+        createRequest('/api/posts/1', 'GET', {
+          headers: { authorization: `Bearer ${token}` },
+        }),
+        res
+      )
+      results.push([res.statusCode, res.body.reason])
+    }
+
+    expect(results).toEqual([
+      [401, 'token_expired'],
+      [401, 'invalid_signature'],
+      [401, 'invalid_claims'],
+      [401, 'malformed_token'],
+    ])
+  })
+
+  it('public 规则无需登录，fallback 可以改为放行', async () => {
+    const health = await call('GET', '/api/health')
+    const open = new SimpleExpress()
+      .use(rbac({ ...policy, fallback: 'allow' }))
+      .use((_req, res) => res.send('open'))
+    const res = createResponse()
+    await open.handle(createRequest('/elsewhere'), res)
+
+    expect(health.body).toBe('ok')
+    expect(res.body).toBe('open')
+  })
+})
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  createRequest,
+  createResponse,
+  Middleware,
+  Request,
+  Response,
+  SimpleExpress,
+} from '../src/patterns/behavioral/chain/examples/SimpleExpressMiddleware'
+import {
+  accessLog,
+  AccessLogEntry,
+  cors,
+  jsonBody,
+  rateLimit,
+  requestId,
+  urlencodedBody,
+} from '../src/patterns/behavioral/chain/examples/BuiltinMiddlewares'
+
+// 单独执行一个中间件，返回响应和 next 是否被调用
+async function run(
+  middleware: Middleware,
+  req: Request
+): Promise<{ res: Response; next: ReturnType<typeof vi.fn> }> {
+  const res = createResponse()
+  const next = vi.fn(async () => {})
+  await middleware(req, res, next)
+  return { res, next }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('cors', () => {
+  it('默认允许任意来源，非跨域请求不加响应头', async () => {
+    const cross = await run(
+      cors(),
+      createRequest('/', 'GET', { headers: { origin: 'https://a.com' } })
+    )
+    const local = await run(cors(), createRequest('/'))
+
+    expect(cross.res.headers['Access-Control-Allow-Origin']).toBe('*')
+    expect(cross.next).toHaveBeenCalledOnce()
+    expect(local.res.headers).toEqual({})
+  })
+
+  it('预检请求返回 204 并回显请求头，不继续执行', async () => {
+    const { res, next } = await run(
+      cors({ origin: ['https://a.com'], credentials: true, maxAge: 600 }),
+      createRequest('/', 'OPTIONS', {
+        headers: {
+          origin: 'https://a.com',
+          'access-control-request-method': 'PUT',
+          'access-control-request-headers': 'content-type, authorization',
+        },
+      })
+    )
+
+    expect(res.statusCode).toBe(204)
+    expect(next).not.toHaveBeenCalled()
+    expect(res.headers).toEqual({
+      'Access-Control-Allow-Origin': 'https://a.com',
+      'Access-Control-Allow-Credentials': 'true',
+      'Access-Control-Allow-Methods': 'GET, HEAD, PUT, PATCH, POST, DELETE',
+      'Access-Control-Allow-Headers': 'content-type, authorization',
+      'Access-Control-Max-Age': '600',
+      Vary: 'Origin',
+    })
+  })
+
+  it('不允许的来源不加响应头', async () => {
+    const { res, next } = await run(
+      cors({ origin: origin => origin.endsWith('.example.com') }),
+      createRequest('/', 'OPTIONS', {
+        headers: {
+          origin: 'https://evil.com',
+          'access-control-request-method': 'GET',
+        },
+      })
+    )
+
+    expect(res.headers).toEqual({})
+    expect(next).toHaveBeenCalledOnce()
+  })
+})
+
+describe('请求体解析', () => {
+  it('按 Content-Type 解析 JSON 和 urlencoded 请求体', async () => {
+    const json = createRequest('/', 'POST', {
+      headers: { 'content-type': 'application/vnd.api+json' },
+      rawBody: '{"a":1}',
+    })
+    const form = createRequest('/', 'POST', {
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: 'name=%E5%BC%A0%E4%B8%89&tag=a&tag=b',
+    })
+    const other = createRequest('/', 'POST', {
+      headers: { 'content-type': 'text/plain' },
+      rawBody: 'hi',
+      body: 'hi',
+    })
+
+    await run(jsonBody(), json)
+    await run(urlencodedBody(), form)
+    await run(jsonBody(), other)
+
+    expect(json.body).toEqual({ a: 1 })
+    expect(form.body).toEqual({ name: '张三', tag: 'b' })
+    expect(other.body).toBe('hi')
+  })
+
+  it('超过大小限制返回 413，格式错误返回 400', async () => {
+    const app = new SimpleExpress()
+      .use(jsonBody({ limit: 8 }))
+      .post('/', (req, res) => res.send(req.body))
+    const send = async (rawBody: string) => {
+      const res = createResponse()
+      await app.handle(
+        createRequest('/', 'POST', {
+          headers: { 'content-type': 'application/json' },
+          rawBody,
+        }),
+        res
+      )
+      return res
+    }
+
+    const tooLarge = await send('"中文超限"')
+    const invalid = await send('{bad')
+
+    expect(tooLarge.statusCode).toBe(413)
+    expect(tooLarge.body).toEqual({ error: 'Payload Too Large' })
+    expect(invalid.statusCode).toBe(400)
+    expect(invalid.body).toEqual({ error: 'Invalid JSON body' })
+  })
+})
+
+describe('rateLimit', () => {
+  it('每个客户端独立的令牌桶，按时间补充令牌', async () => {
+    let now = 0
+    const limiter = rateLimit({
+      capacity: 2,
+      refillPerSecond: 0.5,
+      now: () => now,
+    })
+    const from = (ip: string) => createRequest('/', 'GET', { ip })
+
+    const results: number[] = []
+    for (const ip of ['a', 'a', 'a', 'b']) {
+      results.push((await run(limiter, from(ip))).res.statusCode)
+    }
+    const limited = await run(limiter, from('a'))
+    now = 2000
+    const refilled = await run(limiter, from('a'))
+
+    expect(results).toEqual([200, 200, 429, 200])
+    expect(limited.next).not.toHaveBeenCalled()
+    expect(limited.res.headers).toMatchObject({
+      'Retry-After': '2',
+      'X-RateLimit-Limit': '2',
+      'X-RateLimit-Remaining': '0',
+    })
+    expect(refilled.res.statusCode).toBe(200)
+    expect(refilled.res.headers['X-RateLimit-Remaining']).toBe('0')
+  })
+
+  it('定期清理已经补满的令牌桶', async () => {
+    let now = 0
+    const store = new Map()
+    const limiter = rateLimit({
+      capacity: 2,
+      refillPerSecond: 1,
+      now: () => now,
+      store,
+    })
+    const from = (ip: string) => createRequest('/', 'GET', { ip })
+
+    for (const ip of ['a', 'b', 'c']) await run(limiter, from(ip))
+    now = 1500
+    await run(limiter, from('a'))
+    expect(store.size).toBe(3)
+
+    // 一个补满周期后，b 和 c 已经补满被清理，a 刚刚消耗过令牌仍然保留
+    now = 2000
+    await run(limiter, from('d'))
+    expect([...store.keys()]).toEqual(['a', 'd'])
+  })
+
+  it('可以自定义限流的键', async () => {
+    const limiter = rateLimit({
+      capacity: 1,
+      key: req => req.headers['x-api-key'] ?? 'anonymous',
+      now: () => 0,
+    })
+    const withKey = (key: string) =>
+      createRequest('/', 'GET', { headers: { 'x-api-key': key } })
+
+    expect((await run(limiter, withKey('k1'))).next).toHaveBeenCalled()
+    expect((await run(limiter, withKey('k2'))).next).toHaveBeenCalled()
+    expect((await run(limiter, withKey('k1'))).res.statusCode).toBe(429)
+  })
+})
+
+describe('requestId', () => {
+  it('沿用格式安全的上游 ID，否则生成新的', async () => {
+    const middleware = requestId({ generate: () => 'generated' })
+    const upstream = createRequest('/', 'GET', {
+      headers: { 'x-request-id': 'abc-123' },
+    })
+    const unsafe = createRequest('/', 'GET', {
+      headers: { 'x-request-id': 'bad id\r\nX-Evil: 1' },
+    })
+
+    const first = await run(middleware, upstream)
+    await run(middleware, unsafe)
+
+    expect(upstream.id).toBe('abc-123')
+    expect(first.res.headers['X-Request-Id']).toBe('abc-123')
+    expect(unsafe.id).toBe('generated')
+  })
+
+  it('默认生成 UUID', async () => {
+    const req = createRequest('/')
+    await run(requestId(), req)
+
+    expect(req.id).toMatch(/^[0-9a-f-]{36}$/)
+  })
+})
+
+describe('accessLog', () => {
+  it('在链结束后记录最终状态码、耗时和请求 ID', async () => {
+    const entries: AccessLogEntry[] = []
+    let now = Date.UTC(2026, 0, 1)
+    const app = new SimpleExpress()
+      .use(requestId({ generate: () => 'req-1' }))
+      .use(accessLog({ write: entry => entries.push(entry), now: () => now }))
+      .use('/api', (_req, res) => {
+        now += 15
+        res.status(201).send('created')
+      })
+
+    await app.handle(
+      createRequest('/api/items?x=1', 'POST', { ip: '10.0.0.1' }),
+      createResponse()
+    )
+    await app.handle(createRequest('/missing'), createResponse())
+
+    expect(entries).toEqual([
+      {
+        time: '2026-01-01T00:00:00.000Z',
+        id: 'req-1',
+        method: 'POST',
+        url: '/api/items?x=1',
+        status: 201,
+        durationMs: 15,
+        ip: '10.0.0.1',
+      },
+      expect.objectContaining({ url: '/missing', status: 404 }),
+    ])
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ChainBuilder,
+  ChainValidationError,
+} from '../src/patterns/behavioral/chain/ChainBuilder'
+import {
+  pass,
+  TraceEntry,
+} from '../src/patterns/behavioral/chain/UltraMinimalChain'
+
+const approval = () =>
+  new ChainBuilder<number, string>()
+    .add('teamLeader', days => (days <= 1 ? 'teamLeader' : undefined))
+    .add('director', days => (days <= 7 ? 'director' : undefined))
+
+function issuesOf(builder: ChainBuilder<number, string>) {
+  try {
+    builder.build()
+  } catch (err) {
+    if (err instanceof ChainValidationError) return err.issues
+    throw err
+  }
+  return []
+}
+
+describe('ChainBuilder', () => {
+  it('按名称插入、替换和删除处理器', () => {
+    const builder = approval()
+      .insertBefore('director', 'manager', days =>
+        days <= 3 ? 'manager' : undefined
+      )
+      .insertAfter('director', 'ceo', () => 'ceo')
+    const trace: TraceEntry[] = []
+
+    expect(builder.names()).toEqual([
+      'teamLeader',
+      'manager',
+      'director',
+      'ceo',
+    ])
+    expect(builder.build().handle(3, trace)).toBe('manager')
+    expect(trace.map(entry => entry.name)).toEqual(['teamLeader', 'manager'])
+
+    builder.replace('manager', () => pass()).remove('teamLeader')
+    expect(builder.names()).toEqual(['manager', 'director', 'ceo'])
+    expect(builder.build().resolve(1)).toMatchObject({ by: 'director' })
+  })
+
+  it('重复或不存在的名称立即报错', () => {
+    expect(() => approval().add('director', () => 'x')).toThrow(
+      'Handler "director" already exists'
+    )
+    expect(() => approval().insertAfter('cto', 'x', () => 'x')).toThrow(
+      'Unknown handler "cto"'
+    )
+    expect(() => approval().remove('cto')).toThrow('Unknown handler "cto"')
+  })
+
+  it('构建出的链不可修改，也不受构建器后续修改影响', () => {
+    const builder = approval()
+    const chain = builder.build()
+
+    builder.replace('director', () => 'replaced').add('ceo', () => 'ceo')
+
+    expect(chain.handle(5)).toBe('director')
+    expect(chain.names).toEqual(['teamLeader', 'director'])
+    expect(Object.isFrozen(chain)).toBe(true)
+    expect(Object.isFrozen(chain.names)).toBe(true)
+    expect(builder.build().handle(5)).toBe('replaced')
+  })
+
+  it('link 和 end 改变走向，构建时检测环和不可达的处理器', () => {
+    const skip = approval()
+      .add('ceo', () => 'ceo')
+      .link('teamLeader', 'ceo')
+    const cycle = approval()
+      .add('ceo', () => 'ceo')
+      .link('ceo', 'director')
+    const ended = approval()
+      .add('ceo', () => 'ceo')
+      .end('director')
+
+    expect(issuesOf(skip)).toEqual([
+      expect.objectContaining({ kind: 'unreachable', names: ['director'] }),
+    ])
+    expect(issuesOf(cycle)).toEqual([
+      expect.objectContaining({
+        kind: 'cycle',
+        names: ['director', 'ceo', 'director'],
+        message: 'Cycle detected: director -> ceo -> director',
+      }),
+    ])
+    expect(issuesOf(ended)).toEqual([
+      expect.objectContaining({ kind: 'unreachable', names: ['ceo'] }),
+    ])
+    expect(ended.remove('ceo').build().handle(10)).toBeUndefined()
+  })
+
+  it('报告指向已删除处理器的 link 和空链', () => {
+    const dangling = approval()
+      .add('ceo', () => 'ceo')
+      .link('teamLeader', 'ceo')
+      .remove('ceo')
+
+    expect(issuesOf(dangling).map(issue => issue.kind)).toEqual([
+      'unknown_next',
+      'unreachable',
+    ])
+    expect(issuesOf(new ChainBuilder())).toEqual([
+      { kind: 'empty', names: [], message: 'Chain has no handlers' },
+    ])
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  ContextMenu,
+  CopyCommand,
+  DocumentEditor,
+  NewDocumentCommand,
+  OpenDocumentCommand,
+  PasteCommand,
+  SaveDocumentCommand,
+  ToggleWordWrapCommand,
+  MenuCommandRegistry,
+  renderMenuJson,
+  renderMenuText,
+} from '../src/patterns/behavioral/command/ParameterizedCommands'
+import {
+  Keymap,
+  KeybindingDispatcher,
+} from '../src/patterns/behavioral/command/Keymap'
+
+function createMenu(editor: DocumentEditor): ContextMenu {
+  const menu = new ContextMenu()
+  menu.addMenuItem('新建文档', new NewDocumentCommand(editor))
+  menu.addMenuItem('保存文档', new SaveDocumentCommand(editor))
+  menu.addSeparator()
+  menu.addMenuItem('复制内容', new CopyCommand(editor))
+  menu.addMenuItem('粘贴内容', new PasteCommand(editor))
+  menu.addSeparator()
+  const recent = menu.addSubmenu('打开最近')
+  recent.addMenuItem(
+    'report.txt',
+    new OpenDocumentCommand(editor, 'report.txt')
+  )
+  menu
+    .addSubmenu('视图')
+    .addMenuItem('自动换行', new ToggleWordWrapCommand(editor))
+  return menu
+}
+
+describe('ContextMenu 状态与子菜单', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('按编辑器状态渲染文本菜单树', () => {
+    const menu = createMenu(new DocumentEditor())
+
+    expect(renderMenuText(menu.toTree()).split('\n')).toEqual([
+      '新建文档 (新建)',
+      '保存文档 (保存)（不可用：文档没有修改）',
+      '────────',
+      '复制内容 (复制)（不可用：文档为空）',
+      '粘贴内容 (粘贴)（不可用：剪贴板为空）',
+      '────────',
+      '打开最近 ▸',
+      '  report.txt (打开 report.txt)',
+      '视图 ▸',
+      '  [ ] 自动换行 (自动换行)',
+    ])
+  })
+
+  it('点击不可用的菜单项不执行，并返回原因', () => {
+    const editor = new DocumentEditor()
+    const menu = createMenu(editor)
+    const paste = vi.spyOn(editor, 'pasteText')
+
+    expect(menu.clickMenuItem(4)).toEqual({
+      status: 'disabled',
+      label: '粘贴内容',
+      reason: '剪贴板为空',
+    })
+    expect(paste).not.toHaveBeenCalled()
+    expect(menu.clickMenuItem(2)).toEqual({
+      status: 'invalid',
+      reason: '无效的菜单项索引',
+    })
+  })
+
+  it('状态随编辑器变化，通过路径点击子菜单项', () => {
+    const editor = new DocumentEditor()
+    const menu = createMenu(editor)
+
+    expect(menu.clickPath(['打开最近', 'report.txt']).status).toBe('executed')
+    expect(menu.clickMenuItem(3).status).toBe('executed')
+    expect(menu.clickMenuItem(4).status).toBe('executed')
+    expect(menu.clickMenuItem(1).status).toBe('executed')
+    menu.clickPath(['视图', '自动换行'])
+
+    const tree = menu.toTree()
+    expect(tree[1]).toMatchObject({ label: '保存文档', enabled: false })
+    expect(tree[4]).toMatchObject({ label: '粘贴内容', enabled: true })
+    expect(tree[7]).toMatchObject({
+      type: 'submenu',
+      items: [{ label: '自动换行', enabled: true, checked: true }],
+    })
+    expect(menu.clickPath(['视图', '不存在']).status).toBe('invalid')
+    expect(menu.clickPath(['视图']).status).toBe('invalid')
+  })
+
+  it('JSON 渲染保留完整的树结构，空子菜单不可用', () => {
+    const menu = new ContextMenu()
+    menu.addSubmenu('空菜单')
+    menu.addSeparator()
+
+    expect(JSON.parse(renderMenuJson(menu.toTree()))).toEqual([
+      { type: 'submenu', label: '空菜单', enabled: false, items: [] },
+      { type: 'separator' },
+    ])
+  })
+
+  it('快捷键同样不会执行不可用的命令', () => {
+    const editor = new DocumentEditor()
+    const registry = new MenuCommandRegistry().register(
+      'edit.paste',
+      new PasteCommand(editor)
+    )
+    const dispatcher = new KeybindingDispatcher(
+      new Keymap().bind('Ctrl+V', 'edit.paste'),
+      registry
+    )
+
+    expect(dispatcher.dispatch('Ctrl+V')).toEqual({
+      status: 'disabled',
+      keys: ['Ctrl+V'],
+      commandId: 'edit.paste',
+      reason: '剪贴板为空',
+    })
+  })
+})
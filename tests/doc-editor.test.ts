@@ -0,0 +1,613 @@
+import { describe, it, expect } from 'vitest'
+import {
+  Application,
+  Command,
+  CopyCommand,
+  CutCommand,
+  Editor,
+  MacroCommand,
+  PasteCommand,
+  SelectCommand,
+  TypeCommand,
+  UndoCommand,
+  commandUndoDemo,
+} from '../src/patterns/behavioral/command/DocEditor'
+import {
+  CommandLog,
+  createDefaultRegistry,
+} from '../src/patterns/behavioral/command/CommandLog'
+
+// vitest 以 --expose-gc 启动测试进程，测量前先回收垃圾，只比较仍然存活的内存
+const retainedHeap = () => {
+  globalThis.gc?.()
+  return process.memoryUsage().heapUsed
+}
+
+const type = (app: Application, editor: Editor, text: string) =>
+  app.executeCommand(new TypeCommand(app, editor, text))
+
+describe('DocEditor - 撤销 / 重做', () => {
+  it('commandUndoDemo 覆盖复制、剪切、粘贴、撤销、重做', () => {
+    expect(commandUndoDemo()).toBe(
+      'clipboard=World | text=Hello  | text=HelloWorld  | text=Hello  | text=HelloWorld '
+    )
+  })
+
+  it('撤销后可以重做，新命令会清空重做栈', () => {
+    const editor = new Editor('abc')
+    const app = new Application(editor)
+
+    editor.setSelection(0, 1)
+    app.executeCommand(new CutCommand(app, editor))
+    expect(editor.text).toBe('bc')
+    expect(app.canUndo()).toBe(true)
+    expect(app.canRedo()).toBe(false)
+
+    app.undo()
+    expect(editor.text).toBe('abc')
+    expect(app.canRedo()).toBe(true)
+
+    app.redo()
+    expect(editor.text).toBe('bc')
+
+    app.undo()
+    editor.setSelection(3, 3)
+    app.executeCommand(new PasteCommand(app, editor))
+    expect(editor.text).toBe('abca')
+    expect(app.canRedo()).toBe(false)
+  })
+
+  it('超过最大深度时丢弃最早的记录', () => {
+    const editor = new Editor('abcd')
+    const app = new Application(editor, { historyLimit: 2 })
+
+    for (let i = 0; i < 3; i++) {
+      editor.setSelection(0, 1)
+      app.executeCommand(new CutCommand(app, editor))
+    }
+    expect(editor.text).toBe('d')
+    expect(app.history.undoDepth).toBe(2)
+
+    app.undo()
+    app.undo()
+    expect(app.canUndo()).toBe(false)
+    expect(editor.text).toBe('bcd')
+  })
+
+  it('连续输入合并为一条历史', () => {
+    const editor = new Editor('Hi')
+    const app = new Application(editor)
+
+    editor.setSelection(2, 2)
+    type(app, editor, ' ')
+    type(app, editor, 'there')
+    expect(editor.text).toBe('Hi there')
+    expect(app.history.undoDepth).toBe(1)
+
+    app.undo()
+    expect(editor.text).toBe('Hi')
+    app.redo()
+    expect(editor.text).toBe('Hi there')
+  })
+
+  it('不连续的输入或撤销之后的输入不会合并', () => {
+    const editor = new Editor('ab')
+    const app = new Application(editor)
+
+    editor.setSelection(0, 0)
+    type(app, editor, 'x')
+    editor.setSelection(3, 3)
+    type(app, editor, 'y')
+    expect(app.history.undoDepth).toBe(2)
+
+    app.undo()
+    app.redo()
+    type(app, editor, 'z')
+    expect(editor.text).toBe('xabyz')
+    expect(app.history.undoDepth).toBe(3)
+  })
+})
+
+describe('DocEditor - 差异命令', () => {
+  it('撤销 / 重做恢复修改前后的选区', () => {
+    const editor = new Editor('Hello World')
+    const app = new Application(editor)
+
+    editor.setSelection(6, 11)
+    app.executeCommand(new CutCommand(app, editor))
+    editor.setSelection(0, 0)
+    app.executeCommand(new PasteCommand(app, editor))
+    expect(editor.text).toBe('WorldHello ')
+    expect(editor.getSelectionRange()).toEqual({ start: 0, end: 5 })
+
+    app.undo()
+    expect(editor.text).toBe('Hello ')
+    expect(editor.getSelectionRange()).toEqual({ start: 0, end: 0 })
+
+    app.undo()
+    expect(editor.text).toBe('Hello World')
+    expect(editor.getSelectionRange()).toEqual({ start: 6, end: 11 })
+
+    app.redo()
+    expect(editor.text).toBe('Hello ')
+    expect(editor.getSelectionRange()).toEqual({ start: 6, end: 6 })
+  })
+
+  it('输入替换选区后合并的差异可以完整撤销', () => {
+    const editor = new Editor('one two')
+    const app = new Application(editor)
+
+    editor.setSelection(4, 7)
+    type(app, editor, 'T')
+    editor.setSelection(5, 5)
+    type(app, editor, 'WO')
+    expect(editor.text).toBe('one TWO')
+    expect(app.history.undoDepth).toBe(1)
+
+    app.undo()
+    expect(editor.text).toBe('one two')
+    expect(editor.getSelectionRange()).toEqual({ start: 4, end: 7 })
+  })
+
+  it('在 1MB 文档上执行数千次编辑，内存不随文档大小增长', () => {
+    const size = 1024 * 1024
+    const edits = 2000
+    const editor = new Editor('x'.repeat(size))
+    const app = new Application(editor, { historyLimit: edits })
+
+    const heapBefore = retainedHeap()
+    for (let i = 0; i < edits; i++) {
+      const pos = (i * 7919) % size
+      editor.setSelection(pos, pos + 4)
+      if (i % 2 === 0) {
+        app.executeCommand(new CutCommand(app, editor))
+      } else {
+        app.executeCommand(new PasteCommand(app, editor))
+      }
+    }
+    const heapAfter = retainedHeap()
+
+    // 整文本备份需要 edits × 2MB（UTF-16）≈ 4GB，差异记录只需几百 KB
+    expect(app.history.undoDepth).toBe(edits)
+    expect(heapAfter - heapBefore).toBeLessThan(64 * 1024 * 1024)
+
+    while (app.canUndo()) app.undo()
+    expect(editor.text).toBe('x'.repeat(size))
+  })
+})
+
+describe('DocEditor - 宏命令与录制', () => {
+  class FailingCommand extends Command {
+    readonly type = 'fail'
+
+    execute(): boolean {
+      throw new Error('step failed')
+    }
+  }
+
+  it('宏命令整体执行、整体撤销', () => {
+    const editor = new Editor('Hello World')
+    const app = new Application(editor)
+
+    app.executeCommand(
+      new MacroCommand(app, editor, [
+        new SelectCommand(app, editor, 0, 5),
+        new CutCommand(app, editor),
+        new SelectCommand(app, editor, 1),
+        new PasteCommand(app, editor),
+      ])
+    )
+    expect(editor.text).toBe(' HelloWorld')
+    expect(app.history.undoDepth).toBe(1)
+
+    app.undo()
+    expect(editor.text).toBe('Hello World')
+    app.redo()
+    expect(editor.text).toBe(' HelloWorld')
+  })
+
+  it('某一步失败时回滚已生效的步骤并恢复剪贴板', () => {
+    const editor = new Editor('Hello World')
+    const app = new Application(editor)
+    app.clipboard = 'keep'
+    editor.setSelection(0, 5)
+
+    const macro = new MacroCommand(app, editor, [
+      new CutCommand(app, editor),
+      new TypeCommand(app, editor, 'Bye'),
+      new FailingCommand(app, editor),
+    ])
+
+    expect(() => app.executeCommand(macro)).toThrow('step failed')
+    expect(editor.text).toBe('Hello World')
+    expect(editor.getSelectionRange()).toEqual({ start: 0, end: 5 })
+    expect(app.clipboard).toBe('keep')
+    expect(app.canUndo()).toBe(false)
+  })
+
+  it('录制的命令可以回放到另一个编辑器', () => {
+    const source = new Editor('foo bar')
+    const app = new Application(source)
+
+    app.startRecording()
+    app.executeCommand(new SelectCommand(app, source, 0, 3))
+    app.executeCommand(new CopyCommand(app, source))
+    app.executeCommand(new SelectCommand(app, source, 7))
+    type(app, source, ' ')
+    app.executeCommand(new PasteCommand(app, source))
+    app.executeCommand(new UndoCommand(app, source))
+    const recorded = app.stopRecording()
+
+    expect(app.isRecording).toBe(false)
+    expect(recorded).toHaveLength(5)
+
+    const target = new Editor('foo qux')
+    const other = new Application(target)
+    other.replay(recorded, target)
+
+    expect(target.text).toBe('foo qux foo')
+    expect(other.clipboard).toBe('foo')
+
+    // 整段回放是一条历史，可以一次撤销
+    other.undo()
+    expect(target.text).toBe('foo qux')
+  })
+})
+
+describe('DocEditor - 命令日志', () => {
+  const runSession = () => {
+    const editor = new Editor('Hello World')
+    const log = new CommandLog({ text: editor.text, clipboard: '' })
+    const app = new Application(editor, { log })
+
+    editor.setSelection(6, 11)
+    app.executeCommand(new CopyCommand(app, editor))
+    app.executeCommand(new CutCommand(app, editor))
+    editor.setSelection(0, 0)
+    app.executeCommand(new PasteCommand(app, editor))
+    type(app, editor, '! ')
+    app.executeCommand(new UndoCommand(app, editor))
+    app.executeCommand(
+      new MacroCommand(app, editor, [
+        new SelectCommand(app, editor, 5),
+        new TypeCommand(app, editor, '~'),
+      ])
+    )
+    return { app, editor, log }
+  }
+
+  it('命令序列化为不含对象引用的 JSON 记录', () => {
+    const { editor, log } = runSession()
+
+    expect(log.entries.map(record => record.type)).toEqual([
+      'copy',
+      'cut',
+      'paste',
+      'type',
+      'undo',
+      'macro',
+    ])
+    expect(log.entries[1]).toEqual({
+      type: 'cut',
+      editor: editor.id,
+      selection: { start: 6, end: 11 },
+    })
+    expect(log.entries[3]).toEqual({
+      type: 'type',
+      editor: editor.id,
+      selection: { start: 0, end: 5 },
+      payload: { text: '! ' },
+    })
+  })
+
+  it('序列化后的日志回放出相同的文本和剪贴板', () => {
+    const { app, editor, log } = runSession()
+
+    const restored = CommandLog.parse(log.serialize())
+    const replayed = restored.replay()
+
+    expect(replayed.editor.text).toBe(editor.text)
+    expect(replayed.app.clipboard).toBe(app.clipboard)
+    expect(restored.size).toBe(log.size)
+  })
+
+  it('按编辑器 id 回放多编辑器会话，并沿用历史深度和剪贴板容量', () => {
+    const first = new Editor('one')
+    const log = new CommandLog({
+      text: first.text,
+      clipboard: '',
+      editor: first.id,
+      historyLimit: 1,
+      clipboardSize: 1,
+    })
+    const app = new Application(first, {
+      log,
+      historyLimit: 1,
+      clipboardSize: 1,
+    })
+    const second = app.openEditor()
+
+    type(app, second, 'a')
+    app.executeCommand(new SelectCommand(app, second, 0, 1))
+    app.executeCommand(new CopyCommand(app, second))
+    type(app, first, 'x')
+    first.setSelection(0, 0)
+    app.executeCommand(new PasteCommand(app, first))
+    app.executeCommand(new UndoCommand(app, first))
+    app.executeCommand(new UndoCommand(app, first))
+
+    const replayed = CommandLog.parse(log.serialize()).replay()
+    const [, replayedSecond] = replayed.app.editors
+
+    // 历史深度为 1，第二次撤销不会撤掉输入的 x
+    expect(first.text).toBe('xone')
+    expect(replayed.editor.text).toBe(first.text)
+    expect(replayedSecond.id).toBe(second.id)
+    expect(replayedSecond.text).toBe(second.text)
+    expect(replayed.app.clipboardRing.size).toBe(1)
+  })
+
+  it('记录编辑器的打开和关闭，回放时保留中途打开的编辑器的初始文本', () => {
+    const first = new Editor('one')
+    const log = new CommandLog({
+      text: first.text,
+      clipboard: '',
+      editor: first.id,
+    })
+    const app = new Application(first, { log })
+    const second = app.openEditor(new Editor('two'))
+
+    second.setSelection(3, 3)
+    type(app, second, '!')
+    app.closeEditor(first)
+    app.closeEditor(second)
+    const blank = app.activeEditor
+    type(app, blank, 'new')
+
+    expect(log.entries.map(record => record.type)).toEqual([
+      'open',
+      'type',
+      'close',
+      'close',
+      'open',
+      'type',
+    ])
+    expect(log.entries[0].payload).toEqual({ text: 'two' })
+
+    const replayed = CommandLog.parse(log.serialize()).replay()
+    expect(
+      replayed.app.editors.map(editor => [editor.id, editor.text])
+    ).toEqual([[blank.id, 'new']])
+  })
+
+  it('直接调用 app.undo / app.redo 也会写入日志并能回放', () => {
+    const editor = new Editor()
+    const log = new CommandLog({ text: '', clipboard: '' })
+    const app = new Application(editor, { log })
+
+    type(app, editor, 'abc')
+    app.undo()
+    app.redo()
+    app.undo()
+    type(app, editor, 'x')
+
+    expect(editor.text).toBe('x')
+    expect(log.entries.map(record => record.type)).toEqual([
+      'type',
+      'undo',
+      'redo',
+      'undo',
+      'type',
+    ])
+    expect(CommandLog.parse(log.serialize()).replay().editor.text).toBe('x')
+  })
+
+  it('未注册的命令类型或错误的参数会报错', () => {
+    const app = new Application()
+    const registry = createDefaultRegistry()
+    const selection = { start: 0, end: 0 }
+
+    expect(() =>
+      registry.create({ type: 'bold', selection }, app, app.activeEditor)
+    ).toThrow('Unknown command type: bold')
+    expect(() =>
+      registry.create(
+        { type: 'type', selection, payload: { text: 1 } },
+        app,
+        app.activeEditor
+      )
+    ).toThrow('Invalid payload "text" for command "type"')
+  })
+})
+
+describe('DocEditor - 多编辑器工作区', () => {
+  it('打开、切换、关闭编辑器', () => {
+    const app = new Application(new Editor('a'))
+    const first = app.activeEditor
+    const second = app.openEditor(new Editor('b'))
+
+    expect(app.editors).toEqual([first, second])
+    expect(app.activeEditor).toBe(second)
+
+    app.switchEditor(first)
+    expect(app.activeEditor).toBe(first)
+    expect(() => app.switchEditor(new Editor())).toThrow()
+
+    app.closeEditor()
+    expect(app.activeEditor).toBe(second)
+
+    app.closeEditor(second)
+    expect(app.editors).toHaveLength(1)
+    expect(app.activeEditor.text).toBe('')
+  })
+
+  it('每个编辑器有独立的历史，撤销只影响当前文档', () => {
+    const app = new Application(new Editor('one'))
+    const first = app.activeEditor
+    const second = app.openEditor(new Editor('two'))
+
+    first.setSelection(3, 3)
+    type(app, first, '!')
+    second.setSelection(3, 3)
+    type(app, second, '?')
+
+    app.undo()
+    expect(second.text).toBe('two')
+    expect(first.text).toBe('one!')
+    expect(app.canUndo()).toBe(false)
+
+    app.switchEditor(first)
+    expect(app.canUndo()).toBe(true)
+    app.executeCommand(new UndoCommand(app, first))
+    expect(first.text).toBe('one')
+  })
+
+  it('剪贴板环保留最近 N 条内容，粘贴时可以选择并循环', () => {
+    const editor = new Editor('a b c d')
+    const app = new Application(editor, { clipboardSize: 3 })
+
+    for (const pos of [0, 2, 4, 6]) {
+      editor.setSelection(pos, pos + 1)
+      app.executeCommand(new CopyCommand(app, editor))
+    }
+    expect(app.clipboardRing.toArray()).toEqual(['d', 'c', 'b'])
+
+    editor.setSelection(7, 7)
+    app.executeCommand(new PasteCommand(app, editor, 2))
+    expect(editor.text).toBe('a b c db')
+
+    expect(app.clipboardRing.rotate()).toBe('c')
+    app.executeCommand(new PasteCommand(app, editor))
+    expect(editor.text).toBe('a b c dc')
+  })
+})
+
+describe('DocEditor - 多光标', () => {
+  it('选区会被排序、限制范围并合并重叠部分', () => {
+    const editor = new Editor('0123456789')
+
+    editor.setSelections([
+      { start: 8, end: 20 },
+      { start: 1, end: 3 },
+      { start: 2, end: 5 },
+    ])
+    expect(editor.getSelections()).toEqual([
+      { start: 1, end: 5 },
+      { start: 8, end: 10 },
+    ])
+    expect(editor.getSelection()).toBe('1234\n89')
+  })
+
+  it('替换多个选区时后面的选区随长度变化平移', () => {
+    const editor = new Editor('a-b-c')
+    editor.setSelections([
+      { start: 0, end: 1 },
+      { start: 2, end: 3 },
+      { start: 4, end: 5 },
+    ])
+
+    editor.replaceSelection(['xx', '', 'yyy'])
+
+    expect(editor.text).toBe('xx--yyy')
+    expect(editor.getSelections()).toEqual([
+      { start: 0, end: 2 },
+      { start: 3, end: 3 },
+      { start: 4, end: 7 },
+    ])
+  })
+
+  it('剪切 / 粘贴按行分配到各个光标，撤销恢复所有光标', () => {
+    const editor = new Editor('one two three')
+    const app = new Application(editor)
+
+    editor.setSelections([
+      { start: 0, end: 3 },
+      { start: 8, end: 13 },
+    ])
+    app.executeCommand(new CutCommand(app, editor))
+    expect(app.clipboard).toBe('one\nthree')
+    expect(editor.text).toBe(' two ')
+
+    editor.setSelections([
+      { start: 0, end: 0 },
+      { start: 5, end: 5 },
+    ])
+    app.executeCommand(new PasteCommand(app, editor))
+    expect(editor.text).toBe('one two three')
+
+    app.undo()
+    expect(editor.text).toBe(' two ')
+    expect(editor.getSelections()).toEqual([
+      { start: 0, end: 0 },
+      { start: 5, end: 5 },
+    ])
+
+    app.undo()
+    expect(editor.text).toBe('one two three')
+    expect(editor.getSelections()).toEqual([
+      { start: 0, end: 3 },
+      { start: 8, end: 13 },
+    ])
+
+    app.redo()
+    app.redo()
+    expect(editor.text).toBe('one two three')
+  })
+
+  it('行数与光标数不一致时每个光标粘贴全部内容', () => {
+    const editor = new Editor('ab')
+    const app = new Application(editor)
+    app.clipboard = '-'
+
+    editor.setSelections([
+      { start: 0, end: 0 },
+      { start: 1, end: 1 },
+      { start: 2, end: 2 },
+    ])
+    app.executeCommand(new PasteCommand(app, editor))
+
+    expect(editor.text).toBe('-a-b-')
+  })
+
+  it('多光标连续输入合并为一条历史', () => {
+    const editor = new Editor('a\nb')
+    const app = new Application(editor)
+
+    editor.setSelections([
+      { start: 0, end: 0 },
+      { start: 2, end: 2 },
+    ])
+    type(app, editor, '- ')
+    type(app, editor, '[ ] ')
+    expect(editor.text).toBe('- [ ] a\n- [ ] b')
+    expect(app.history.undoDepth).toBe(1)
+    expect(editor.getSelections()).toEqual([
+      { start: 6, end: 6 },
+      { start: 14, end: 14 },
+    ])
+
+    app.undo()
+    expect(editor.text).toBe('a\nb')
+  })
+
+  it('多光标会话可以通过命令日志回放', () => {
+    const editor = new Editor('x y')
+    const log = new CommandLog({ text: editor.text, clipboard: '' })
+    const app = new Application(editor, { log })
+
+    editor.setSelections([
+      { start: 0, end: 1 },
+      { start: 2, end: 3 },
+    ])
+    app.executeCommand(new CopyCommand(app, editor))
+    editor.setSelections([
+      { start: 1, end: 1 },
+      { start: 3, end: 3 },
+    ])
+    app.executeCommand(new PasteCommand(app, editor))
+
+    const replayed = CommandLog.parse(log.serialize()).replay()
+    expect(editor.text).toBe('xx yy')
+    expect(replayed.editor.text).toBe(editor.text)
+  })
+})
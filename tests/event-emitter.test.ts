@@ -0,0 +1,326 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  EventEmitter,
+  matchEventPattern,
+} from '../src/patterns/behavioral/observer/EventEmitter'
+
+type AppEvents = {
+  'user.login': [id: number, name: string]
+  'user.logout': [id: number]
+  'order.created': [orderId: string]
+  'system.db.ready': []
+}
+
+describe('EventEmitter - 类型化事件', () => {
+  it('on / emit 按事件表传参', () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const calls: string[] = []
+
+    emitter.on('user.login', (id, name) => {
+      calls.push(`${id}:${name}`)
+    })
+    emitter.emit('user.login', 1, 'Alice')
+
+    expect(calls).toEqual(['1:Alice'])
+  })
+
+  it('once 只触发一次，off / removeAllListeners 行为不变', () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const calls: number[] = []
+    const listener = (id: number) => {
+      calls.push(id)
+    }
+
+    emitter.once('user.logout', listener)
+    emitter.emit('user.logout', 1)
+    emitter.emit('user.logout', 2)
+
+    emitter.on('user.logout', listener)
+    emitter.off('user.logout', listener)
+    emitter.emit('user.logout', 3)
+
+    emitter.on('user.logout', listener)
+    emitter.removeAllListeners('user.logout')
+    emitter.emit('user.logout', 4)
+
+    expect(calls).toEqual([1])
+  })
+
+  it('按优先级从高到低执行，同优先级保持注册顺序', () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const order: string[] = []
+
+    emitter.on('order.created', () => void order.push('a'))
+    emitter.on('order.created', () => void order.push('high'), {
+      priority: 10,
+    })
+    emitter.on('order.created', () => void order.push('b'))
+    emitter.on('order.created', () => void order.push('low'), {
+      priority: -1,
+    })
+    emitter.emit('order.created', 'o-1')
+
+    expect(order).toEqual(['high', 'a', 'b', 'low'])
+  })
+})
+
+describe('EventEmitter - 通配订阅', () => {
+  it('matchEventPattern 支持 * 与 **', () => {
+    expect(matchEventPattern('user.*', 'user.login')).toBe(true)
+    expect(matchEventPattern('user.*', 'user')).toBe(false)
+    expect(matchEventPattern('user.*', 'user.a.b')).toBe(false)
+    expect(matchEventPattern('**', 'system.db.ready')).toBe(true)
+    expect(matchEventPattern('system.**', 'system')).toBe(true)
+    expect(matchEventPattern('**.ready', 'system.db.ready')).toBe(true)
+  })
+
+  it('通配监听器收到实际事件名，并与精确订阅按优先级合并', () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const calls: string[] = []
+
+    emitter.on('user.login', () => void calls.push('exact'))
+    emitter.on('user.*', event => void calls.push(`user.*:${event}`), {
+      priority: 1,
+    })
+    emitter.on('**', event => void calls.push(`**:${event}`))
+
+    emitter.emit('user.login', 1, 'Alice')
+    emitter.emit('order.created', 'o-1')
+
+    expect(calls).toEqual([
+      'user.*:user.login',
+      'exact',
+      '**:user.login',
+      '**:order.created',
+    ])
+  })
+
+  it('off 可以移除通配监听器', () => {
+    const emitter = new EventEmitter<AppEvents>()
+    let count = 0
+    const listener = () => {
+      count++
+    }
+
+    emitter.on('user.*', listener)
+    emitter.emit('user.logout', 1)
+    emitter.off('user.*', listener)
+    emitter.emit('user.logout', 1)
+
+    expect(count).toBe(1)
+  })
+})
+
+describe('EventEmitter - 异步派发', () => {
+  const delay = (ms: number) =>
+    new Promise(resolve => globalThis.setTimeout(resolve, ms))
+
+  it('emitAsync 串行等待每个监听器', async () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const log: string[] = []
+
+    emitter.on('order.created', async () => {
+      log.push('a:start')
+      await delay(5)
+      log.push('a:end')
+    })
+    emitter.on('order.created', () => void log.push('b'))
+
+    await emitter.emitAsync('order.created', 'o-1')
+
+    expect(log).toEqual(['a:start', 'a:end', 'b'])
+  })
+
+  it('emitParallel 同时启动所有监听器', async () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const log: string[] = []
+
+    emitter.on('order.created', async () => {
+      log.push('a:start')
+      await delay(5)
+      log.push('a:end')
+    })
+    emitter.on('order.created', () => void log.push('b'))
+
+    await emitter.emitParallel('order.created', 'o-1')
+
+    expect(log).toEqual(['a:start', 'b', 'a:end'])
+  })
+})
+
+describe('EventEmitter - 错误隔离', () => {
+  const boom = new Error('boom')
+
+  it('rethrow（默认）：第一个错误立即抛出', () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const calls: string[] = []
+
+    emitter.on('order.created', () => {
+      throw boom
+    })
+    emitter.on('order.created', () => void calls.push('after'))
+
+    expect(() => emitter.emit('order.created', 'o-1')).toThrow(boom)
+    expect(calls).toEqual([])
+  })
+
+  it('collect：执行完所有监听器后抛出 AggregateError', async () => {
+    const emitter = new EventEmitter<AppEvents>({ errorPolicy: 'collect' })
+    const calls: string[] = []
+
+    emitter.on('order.created', () => {
+      throw boom
+    })
+    emitter.on('order.created', () => void calls.push('after'))
+
+    let caught: unknown
+    try {
+      emitter.emit('order.created', 'o-1')
+    } catch (error) {
+      caught = error
+    }
+    expect(caught).toBeInstanceOf(AggregateError)
+    expect((caught as AggregateError).errors).toEqual([boom])
+    expect(calls).toEqual(['after'])
+
+    emitter.on('order.created', async () => {
+      throw new Error('async boom')
+    })
+    await expect(
+      emitter.emitParallel('order.created', 'o-2')
+    ).rejects.toMatchObject({ errors: [boom, new Error('async boom')] })
+  })
+
+  it('emit：错误转发到 error 事件，其余监听器继续执行', async () => {
+    const emitter = new EventEmitter<AppEvents>({ errorPolicy: 'emit' })
+    const errors: string[] = []
+    const calls: string[] = []
+
+    emitter.on('error', (error, eventName) => {
+      errors.push(`${eventName}:${(error as Error).message}`)
+    })
+    emitter.on('order.created', async () => {
+      throw boom
+    })
+    emitter.on('order.created', () => void calls.push('after'))
+
+    await emitter.emitAsync('order.created', 'o-1')
+
+    expect(errors).toEqual(['order.created:boom'])
+    expect(calls).toEqual(['after'])
+  })
+
+  it('emit：没有 error 监听器时抛出原错误', () => {
+    const emitter = new EventEmitter<AppEvents>({ errorPolicy: 'emit' })
+    emitter.on('order.created', () => {
+      throw boom
+    })
+
+    expect(() => emitter.emit('order.created', 'o-1')).toThrow(boom)
+  })
+
+  it('emit：通配订阅不算 error 监听器', () => {
+    const emitter = new EventEmitter<AppEvents>({ errorPolicy: 'emit' })
+    emitter.on('**', () => {})
+    emitter.on('order.created', () => {
+      throw boom
+    })
+
+    expect(() => emitter.emit('order.created', 'o-1')).toThrow(boom)
+  })
+
+  it('抛错的 once 监听器也只触发一次', () => {
+    const emitter = new EventEmitter<AppEvents>({ errorPolicy: 'collect' })
+    const listener = vi.fn(() => {
+      throw boom
+    })
+    emitter.once('order.created', listener)
+
+    expect(() => emitter.emit('order.created', 'o-1')).toThrow(AggregateError)
+    emitter.emit('order.created', 'o-2')
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(emitter.listenerCount('order.created')).toBe(0)
+  })
+
+  it('同步 emit 时异步监听器的拒绝按错误策略处理', async () => {
+    const emitter = new EventEmitter<AppEvents>({ errorPolicy: 'emit' })
+    const errors: unknown[] = []
+    emitter.on('error', error => void errors.push(error))
+    emitter.on('order.created', async () => {
+      throw boom
+    })
+
+    emitter.emit('order.created', 'o-1')
+    await new Promise(resolve => globalThis.setTimeout(resolve, 0))
+    expect(errors).toEqual([boom])
+
+    // 无法抛给调用方时打印到 stderr，而不是成为未处理的拒绝
+    const report = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const rethrow = new EventEmitter<AppEvents>()
+    rethrow.on('order.created', async () => {
+      throw boom
+    })
+    rethrow.emit('order.created', 'o-1')
+    await new Promise(resolve => globalThis.setTimeout(resolve, 0))
+    expect(report).toHaveBeenCalledWith(boom)
+    report.mockRestore()
+  })
+})
+
+describe('EventEmitter - 监听器泄漏检测', () => {
+  it('超过上限时每个事件只警告一次', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const emitter = new EventEmitter<AppEvents>().setMaxListeners(2)
+
+    for (let i = 0; i < 4; i++) emitter.on('order.created', () => {})
+
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0][0]).toContain('3 "order.created" listeners')
+    warn.mockRestore()
+  })
+
+  it('maxListeners 为 0 表示不限制', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const emitter = new EventEmitter<AppEvents>({ maxListeners: 0 })
+
+    for (let i = 0; i < 20; i++) emitter.on('order.created', () => {})
+
+    expect(emitter.getMaxListeners()).toBe(0)
+    expect(emitter.listenerCount('order.created')).toBe(20)
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('setMaxListeners 拒绝非法值', () => {
+    expect(() => new EventEmitter().setMaxListeners(-1)).toThrow(RangeError)
+  })
+})
+
+describe('EventEmitter - AbortSignal', () => {
+  it('signal 中止后自动移除监听器', () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const controller = new globalThis.AbortController()
+    const calls: number[] = []
+
+    emitter.on('user.logout', id => void calls.push(id), {
+      signal: controller.signal,
+    })
+    emitter.emit('user.logout', 1)
+    controller.abort()
+    emitter.emit('user.logout', 2)
+
+    expect(calls).toEqual([1])
+    expect(emitter.listenerCount('user.logout')).toBe(0)
+  })
+
+  it('已经中止的 signal 不会注册监听器', () => {
+    const emitter = new EventEmitter<AppEvents>()
+    const controller = new globalThis.AbortController()
+    controller.abort()
+
+    emitter.once('user.*', () => {}, { signal: controller.signal })
+
+    expect(emitter.listenerCount('user.*')).toBe(0)
+  })
+})
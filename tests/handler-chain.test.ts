@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import {
+  AsyncHandler,
+  Handler,
+  pass,
+  TraceEntry,
+} from '../src/patterns/behavioral/chain/UltraMinimalChain'
+
+const decisions = (trace: TraceEntry[]) =>
+  trace.map(({ name, decision }) => `${name}:${decision}`)
+
+describe('Handler', () => {
+  it('默认兼容旧写法：返回 undefined 视为传递', () => {
+    const numbers = new Handler<unknown, string>(x =>
+      typeof x === 'number' ? `数字:${x}` : undefined
+    )
+    const strings = new Handler<unknown, string>(
+      x => (typeof x === 'string' ? `字符串:${x}` : pass()),
+      numbers
+    )
+
+    expect(strings.handle('你好')).toBe('字符串:你好')
+    expect(strings.handle(42)).toBe('数字:42')
+    expect(strings.handle(true)).toBeUndefined()
+  })
+
+  it('关闭 passOnUndefined 后 undefined 是合法结果，resolve 给出处理者', () => {
+    const fallback = new Handler<string, string | undefined>(
+      key => `default:${key}`,
+      undefined,
+      { name: 'fallback' }
+    )
+    const lookup = new Handler<string, string | undefined>(
+      key => (key === 'empty' ? undefined : pass()),
+      fallback,
+      { name: 'lookup', passOnUndefined: false }
+    )
+
+    expect(lookup.resolve('empty')).toEqual({
+      handled: true,
+      value: undefined,
+      by: 'lookup',
+    })
+    expect(lookup.resolve('other')).toEqual({
+      handled: true,
+      value: 'default:other',
+      by: 'fallback',
+    })
+    expect(new Handler(() => pass()).resolve('x')).toEqual({ handled: false })
+  })
+
+  it('传入 trace 时按顺序记录名称、决定和耗时', () => {
+    const chain = new Handler<number, string>(pass, undefined, {
+      name: 'a',
+    }).setNext(
+      new Handler<number, string>(n => (n > 1 ? 'b' : pass()), undefined, {
+        name: 'b',
+      })
+    )
+    const trace: TraceEntry[] = []
+
+    chain.handle(1, trace)
+    chain.handle(2, trace)
+
+    expect(decisions(trace)).toEqual([
+      'a:passed',
+      'b:passed',
+      'a:passed',
+      'b:handled',
+    ])
+    expect(trace.every(entry => entry.durationMs >= 0)).toBe(true)
+  })
+
+  it('处理器抛出异常时记录 threw 并继续抛出', () => {
+    const chain = new Handler<number, string>(
+      () => {
+        throw new Error('boom')
+      },
+      undefined,
+      { name: 'broken' }
+    )
+    const trace: TraceEntry[] = []
+
+    expect(() => chain.handle(1, trace)).toThrow('boom')
+    expect(decisions(trace)).toEqual(['broken:threw'])
+  })
+})
+
+describe('AsyncHandler', () => {
+  it('按顺序等待每个处理器的决定', async () => {
+    const calls: string[] = []
+    const remote = new AsyncHandler<string, string>(
+      async key => {
+        calls.push('remote')
+        return `remote:${key}`
+      },
+      undefined,
+      { name: 'remote' }
+    )
+    const cache = new AsyncHandler<string, string | undefined>(
+      async key => {
+        calls.push('cache')
+        await Promise.resolve()
+        return key === 'hit' ? undefined : pass()
+      },
+      remote,
+      { name: 'cache', passOnUndefined: false }
+    )
+    const trace: TraceEntry[] = []
+
+    expect(await cache.resolve('hit', trace)).toEqual({
+      handled: true,
+      value: undefined,
+      by: 'cache',
+    })
+    expect(await cache.handle('miss', trace)).toBe('remote:miss')
+    expect(calls).toEqual(['cache', 'cache', 'remote'])
+    expect(decisions(trace)).toEqual([
+      'cache:handled',
+      'cache:passed',
+      'remote:handled',
+    ])
+  })
+
+  it('异步异常会被记录并向上抛出', async () => {
+    const chain = new AsyncHandler<number, number>(
+      async () => {
+        throw new Error('timeout')
+      },
+      undefined,
+      { name: 'slow' }
+    )
+    const trace: TraceEntry[] = []
+
+    await expect(chain.handle(1, trace)).rejects.toThrow('timeout')
+    expect(decisions(trace)).toEqual(['slow:threw'])
+  })
+})
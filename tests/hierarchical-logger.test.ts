@@ -0,0 +1,284 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  consoleTransport,
+  jsonLinesFormatter,
+  LogManager,
+  logfmtFormatter,
+  LogRecord,
+  prettyFormatter,
+  RingBufferTransport,
+  rotatingFileTransport,
+} from '../src/patterns/behavioral/chain/examples/HierarchicalLogger'
+
+const NOW = Date.UTC(2026, 0, 1)
+
+function createLogs(level: 'debug' | 'info' = 'info') {
+  const buffer = new RingBufferTransport()
+  const logs = new LogManager({ level, now: () => NOW }).addTransport(
+    'buffer',
+    buffer
+  )
+  const seen = () =>
+    buffer.records().map(record => `${record.logger}:${record.message}`)
+  return { logs, buffer, seen }
+}
+
+const record: LogRecord = {
+  time: NOW,
+  level: 'warn',
+  logger: 'app.db',
+  message: 'slow query',
+  context: { ms: 1200, sql: 'select 1', err: new Error('timeout') },
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('Logger 层级', () => {
+  it('未设置级别时继承最近的上级，可以恢复继承', () => {
+    const { logs, seen } = createLogs()
+    logs.setLevel('app.db', 'debug').setLevel('app.http', 'silent')
+
+    logs.getLogger('app').debug('app debug')
+    logs.getLogger('app.db.pool').debug('pool debug')
+    logs.getLogger('app.http').error('http error')
+    logs.setLevel('app.db', undefined)
+    logs.getLogger('app.db.pool').debug('pool debug again')
+    logs.getLogger('app.db.pool').info('pool info')
+
+    expect(seen()).toEqual(['app.db.pool:pool debug', 'app.db.pool:pool info'])
+    expect(logs.effectiveLevel('app.http.client')).toBe('silent')
+    expect(logs.getLogger('app')).toBe(logs.getLogger('app'))
+  })
+
+  it('child 绑定上下文，调用时传入的字段优先', () => {
+    const { logs, buffer } = createLogs()
+    const request = logs
+      .getLogger('api')
+      .child({ requestId: 'r1', user: 'alice' })
+      .child({ user: 'bob' })
+
+    request.info('hello', { path: '/' })
+    request.info('override', { requestId: 'r2' })
+
+    expect(buffer.records().map(entry => entry.context)).toEqual([
+      { requestId: 'r1', user: 'bob', path: '/' },
+      { requestId: 'r2', user: 'bob' },
+    ])
+    expect(buffer.records()[0]).toMatchObject({
+      time: NOW,
+      level: 'info',
+      logger: 'api',
+    })
+  })
+})
+
+describe('输出链', () => {
+  it('按顺序分发给所有输出，支持级别、过滤和截断', () => {
+    const { logs, seen } = createLogs('debug')
+    const errors = new RingBufferTransport(10, 'error')
+    const audit = new RingBufferTransport()
+    logs.addTransport('errors', errors).addTransport(
+      'audit',
+      {
+        filter: entry => entry.logger === 'audit',
+        stop: true,
+        write: entry => audit.write(entry),
+      },
+      { before: 'buffer' }
+    )
+
+    logs.getLogger('app').debug('a')
+    logs.getLogger('app').error('b')
+    logs.getLogger('audit').error('c')
+
+    expect(logs.transportNames()).toEqual(['audit', 'buffer', 'errors'])
+    expect(seen()).toEqual(['app:a', 'app:b'])
+    expect(errors.records().map(entry => entry.message)).toEqual(['b'])
+    expect(audit.records().map(entry => entry.message)).toEqual(['c'])
+
+    logs.removeTransport('audit')
+    logs.getLogger('audit').info('d')
+    expect(seen()).toEqual(['app:a', 'app:b', 'audit:d'])
+  })
+
+  it('某个输出抛出异常时报告错误，链上的其他输出照常写入', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { logs, seen } = createLogs()
+    logs.addTransport(
+      'broken',
+      {
+        stop: true,
+        write: () => {
+          throw new Error('disk full')
+        },
+      },
+      { before: 'buffer' }
+    )
+
+    logs.getLogger('app').info('still logged')
+
+    expect(seen()).toEqual(['app:still logged'])
+    expect(error).toHaveBeenCalledWith(
+      '日志输出 "broken" 写入失败:',
+      expect.objectContaining({ message: 'disk full' })
+    )
+  })
+
+  it('环形缓冲区只保留最近的记录', () => {
+    const buffer = new RingBufferTransport(2)
+    const logs = new LogManager().addTransport('buffer', buffer)
+    for (const message of ['1', '2', '3']) logs.getLogger('x').info(message)
+
+    expect(buffer.records().map(entry => entry.message)).toEqual(['2', '3'])
+    buffer.clear()
+    expect(buffer.records()).toEqual([])
+  })
+
+  it('控制台输出按级别选择 console.log / console.error', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const logs = new LogManager({ now: () => NOW }).addTransport(
+      'console',
+      consoleTransport({ format: entry => entry.message })
+    )
+
+    logs.getLogger('x').info('ok')
+    logs.getLogger('x').error('bad')
+
+    expect(log).toHaveBeenCalledWith('ok')
+    expect(error).toHaveBeenCalledWith('bad')
+  })
+
+  it('文件输出超过大小后滚动，只保留 maxFiles 个历史文件', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'logger-'))
+    try {
+      const path = join(dir, 'app.log')
+      const logs = new LogManager({ now: () => NOW }).addTransport(
+        'file',
+        rotatingFileTransport({
+          path,
+          maxBytes: 20,
+          maxFiles: 2,
+          format: entry => entry.message,
+        })
+      )
+
+      // 每次写入后会超过 20 字节时滚动，第三次滚动时最旧的 first-line 被丢弃
+      for (const message of [
+        'first-line',
+        'second-line',
+        'third',
+        'fourth',
+        'a-much-longer-line',
+      ]) {
+        logs.getLogger('x').info(message)
+      }
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'app.log',
+        'app.log.1',
+        'app.log.2',
+      ])
+      expect(readFileSync(path, 'utf8')).toBe('a-much-longer-line\n')
+      expect(readFileSync(`${path}.1`, 'utf8')).toBe('fourth\n')
+      expect(readFileSync(`${path}.2`, 'utf8')).toBe('second-line\nthird\n')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('maxFiles 为 0 时超过大小清空文件，不保留历史文件', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'logger-'))
+    try {
+      const path = join(dir, 'app.log')
+      const logs = new LogManager({ now: () => NOW }).addTransport(
+        'file',
+        rotatingFileTransport({
+          path,
+          maxBytes: 20,
+          maxFiles: 0,
+          format: entry => entry.message,
+        })
+      )
+
+      for (const message of ['first-line', 'second-line', 'third']) {
+        logs.getLogger('x').info(message)
+      }
+
+      expect(readdirSync(dir)).toEqual(['app.log'])
+      expect(readFileSync(path, 'utf8')).toBe('second-line\nthird\n')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('文件输出创建时读取已有文件的大小', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'logger-'))
+    try {
+      const path = join(dir, 'app.log')
+      writeFileSync(path, 'x'.repeat(15))
+      const logs = new LogManager({ now: () => NOW }).addTransport(
+        'file',
+        rotatingFileTransport({
+          path,
+          maxBytes: 20,
+          format: entry => entry.message,
+        })
+      )
+
+      logs.getLogger('x').info('hello')
+
+      expect(readFileSync(`${path}.1`, 'utf8')).toBe('x'.repeat(15))
+      expect(readFileSync(path, 'utf8')).toBe('hello\n')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('格式', () => {
+  it('pretty / JSON Lines / logfmt', () => {
+    expect(prettyFormatter(record)).toBe(
+      '2026-01-01T00:00:00.000Z WARN  [app.db] slow query ms=1200 sql="select 1" err={"name":"Error","message":"timeout"}'
+    )
+    expect(JSON.parse(jsonLinesFormatter(record))).toEqual({
+      time: '2026-01-01T00:00:00.000Z',
+      level: 'warn',
+      logger: 'app.db',
+      msg: 'slow query',
+      ms: 1200,
+      sql: 'select 1',
+      err: { name: 'Error', message: 'timeout' },
+    })
+    expect(logfmtFormatter(record)).toBe(
+      'time=2026-01-01T00:00:00.000Z level=warn logger=app.db msg="slow query" ms=1200 sql="select 1" err="{\\"name\\":\\"Error\\",\\"message\\":\\"timeout\\"}"'
+    )
+  })
+
+  it('上下文中的同名字段不会覆盖核心字段', () => {
+    const spoofed = {
+      ...record,
+      context: { level: 'debug', msg: 'forged', user: 'amy' },
+    }
+
+    expect(logfmtFormatter(spoofed)).toBe(
+      'time=2026-01-01T00:00:00.000Z level=warn logger=app.db msg="slow query" user=amy'
+    )
+    expect(JSON.parse(jsonLinesFormatter(spoofed))).toMatchObject({
+      level: 'warn',
+      msg: 'slow query',
+      user: 'amy',
+    })
+  })
+})
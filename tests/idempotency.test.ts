@@ -0,0 +1,319 @@
+import { describe, it, expect } from 'vitest'
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  FileIdempotencyStore,
+  fingerprintOf,
+  Idempotency,
+  IdempotencyConflictError,
+  IdempotencyStoreError,
+  InMemoryIdempotencyStore,
+} from '../src/patterns/behavioral/strategy/Idempotency'
+import {
+  AsyncPaymentProcessor,
+  ExponentialBackoff,
+  PaymentProcessor,
+  PaymentRequest,
+  PSPClient,
+  RetryStrategy,
+  StrictRisk,
+} from '../src/patterns/behavioral/strategy/PaymentStrategy'
+import { paymentError } from '../src/patterns/behavioral/strategy/PaymentErrors'
+import {
+  formatPSPResult,
+  OneTimePayment,
+  PaymentContext,
+  PSPResult,
+  RefundPayment,
+  StripePSP,
+} from '../src/patterns/structural/bridge/PaymentBridge'
+
+const req: PaymentRequest = {
+  amount: 500,
+  currency: 'USD',
+  userId: 'u1',
+  idempotencyKey: 'order-1',
+}
+
+function countingClient() {
+  let calls = 0
+  const client: PSPClient = {
+    send: () => {
+      calls++
+      return true
+    },
+  }
+  return { client, calls: () => calls }
+}
+
+const noRetry: RetryStrategy = {
+  name: 'NoRetry',
+  shouldRetry: () => false,
+  delayMs: () => 0,
+}
+
+describe('Idempotency', () => {
+  it('同一个键只执行一次，返回第一次的结果', () => {
+    const idempotency = new Idempotency<number>()
+    let runs = 0
+
+    expect(idempotency.run('k', { a: 1 }, () => ++runs)).toBe(1)
+    expect(idempotency.run('k', { a: 1 }, () => ++runs)).toBe(1)
+    expect(idempotency.run('other', { a: 1 }, () => ++runs)).toBe(2)
+  })
+
+  it('同一个键携带不同内容时抛出冲突，字段顺序和幂等键本身不影响摘要', () => {
+    const idempotency = new Idempotency<string>()
+    idempotency.run('k', { a: 1, b: 2 }, () => 'first')
+
+    expect(idempotency.run('k', { b: 2, a: 1 }, () => 'second')).toBe('first')
+    expect(() => idempotency.run('k', { a: 2, b: 2 }, () => 'x')).toThrow(
+      IdempotencyConflictError
+    )
+    expect(fingerprintOf({ a: 1, idempotencyKey: 'x' })).toBe(
+      fingerprintOf({ a: 1 })
+    )
+  })
+
+  it('过期后重新执行，prune 清理过期记录', () => {
+    let now = 0
+    const store = new InMemoryIdempotencyStore<number>()
+    const idempotency = new Idempotency(store, { ttlMs: 100, now: () => now })
+    let runs = 0
+
+    idempotency.run('a', {}, () => ++runs)
+    now = 50
+    idempotency.run('b', {}, () => ++runs)
+    now = 100
+    // 过期后即使内容不同也不算冲突
+    expect(idempotency.run('a', { changed: true }, () => ++runs)).toBe(3)
+    now = 150
+    expect(idempotency.prune()).toBe(1)
+    expect(store.get('b')).toBeUndefined()
+    expect(store.get('a')).toBeDefined()
+  })
+
+  it('操作抛出异常时不记录，可以用同一个键重试', () => {
+    const idempotency = new Idempotency<string>()
+
+    expect(() =>
+      idempotency.run('k', {}, () => {
+        throw new Error('network')
+      })
+    ).toThrow('network')
+    expect(idempotency.run('k', {}, () => 'ok')).toBe('ok')
+  })
+
+  it('默认只不保存确定没有扣款的失败，shouldStore 可以自定义', () => {
+    const idempotency = new Idempotency<{ status: string; error?: object }>()
+    const limited = { status: 'failed', error: { category: 'rate_limited' } }
+    const timeout = { status: 'failed', error: { category: 'timeout' } }
+    const declined = {
+      status: 'declined',
+      error: { category: 'card_declined' },
+    }
+
+    expect(idempotency.run('a', {}, () => limited)).toEqual(limited)
+    expect(idempotency.run('a', {}, () => ({ status: 'succeeded' }))).toEqual({
+      status: 'succeeded',
+    })
+    for (const [key, result] of [
+      ['b', timeout],
+      ['c', declined],
+    ] as const) {
+      idempotency.run(key, {}, () => result)
+      expect(idempotency.run(key, {}, () => ({ status: 'succeeded' }))).toEqual(
+        result
+      )
+    }
+
+    const even = new Idempotency<number>(undefined, {
+      shouldStore: result => result % 2 === 0,
+    })
+    let runs = 0
+    even.run('k', {}, () => ++runs)
+    even.run('k', {}, () => ++runs)
+    expect(even.run('k', {}, () => ++runs)).toBe(2)
+  })
+
+  it('异步执行中的重复请求等待同一个结果', async () => {
+    const idempotency = new Idempotency<string>()
+    let runs = 0
+    let finish!: (value: string) => void
+    const operation = () => {
+      runs++
+      return new Promise<string>(resolve => (finish = resolve))
+    }
+
+    const first = idempotency.runAsync('k', { a: 1 }, operation)
+    const second = idempotency.runAsync('k', { a: 1 }, operation)
+    await expect(
+      idempotency.runAsync('k', { a: 2 }, operation)
+    ).rejects.toThrow(IdempotencyConflictError)
+    finish('done')
+
+    expect(await Promise.all([first, second])).toEqual(['done', 'done'])
+    expect(await idempotency.runAsync('k', { a: 1 }, operation)).toBe('done')
+    expect(runs).toBe(1)
+  })
+})
+
+describe('FileIdempotencyStore', () => {
+  it('记录保存在文件中，新实例可以读到', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'idempotency-'))
+    try {
+      const path = join(dir, 'keys.json')
+      let now = 0
+      const options = { ttlMs: 100, now: () => now }
+      new Idempotency(new FileIdempotencyStore<string>(path), options).run(
+        'k',
+        { a: 1 },
+        () => 'saved'
+      )
+
+      const reopened = new FileIdempotencyStore<string>(path)
+      const idempotency = new Idempotency(reopened, options)
+      expect(idempotency.run('k', { a: 1 }, () => 'again')).toBe('saved')
+      expect(JSON.parse(readFileSync(path, 'utf8')).k.expiresAt).toBe(100)
+
+      now = 100
+      expect(idempotency.prune()).toBe(1)
+      expect(readFileSync(path, 'utf8')).toBe('{}')
+      expect(readdirSync(dir)).toEqual(['keys.json'])
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('文件内容无法解析时报错，而不是当作空存储', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'idempotency-'))
+    try {
+      const path = join(dir, 'keys.json')
+      const store = new FileIdempotencyStore<string>(path)
+      writeFileSync(path, '{"k": ')
+      expect(() => store.get('k')).toThrow(IdempotencyStoreError)
+      writeFileSync(path, '[]')
+      expect(() => store.get('k')).toThrow('expected a JSON object')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('支付处理器幂等', () => {
+  it('PaymentProcessor 重试同一个键不会重复扣款', () => {
+    const { client, calls } = countingClient()
+    const processor = new PaymentProcessor(
+      client,
+      new StrictRisk(),
+      new ExponentialBackoff(),
+      { idempotency: new Idempotency() }
+    )
+
+    const first = processor.process(req)
+    expect(processor.process({ ...req })).toEqual(first)
+    expect(() => processor.process({ ...req, amount: 600 })).toThrow(
+      'Idempotency key "order-1" was reused with a different payload'
+    )
+    // 没有幂等键的请求照常处理
+    processor.process({ ...req, idempotencyKey: undefined })
+    expect(calls()).toBe(2)
+  })
+
+  it('渠道限流时不保存，同一个键重试时再次调用渠道', () => {
+    let calls = 0
+    const processor = new PaymentProcessor(
+      {
+        send: () =>
+          ++calls > 2
+            ? { ok: true }
+            : { ok: false, error: paymentError('rate_limited', 'slow down') },
+      },
+      new StrictRisk(),
+      noRetry,
+      { idempotency: new Idempotency() }
+    )
+
+    expect(processor.process(req).status).toBe('failed')
+    expect(processor.process(req).status).toBe('failed')
+    const succeeded = processor.process(req)
+    expect(succeeded.status).toBe('succeeded')
+    expect(processor.process(req)).toEqual(succeeded)
+    expect(calls).toBe(3)
+  })
+
+  it('超时等结果不确定的失败会保存，重试不会再次扣款', () => {
+    // 渠道实际已经扣款，但响应超时
+    let charges = 0
+    const processor = new PaymentProcessor(
+      {
+        send: () => {
+          charges++
+          return charges === 1
+            ? { ok: false, error: paymentError('timeout', 'no response') }
+            : { ok: true }
+        },
+      },
+      new StrictRisk(),
+      noRetry,
+      { idempotency: new Idempotency() }
+    )
+
+    const first = processor.process(req)
+    expect(first.error?.category).toBe('timeout')
+    expect(processor.process(req)).toEqual(first)
+    expect(charges).toBe(1)
+  })
+
+  it('AsyncPaymentProcessor 并发重试只调用一次渠道', async () => {
+    const { client, calls } = countingClient()
+    const processor = new AsyncPaymentProcessor(
+      client,
+      new StrictRisk(),
+      new ExponentialBackoff(),
+      { idempotency: new Idempotency() }
+    )
+
+    const results = await Promise.all([
+      processor.process(req),
+      processor.process(req),
+    ])
+    expect(results[0].status).toBe('succeeded')
+    expect(results[1]).toBe(results[0])
+    expect(calls()).toBe(1)
+  })
+
+  it('OneTimePayment 重复执行返回原结果，同一个键不能用于退款', () => {
+    class CountingStripe extends StripePSP {
+      charges = 0
+      charge(ctx: PaymentContext): PSPResult {
+        this.charges++
+        return super.charge(ctx)
+      }
+    }
+    const psp = new CountingStripe()
+    const idempotency = new Idempotency<PSPResult>()
+    const ctx: PaymentContext = {
+      amount: 99,
+      currency: 'USD',
+      userId: 'u1',
+      idempotencyKey: 'pay-1',
+    }
+    const payment = new OneTimePayment(psp, { idempotency })
+
+    const first = payment.execute(ctx)
+    expect(formatPSPResult(first)).toBe('Stripe charge: 99 USD for u1')
+    expect(payment.execute(ctx)).toEqual(first)
+    expect(psp.charges).toBe(1)
+    expect(() => new RefundPayment(psp, { idempotency }).execute(ctx)).toThrow(
+      IdempotencyConflictError
+    )
+  })
+})
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  ContextMenu,
+  MenuCommand,
+  MenuCommandRegistry,
+} from '../src/patterns/behavioral/command/ParameterizedCommands'
+import {
+  evaluateWhen,
+  Keymap,
+  KeybindingDispatcher,
+  normalizeKeystroke,
+  parseKeySequence,
+} from '../src/patterns/behavioral/command/Keymap'
+import {
+  CommandPalette,
+  fuzzyMatch,
+} from '../src/patterns/behavioral/command/CommandPalette'
+
+const executed: string[] = []
+
+const command = (id: string, description: string): MenuCommand => ({
+  execute: () => executed.push(id),
+  getDescription: () => description,
+})
+
+function createRegistry(): MenuCommandRegistry {
+  return new MenuCommandRegistry()
+    .register('file.new', command('file.new', '新建'))
+    .register('file.save', command('file.save', 'Save File'))
+    .register('file.saveAll', command('file.saveAll', 'Save All Files'))
+    .register('edit.copy', command('edit.copy', 'Copy'))
+    .register('view.palette', command('view.palette', 'Show Command Palette'))
+}
+
+beforeEach(() => {
+  executed.length = 0
+})
+
+describe('按键解析', () => {
+  it('规范化修饰键顺序和大小写', () => {
+    expect(normalizeKeystroke('shift+ctrl+p')).toBe('Ctrl+Shift+P')
+    expect(normalizeKeystroke('Cmd+enter')).toBe('Meta+Enter')
+    expect(parseKeySequence('ctrl+k  ctrl+s')).toEqual(['Ctrl+K', 'Ctrl+S'])
+  })
+
+  it('缺少按键或包含多个按键时抛错', () => {
+    expect(() => normalizeKeystroke('Ctrl+Shift')).toThrow('missing key')
+    expect(() => normalizeKeystroke('Ctrl+A+B')).toThrow('more than one key')
+    expect(() => parseKeySequence('  ')).toThrow('Empty key sequence')
+  })
+
+  it('when 条件支持 && / || / !', () => {
+    const context = { editorFocus: true, readOnly: false }
+    expect(evaluateWhen(undefined, context)).toBe(true)
+    expect(evaluateWhen('editorFocus && !readOnly', context)).toBe(true)
+    expect(evaluateWhen('readOnly || terminalFocus', context)).toBe(false)
+    expect(evaluateWhen('readOnly || editorFocus', context)).toBe(true)
+  })
+})
+
+describe('KeybindingDispatcher', () => {
+  it('组合键先进入等待状态，序列完整后执行命令', () => {
+    const registry = createRegistry()
+    const keymap = new Keymap()
+      .bind('Ctrl+S', 'file.save')
+      .bind('Ctrl+K Ctrl+S', 'file.saveAll')
+    const dispatcher = new KeybindingDispatcher(keymap, registry)
+
+    expect(dispatcher.dispatch('ctrl+k')).toEqual({
+      status: 'pending',
+      keys: ['Ctrl+K'],
+    })
+    expect(dispatcher.dispatch('ctrl+s')).toEqual({
+      status: 'executed',
+      keys: ['Ctrl+K', 'Ctrl+S'],
+      commandId: 'file.saveAll',
+    })
+    dispatcher.dispatch('Ctrl+S')
+
+    expect(executed).toEqual(['file.saveAll', 'file.save'])
+    expect(dispatcher.pendingKeys).toEqual([])
+  })
+
+  it('组合键中途按错时放弃整个序列', () => {
+    const keymap = new Keymap().bind('Ctrl+K Ctrl+S', 'file.saveAll')
+    const dispatcher = new KeybindingDispatcher(keymap, createRegistry())
+
+    dispatcher.dispatch('Ctrl+K')
+    expect(dispatcher.dispatch('X')).toEqual({
+      status: 'unbound',
+      keys: ['Ctrl+K', 'X'],
+    })
+    expect(dispatcher.dispatch('Ctrl+S').status).toBe('unbound')
+    expect(executed).toEqual([])
+  })
+
+  it('只在满足 when 条件的上下文中生效，后绑定的优先', () => {
+    const keymap = new Keymap()
+      .bind('Ctrl+C', 'edit.copy', 'editorFocus')
+      .bind('Ctrl+C', 'file.new', 'editorFocus && readOnly')
+    const dispatcher = new KeybindingDispatcher(keymap, createRegistry())
+
+    expect(dispatcher.dispatch('Ctrl+C').status).toBe('unbound')
+    dispatcher.dispatch('Ctrl+C', { editorFocus: true })
+    dispatcher.dispatch('Ctrl+C', { editorFocus: true, readOnly: true })
+
+    expect(executed).toEqual(['edit.copy', 'file.new'])
+  })
+
+  it('报告相同上下文中的重复绑定和前缀冲突', () => {
+    const keymap = new Keymap()
+      .bind('Ctrl+S', 'file.save')
+      .bind('ctrl+s', 'file.saveAll')
+      .bind('Ctrl+K', 'file.new', 'a && b')
+      .bind('Ctrl+K Ctrl+C', 'edit.copy', 'b&&a')
+      .bind('Ctrl+K Ctrl+S', 'file.saveAll')
+
+    const conflicts = keymap.getConflicts()
+
+    expect(
+      conflicts.map(c => ({
+        kind: c.kind,
+        keys: c.keys,
+        commands: c.bindings.map(b => b.commandId),
+      }))
+    ).toEqual([
+      {
+        kind: 'duplicate',
+        keys: 'Ctrl+S',
+        commands: ['file.save', 'file.saveAll'],
+      },
+      { kind: 'prefix', keys: 'Ctrl+K', commands: ['file.new', 'edit.copy'] },
+    ])
+
+    keymap.unbind('Ctrl+S', 'file.saveAll')
+    keymap.unbind('Ctrl+K')
+    expect(keymap.getConflicts()).toEqual([])
+  })
+})
+
+describe('CommandPalette', () => {
+  it('模糊搜索描述，连续命中和单词开头排在前面', () => {
+    const keymap = new Keymap().bind('Ctrl+S', 'file.save')
+    const palette = new CommandPalette(createRegistry(), keymap)
+
+    const results = palette.search('sf')
+
+    expect(results.map(item => item.id)).toEqual(['file.save', 'file.saveAll'])
+    expect(results[0]).toMatchObject({
+      description: 'Save File',
+      keybinding: 'Ctrl+S',
+      matches: [0, 5],
+    })
+  })
+
+  it('描述不匹配时按命令 id 搜索，run 执行排名第一的命令', () => {
+    const palette = new CommandPalette(createRegistry())
+
+    expect(palette.search('filenew').map(item => item.id)).toEqual(['file.new'])
+    expect(palette.run('cmdpal')?.id).toBe('view.palette')
+    expect(palette.run('zzz')).toBeUndefined()
+    expect(executed).toEqual(['view.palette'])
+  })
+
+  it('结果标出不可用的命令，run 不执行不可用的命令', () => {
+    const registry = createRegistry().register('file.close', {
+      ...command('file.close', 'Close File'),
+      isEnabled: () => false,
+      getDisabledReason: () => '没有打开的文件',
+    })
+    const palette = new CommandPalette(registry)
+
+    expect(palette.search('close')[0]).toMatchObject({
+      id: 'file.close',
+      enabled: false,
+      reason: '没有打开的文件',
+    })
+    expect(palette.search('copy')[0].enabled).toBe(true)
+    expect(palette.run('close')).toMatchObject({ enabled: false })
+    expect(registry.execute('file.close')).toBe(false)
+    expect(registry.execute('edit.copy')).toBe(true)
+    expect(executed).toEqual(['edit.copy'])
+  })
+
+  it('fuzzyMatch 不是子序列时返回 null', () => {
+    expect(fuzzyMatch('fs', 'Save File')).toBeNull()
+    expect(fuzzyMatch('', 'anything')).toEqual({ score: 0, matches: [] })
+  })
+})
+
+describe('MenuCommandRegistry', () => {
+  it('菜单、快捷键和命令面板共用同一个注册表', () => {
+    const registry = createRegistry()
+    const menu = new ContextMenu()
+    menu.addRegisteredItem(registry, 'edit.copy')
+    const dispatcher = new KeybindingDispatcher(
+      new Keymap().bind('Ctrl+C', 'edit.copy'),
+      registry
+    )
+
+    dispatcher.dispatch('Ctrl+C')
+    new CommandPalette(registry).run('copy')
+
+    expect(executed).toEqual(['edit.copy', 'edit.copy'])
+    expect(() => registry.register('edit.copy', command('x', 'x'))).toThrow(
+      'already registered'
+    )
+    expect(() => registry.execute('missing')).toThrow('Unknown command')
+    expect(() => menu.addRegisteredItem(registry, 'missing')).toThrow(
+      'Unknown command'
+    )
+  })
+})
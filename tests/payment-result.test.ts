@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { getEventListeners } from 'node:events'
+import {
+  AsyncPaymentProcessor,
+  CircuitBreaker,
+  ExponentialBackoff,
+  FixedIntervalRetry,
+  formatPaymentResult,
+  PaymentProcessor,
+  PaymentRequest,
+  PSPClient,
+  PSPResponse,
+  StrictRisk,
+  systemClock,
+} from '../src/patterns/behavioral/strategy/PaymentStrategy'
+import {
+  applePayErrors,
+  normalizeError,
+  payPalErrors,
+  stripeErrors,
+} from '../src/patterns/behavioral/strategy/PaymentErrors'
+import {
+  ApplePayPSP,
+  formatPSPResult,
+  OneTimePayment,
+  PaymentContext,
+  PayPalPSP,
+  StripePSP,
+} from '../src/patterns/structural/bridge/PaymentBridge'
+import { DefaultPSPConfigBuilder } from '../src/patterns/structural/bridge/PSPConfigBuilder'
+
+const usd: PaymentRequest = { amount: 500, currency: 'USD', userId: 'u1' }
+
+// 按顺序返回 Stripe 错误码，用完后成功
+function stripeClient(codes: string[]): PSPClient {
+  return {
+    send: (): PSPResponse => {
+      const code = codes.shift()
+      return code
+        ? { ok: false, error: normalizeError('Stripe', stripeErrors, code) }
+        : { ok: true, transactionId: 'ch_123' }
+    },
+  }
+}
+
+// 每次读取时间前进 5 毫秒
+function ticking() {
+  let time = 1000
+  return () => (time += 5)
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('PaymentErrors', () => {
+  it('把各渠道的错误码映射到统一分类', () => {
+    expect(
+      normalizeError('Stripe', stripeErrors, 'insufficient_funds')
+    ).toEqual({
+      category: 'insufficient_funds',
+      retryable: false,
+      message: 'Stripe error: insufficient_funds',
+      provider: 'Stripe',
+      providerCode: 'insufficient_funds',
+    })
+    expect(
+      normalizeError('PayPal', payPalErrors, 'INSTRUMENT_DECLINED').category
+    ).toBe('card_declined')
+    expect(
+      normalizeError('ApplePay', applePayErrors, 'tooManyRequests')
+    ).toMatchObject({ category: 'rate_limited', retryable: true })
+    expect(
+      normalizeError('PayPal', payPalErrors, 'SOMETHING_NEW')
+    ).toMatchObject({
+      category: 'unknown',
+      retryable: true,
+      providerCode: 'SOMETHING_NEW',
+    })
+  })
+})
+
+describe('PaymentProcessor 结构化结果', () => {
+  it('成功时给出交易号和每次尝试的耗时', () => {
+    const processor = new PaymentProcessor(
+      stripeClient(['rate_limit']),
+      new StrictRisk(),
+      new ExponentialBackoff(),
+      { now: ticking() }
+    )
+
+    const result = processor.process(usd)
+
+    expect(result).toMatchObject({
+      status: 'succeeded',
+      transactionId: 'ch_123',
+      strategies: { risk: 'StrictRisk', retry: 'ExponentialBackoff' },
+      risk: { action: 'allow' },
+    })
+    expect(result.attempts).toEqual([
+      {
+        attempt: 1,
+        outcome: 'fail',
+        startedAt: 1005,
+        durationMs: 5,
+        error: expect.objectContaining({ category: 'rate_limited' }),
+        waitMs: 200,
+      },
+      {
+        attempt: 2,
+        outcome: 'success',
+        startedAt: 1015,
+        durationMs: 5,
+        error: undefined,
+      },
+    ])
+  })
+
+  it('拒付不再重试，给出渠道原始错误码', () => {
+    const processor = new PaymentProcessor(
+      stripeClient(['card_declined']),
+      new StrictRisk(),
+      new ExponentialBackoff()
+    )
+
+    const result = processor.process(usd)
+
+    expect(result).toMatchObject({
+      status: 'declined',
+      declineCode: 'card_declined',
+      error: { category: 'card_declined', retryable: false },
+    })
+    expect(result.attempts).toHaveLength(1)
+    expect(formatPaymentResult(result)).toBe(
+      'Risk(StrictRisk) & Retry(ExponentialBackoff) | attempt#1 -> declined | final=declined'
+    )
+  })
+
+  it('需要付款人操作时为 pending，重试耗尽为 failed', () => {
+    const pending = new PaymentProcessor(
+      stripeClient(['authentication_required']),
+      new StrictRisk(),
+      new ExponentialBackoff()
+    ).process(usd)
+    const failed = new PaymentProcessor(
+      { send: () => false },
+      new StrictRisk(),
+      new FixedIntervalRetry()
+    ).process(usd)
+
+    expect(pending).toMatchObject({
+      status: 'pending',
+      error: { category: 'action_required' },
+    })
+    expect(pending.declineCode).toBeUndefined()
+    expect(failed).toMatchObject({
+      status: 'failed',
+      error: { category: 'unknown' },
+    })
+    expect(failed.attempts.map(attempt => attempt.outcome)).toEqual([
+      'fail',
+      'fail',
+    ])
+  })
+
+  it('风控 review 为 pending，拒绝为 declined 并带上原因', () => {
+    const processor = new PaymentProcessor(
+      stripeClient([]),
+      new StrictRisk(),
+      new ExponentialBackoff()
+    )
+
+    expect(processor.process({ ...usd, amount: 5000 })).toMatchObject({
+      status: 'declined',
+      error: {
+        category: 'risk_denied',
+        retryable: false,
+        message: 'denied by StrictRisk',
+      },
+      attempts: [],
+    })
+    const review = new PaymentProcessor(
+      stripeClient([]),
+      {
+        name: 'Manual',
+        allow: () => false,
+        evaluate: () => ({ action: 'review', score: 60, reasons: [] }),
+      },
+      new ExponentialBackoff()
+    ).process(usd)
+    expect(review.status).toBe('pending')
+    expect(review.error).toBeUndefined()
+  })
+})
+
+describe('AsyncPaymentProcessor 结构化结果', () => {
+  it('超时和熔断归入统一分类，拒付不计入熔断', async () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker({ failureThreshold: 1 })
+    const declined = new AsyncPaymentProcessor(
+      stripeClient(['expired_card']),
+      new StrictRisk(),
+      new ExponentialBackoff(),
+      { breaker }
+    )
+    expect(await declined.process(usd)).toMatchObject({
+      status: 'declined',
+      declineCode: 'expired_card',
+    })
+    expect(breaker.state).toBe('closed')
+
+    const slow = new AsyncPaymentProcessor(
+      { send: () => new Promise<boolean>(() => {}) },
+      new StrictRisk(),
+      new ExponentialBackoff(),
+      { breaker, timeoutMs: 100 }
+    )
+    const pending = slow.process(usd)
+    await vi.runAllTimersAsync()
+    const result = await pending
+
+    // 熔断器在这次超时后打开：返回超时本身的错误，只标记熔断已打开
+    expect(result).toMatchObject({
+      status: 'failed',
+      error: { category: 'timeout', retryable: true },
+      circuitOpened: true,
+    })
+    expect(result.attempts).toEqual([
+      expect.objectContaining({
+        outcome: 'timeout',
+        durationMs: 100,
+        error: expect.objectContaining({ category: 'timeout' }),
+      }),
+    ])
+  })
+})
+
+describe('systemClock', () => {
+  it('正常到时后移除 abort 监听，已中止的 signal 立即返回', async () => {
+    vi.useFakeTimers()
+    const controller = new globalThis.AbortController()
+
+    const sleeping = systemClock.sleep(100, controller.signal)
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(100)
+    await sleeping
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0)
+
+    controller.abort()
+    await systemClock.sleep(100, controller.signal)
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
+
+describe('桥接渠道结构化结果', () => {
+  const ctx: PaymentContext = { amount: 99, currency: 'USD', userId: 'u1' }
+
+  it('成功时返回带渠道前缀的交易号', () => {
+    const psp = new StripePSP({ generateId: () => 'abc' })
+
+    expect(new OneTimePayment(psp).execute(ctx)).toEqual({
+      status: 'succeeded',
+      provider: 'Stripe',
+      operation: 'charge',
+      amount: 99,
+      currency: 'USD',
+      userId: 'u1',
+      planId: undefined,
+      transactionId: 'ch_abc',
+    })
+    expect(psp.subscribe(ctx, 'pro').transactionId).toBe('sub_abc')
+  })
+
+  it('按各渠道的错误码得出状态', () => {
+    const paypal = new PayPalPSP({
+      simulateError: (_ctx, operation) =>
+        operation === 'charge' ? 'PAYER_ACTION_REQUIRED' : 'INSUFFICIENT_FUNDS',
+      generateId: () => '1',
+    })
+    const apple = new ApplePayPSP({ simulateError: () => 'serviceUnavailable' })
+
+    expect(paypal.charge(ctx)).toMatchObject({
+      status: 'pending',
+      transactionId: 'PAY-1',
+      error: { category: 'action_required' },
+    })
+    const refund = paypal.refund(ctx)
+    expect(refund).toMatchObject({
+      status: 'declined',
+      declineCode: 'INSUFFICIENT_FUNDS',
+    })
+    expect(refund.transactionId).toBeUndefined()
+    expect(formatPSPResult(refund)).toBe(
+      'PayPal refund: 99 USD to u1 -> declined(INSUFFICIENT_FUNDS)'
+    )
+    expect(apple.charge(ctx)).toMatchObject({
+      status: 'failed',
+      error: { category: 'provider_unavailable', retryable: true },
+    })
+  })
+
+  it('ConfiguredPSP 把配置摘要作为附加说明', () => {
+    const builder = new DefaultPSPConfigBuilder()
+    builder.setLabel('test')
+    const result = builder.getProduct().charge(ctx)
+
+    expect(result.status).toBe('succeeded')
+    expect(formatPSPResult(result)).toBe(
+      'Stripe charge: 99 USD for u1 [env=sandbox, risk=relaxed, retry=0x/0ms, key=none, label=test]'
+    )
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  AsyncPaymentProcessor,
+  AsyncPSPClient,
+  CircuitBreaker,
+  ExponentialBackoff,
+  FixedIntervalRetry,
+  formatPaymentResult,
+  JitteredRetry,
+  PaymentRequest,
+  RelaxedRisk,
+  StrictRisk,
+} from '../src/patterns/behavioral/strategy/PaymentStrategy'
+
+const usd: PaymentRequest = { amount: 500, currency: 'USD', userId: 'u1' }
+
+// 按顺序返回预设结果的客户端：数字表示多少毫秒后成功，false 表示失败，Error 表示抛出
+function scriptedClient(script: (number | false | Error)[]) {
+  const aborted: number[] = []
+  let calls = 0
+  const client: AsyncPSPClient = {
+    send: (_req, signal) => {
+      const call = ++calls
+      const step = script[Math.min(call, script.length) - 1]
+      if (step instanceof Error) return Promise.reject(step)
+      if (step === false) return false
+      return new Promise(resolve => {
+        const timer = globalThis.setTimeout(() => resolve(true), step)
+        signal.addEventListener('abort', () => {
+          aborted.push(call)
+          globalThis.clearTimeout(timer)
+        })
+      })
+    },
+  }
+  return { client, aborted, calls: () => calls }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('AsyncPaymentProcessor', () => {
+  it('重试之间实际等待 delayMs', async () => {
+    const { client, calls } = scriptedClient([false, false, 0])
+    const processor = new AsyncPaymentProcessor(
+      client,
+      new StrictRisk(),
+      new ExponentialBackoff()
+    )
+
+    const result = processor.process(usd)
+    await vi.advanceTimersByTimeAsync(199)
+    expect(calls()).toBe(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(calls()).toBe(2)
+    await vi.advanceTimersByTimeAsync(399)
+    expect(calls()).toBe(2)
+    await vi.runAllTimersAsync()
+
+    expect(formatPaymentResult(await result)).toBe(
+      'Risk(StrictRisk) & Retry(ExponentialBackoff) | attempt#1 -> fail | wait=200ms | attempt#2 -> fail | wait=400ms | attempt#3 -> success | final=ok'
+    )
+  })
+
+  it('单次调用超时会中止请求并计为失败，异常计为 error', async () => {
+    const { client, aborted } = scriptedClient([1000, new Error('boom'), 50])
+    const processor = new AsyncPaymentProcessor(
+      client,
+      new RelaxedRisk(),
+      new ExponentialBackoff(),
+      { timeoutMs: 100 }
+    )
+
+    const result = processor.process(usd)
+    await vi.runAllTimersAsync()
+
+    expect(formatPaymentResult(await result)).toBe(
+      'Risk(RelaxedRisk) & Retry(ExponentialBackoff) | attempt#1 -> timeout | wait=200ms | attempt#2 -> error | wait=400ms | attempt#3 -> success | final=ok'
+    )
+    expect(aborted).toEqual([1])
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('风控拒绝时不调用渠道', async () => {
+    const { client, calls } = scriptedClient([0])
+    const processor = new AsyncPaymentProcessor(
+      client,
+      new StrictRisk(),
+      new FixedIntervalRetry()
+    )
+
+    expect(
+      formatPaymentResult(await processor.process({ ...usd, amount: 5000 }))
+    ).toBe('Risk(StrictRisk) & Retry(FixedIntervalRetry) | risk=denied')
+    expect(calls()).toBe(0)
+  })
+})
+
+describe('JitteredRetry', () => {
+  it('在基础等待时间上随机减少，ratio 为 1 时为 full jitter', () => {
+    const base = new ExponentialBackoff()
+
+    expect(new JitteredRetry(base, 0.5, () => 0).delayMs(1)).toBe(200)
+    expect(new JitteredRetry(base, 0.5, () => 1).delayMs(1)).toBe(100)
+    expect(new JitteredRetry(base, 1, () => 0.25).delayMs(2)).toBe(300)
+    expect(new JitteredRetry(base).shouldRetry(3)).toBe(false)
+    expect(new JitteredRetry(base).name).toBe('ExponentialBackoff+Jitter')
+  })
+})
+
+describe('CircuitBreaker', () => {
+  it('连续失败后打开，冷却后半开只放行一次试探', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      cooldownMs: 1000,
+    })
+    const { client, calls } = scriptedClient([false, false, false, 0])
+    const processor = new AsyncPaymentProcessor(
+      client,
+      new StrictRisk(),
+      new FixedIntervalRetry(),
+      { breaker }
+    )
+
+    const first = processor.process(usd)
+    await vi.runAllTimersAsync()
+    expect(formatPaymentResult(await first)).toContain(
+      'attempt#2 -> fail | final=failed'
+    )
+    expect(breaker.state).toBe('open')
+
+    expect(formatPaymentResult(await processor.process(usd))).toBe(
+      'Risk(StrictRisk) & Retry(FixedIntervalRetry) | circuit=open | final=failed'
+    )
+    expect(calls()).toBe(2)
+
+    // 冷却后半开：试探失败则重新打开，不会继续重试
+    vi.advanceTimersByTime(1000)
+    expect(breaker.state).toBe('half-open')
+    expect(formatPaymentResult(await processor.process(usd))).toBe(
+      'Risk(StrictRisk) & Retry(FixedIntervalRetry) | attempt#1 -> fail | circuit=open | final=failed'
+    )
+    expect(breaker.state).toBe('open')
+
+    // 再次冷却后试探成功，熔断器关闭
+    vi.advanceTimersByTime(1000)
+    const recovered = processor.process(usd)
+    await vi.runAllTimersAsync()
+    expect(formatPaymentResult(await recovered)).toContain(
+      'attempt#1 -> success | final=ok'
+    )
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('半开状态只允许一个试探请求', () => {
+    let now = 0
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      cooldownMs: 10,
+      now: () => now,
+    })
+
+    breaker.recordFailure()
+    expect(breaker.canRequest()).toBe(false)
+    now = 10
+    expect(breaker.canRequest()).toBe(true)
+    expect(breaker.canRequest()).toBe(false)
+    breaker.recordSuccess()
+    expect(breaker.canRequest()).toBe(true)
+  })
+})
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  BehaviorSubject,
+  ReplaySubject,
+  Subject,
+} from '../src/patterns/behavioral/observer/Subject'
+import {
+  debounce,
+  distinctUntilChanged,
+  filter,
+  map,
+  merge,
+  take,
+} from '../src/patterns/behavioral/observer/Operators'
+import {
+  ConcreteObserverA,
+  ConcreteObserverB,
+  ConcreteSubject,
+  observerDemo,
+} from '../src/patterns/behavioral/observer/Observer'
+
+const boomError = new Error('boom')
+
+describe('Subject 家族', () => {
+  it('Subject 多播，Subscription 可以取消订阅', () => {
+    const subject = new Subject<number>()
+    const a: number[] = []
+    const b: number[] = []
+
+    const subA = subject.subscribe(value => a.push(value))
+    subject.subscribe(value => b.push(value))
+    subject.next(1)
+    subA.unsubscribe()
+    subject.next(2)
+
+    expect(a).toEqual([1])
+    expect(b).toEqual([1, 2])
+    expect(subA.closed).toBe(true)
+    expect(subject.observerCount).toBe(1)
+  })
+
+  it('没有 error 回调的订阅者报告错误而不是吞掉', () => {
+    const report = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const subject = new Subject<number>()
+    const subscription = subject.subscribe(() => {})
+
+    subject.error(boomError)
+
+    expect(report).toHaveBeenCalledWith(
+      'Unhandled error in Subscriber:',
+      boomError
+    )
+    expect(subscription.closed).toBe(true)
+    report.mockRestore()
+  })
+
+  it('complete / error 之后不再发值，晚到的订阅者立即收到终止通知', () => {
+    const subject = new Subject<number>()
+    const events: string[] = []
+
+    subject.subscribe({
+      next: value => events.push(`next:${value}`),
+      complete: () => events.push('complete'),
+    })
+    subject.next(1)
+    subject.complete()
+    subject.next(2)
+    subject.subscribe({ complete: () => events.push('late complete') })
+
+    const failing = new Subject<number>()
+    failing.error(new Error('boom'))
+    failing.subscribe({
+      error: err => events.push(`late error:${(err as Error).message}`),
+    })
+
+    expect(events).toEqual([
+      'next:1',
+      'complete',
+      'late complete',
+      'late error:boom',
+    ])
+  })
+
+  it('BehaviorSubject 新订阅者立即收到当前值', () => {
+    const subject = new BehaviorSubject('idle')
+    const values: string[] = []
+
+    subject.next('loading')
+    subject.subscribe(value => values.push(value))
+    subject.next('done')
+
+    expect(values).toEqual(['loading', 'done'])
+    expect(subject.value).toBe('done')
+  })
+
+  it('ReplaySubject 回放最近 bufferSize 个值', () => {
+    const subject = new ReplaySubject<number>(2)
+    const values: number[] = []
+
+    subject.next(1)
+    subject.next(2)
+    subject.next(3)
+    subject.complete()
+    subject.subscribe({
+      next: value => values.push(value),
+      complete: () => values.push(-1),
+    })
+
+    expect(values).toEqual([2, 3, -1])
+  })
+
+  it('asObservable 隐藏 next', () => {
+    const subject = new Subject<number>()
+    const observable = subject.asObservable()
+    const values: number[] = []
+
+    observable.subscribe(value => values.push(value))
+    subject.next(1)
+
+    expect(values).toEqual([1])
+    expect('next' in observable).toBe(false)
+  })
+})
+
+describe('操作符', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('map / filter / distinctUntilChanged 组合使用', () => {
+    const subject = new Subject<number>()
+    const values: string[] = []
+
+    subject
+      .pipe(
+        filter(n => n >= 0),
+        distinctUntilChanged(),
+        map(n => `#${n}`)
+      )
+      .subscribe(value => values.push(value))
+    ;[1, 1, -1, 2, 2, 1].forEach(n => subject.next(n))
+
+    expect(values).toEqual(['#1', '#2', '#1'])
+  })
+
+  it('take 取够后完成并取消上游订阅', () => {
+    const subject = new Subject<number>()
+    const events: string[] = []
+
+    subject.pipe(take(2)).subscribe({
+      next: value => events.push(`next:${value}`),
+      complete: () => events.push('complete'),
+    })
+    subject.next(1)
+    subject.next(2)
+    subject.next(3)
+
+    expect(events).toEqual(['next:1', 'next:2', 'complete'])
+    expect(subject.observerCount).toBe(0)
+  })
+
+  it('take 可以作用于同步发值的 BehaviorSubject', () => {
+    const subject = new BehaviorSubject(0)
+    const values: number[] = []
+
+    subject.pipe(take(1)).subscribe(value => values.push(value))
+    subject.next(1)
+
+    expect(values).toEqual([0])
+    expect(subject.observerCount).toBe(0)
+  })
+
+  it('debounce 只在静默期后发出最后一个值', () => {
+    vi.useFakeTimers()
+    const subject = new Subject<string>()
+    const values: string[] = []
+
+    subject.pipe(debounce(100)).subscribe(value => values.push(value))
+    subject.next('a')
+    vi.advanceTimersByTime(50)
+    subject.next('ab')
+    vi.advanceTimersByTime(99)
+    expect(values).toEqual([])
+
+    vi.advanceTimersByTime(1)
+    expect(values).toEqual(['ab'])
+
+    subject.next('abc')
+    subject.complete()
+    expect(values).toEqual(['ab', 'abc'])
+  })
+
+  it('debounce 取消订阅时清除定时器', () => {
+    vi.useFakeTimers()
+    const subject = new Subject<number>()
+    const values: number[] = []
+
+    const subscription = subject
+      .pipe(debounce(100))
+      .subscribe(value => values.push(value))
+    subject.next(1)
+    subscription.unsubscribe()
+    vi.runAllTimers()
+
+    expect(values).toEqual([])
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('merge 合并多个流，全部完成后才完成', () => {
+    const a = new Subject<number>()
+    const b = new Subject<string>()
+    const events: string[] = []
+
+    a.pipe(merge(b)).subscribe({
+      next: value => events.push(String(value)),
+      complete: () => events.push('complete'),
+    })
+    a.next(1)
+    b.next('x')
+    a.complete()
+    b.next('y')
+    b.complete()
+
+    expect(events).toEqual(['1', 'x', 'y', 'complete'])
+  })
+})
+
+describe('observerDemo', () => {
+  it('观察者通过操作符过滤自己关心的状态', () => {
+    expect(observerDemo([1, 5, 0]).split('\n')).toEqual([
+      "Subject: I'm doing something important.",
+      'Subject: My state has just changed to: 1',
+      'ConcreteObserverA: Reacted to the event.',
+      "Subject: I'm doing something important.",
+      'Subject: My state has just changed to: 5',
+      'ConcreteObserverB: Reacted to the event.',
+      "Subject: I'm doing something important.",
+      'Subject: My state has just changed to: 0',
+      'ConcreteObserverA: Reacted to the event.',
+    ])
+  })
+  it('attach 的观察者通过 update 收到通知', () => {
+    const output: string[] = []
+    const log = (message: string) => void output.push(message)
+    const subject = new ConcreteSubject(() => {})
+    const observerB = new ConcreteObserverB(log)
+    subject.attach(new ConcreteObserverA(log))
+    subject.attach(observerB)
+
+    subject.someBusinessLogic(0)
+    subject.detach(observerB)
+    subject.someBusinessLogic(5)
+    subject.someBusinessLogic(1)
+
+    expect(output).toEqual([
+      'ConcreteObserverA: Reacted to the event.',
+      'ConcreteObserverB: Reacted to the event.',
+      'ConcreteObserverA: Reacted to the event.',
+    ])
+  })
+})
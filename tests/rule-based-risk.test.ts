@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ExponentialBackoff,
+  formatPaymentResult,
+  PaymentProcessor,
+  PaymentRequest,
+  StrictRisk,
+  StripeClient,
+} from '../src/patterns/behavioral/strategy/PaymentStrategy'
+import {
+  defaultRiskConfig,
+  RiskRule,
+  RuleBasedRisk,
+} from '../src/patterns/behavioral/strategy/RuleBasedRisk'
+
+const pay = (
+  amount: number,
+  currency: PaymentRequest['currency'] = 'USD',
+  userId = 'u1'
+): PaymentRequest => ({ amount, currency, userId })
+
+describe('RuleBasedRisk', () => {
+  it('按币种限额和黑名单直接拒绝，并给出原因', () => {
+    const risk = RuleBasedRisk.fromJSON(defaultRiskConfig)
+
+    expect(risk.evaluate(pay(9000, 'EUR'))).toEqual({
+      action: 'deny',
+      score: 50,
+      reasons: [
+        {
+          rule: 'currencyLimit',
+          message: 'EUR amount 9000 exceeds limit 8000',
+        },
+        { rule: 'largeAmount', message: 'amount 9000 above 1000', score: 50 },
+      ],
+    })
+    expect(risk.evaluate(pay(10, 'USD', 'fraudster'))).toMatchObject({
+      action: 'deny',
+      reasons: [{ rule: 'blocklist' }],
+    })
+    expect(risk.evaluate(pay(9000, 'CNY')).action).toBe('review')
+    expect(risk.allow(pay(100))).toBe(true)
+  })
+
+  it('频率检查按用户和时间窗口计数，分数累加到 deny 阈值', () => {
+    let now = 0
+    const risk = RuleBasedRisk.fromJSON(defaultRiskConfig, { now: () => now })
+    const actions = () => risk.evaluate(pay(500)).action
+
+    // 前 3 笔放行；第 4 笔频率 50 分 -> review，转人工的支付不计入历史
+    expect([actions(), actions(), actions(), actions(), actions()]).toEqual([
+      'allow',
+      'allow',
+      'allow',
+      'review',
+      'review',
+    ])
+    // 大额 50 分叠加频率 50 分 -> deny
+    expect(risk.evaluate(pay(2000)).action).toBe('deny')
+    expect(risk.evaluate(pay(10, 'USD', 'u2')).action).toBe('allow')
+
+    now = 60_000
+    expect(actions()).toBe('allow')
+  })
+
+  it('历史只记录放行的支付，定期清理不再付款的用户', () => {
+    let now = 0
+    const risk = RuleBasedRisk.fromJSON(
+      {
+        thresholds: { review: 50, deny: 100 },
+        rules: [
+          { type: 'velocity', maxPayments: 1, windowMs: 1000 },
+          { type: 'velocity', id: 'daily', maxPayments: 5, windowMs: 5000 },
+        ],
+      },
+      { now: () => now }
+    )
+
+    risk.evaluate(pay(1))
+    risk.evaluate(pay(1, 'USD', 'u2'))
+    now = 500
+    expect(risk.evaluate(pay(1)).action).toBe('review')
+    // 转人工的那次不计入历史，1 秒窗口内只有 0 时刻的一笔
+    now = 1000
+    expect(risk.evaluate(pay(1)).action).toBe('allow')
+    expect(risk.trackedUsers()).toBe(2)
+
+    // 超过最长窗口后，u2 没有再付款也会被清理
+    now = 6000
+    risk.evaluate(pay(1, 'USD', 'u3'))
+    expect(risk.trackedUsers()).toBe(1)
+  })
+
+  it('从 JSON 文本加载，规则的 score / action 可以覆盖默认值', () => {
+    const risk = RuleBasedRisk.fromJSON(
+      JSON.stringify({
+        name: 'Custom',
+        thresholds: { review: 30, deny: 60 },
+        rules: [
+          { type: 'blocklist', userIds: ['u9'], score: 40 },
+          { type: 'amountAbove', amount: 100, action: 'review' },
+          { type: 'currencyLimit', limits: { USD: 50 }, score: 30 },
+        ],
+      })
+    )
+
+    expect(risk.name).toBe('Custom')
+    expect(risk.evaluate(pay(10, 'USD', 'u9'))).toMatchObject({
+      action: 'review',
+      score: 40,
+    })
+    expect(risk.evaluate(pay(200)).action).toBe('review')
+    expect(risk.evaluate(pay(200, 'USD', 'u9'))).toMatchObject({
+      action: 'deny',
+      score: 70,
+    })
+  })
+
+  it('拒绝无效配置和未知规则类型', () => {
+    expect(() => RuleBasedRisk.fromJSON('{"rules": []}')).toThrow(
+      'Risk config requires "thresholds" and "rules"'
+    )
+    expect(() =>
+      RuleBasedRisk.fromJSON({
+        thresholds: { review: 1, deny: 2 },
+        rules: [{ type: 'geoIp' } as never],
+      })
+    ).toThrow('Unknown risk rule type "geoIp"')
+  })
+
+  it('校验规则的数值字段和阈值', () => {
+    const load =
+      (rule: object, thresholds = { review: 1, deny: 2 }) =>
+      () =>
+        RuleBasedRisk.fromJSON(JSON.stringify({ thresholds, rules: [rule] }))
+
+    expect(load({ type: 'velocity', maxPayments: 3 })).toThrow(
+      '"rules[0].windowMs" must be a valid number'
+    )
+    expect(load({ type: 'amountAbove', amount: '1000' })).toThrow(
+      '"rules[0].amount" must be a valid number'
+    )
+    expect(load({ type: 'currencyLimit', limits: { USD: null } })).toThrow(
+      '"rules[0].limits.USD" must be a valid number'
+    )
+    expect(load({ type: 'blocklist', userIds: 'u1' })).toThrow(
+      'rules[0].userIds must be strings'
+    )
+    expect(load({ type: 'amountAbove', amount: 1, score: 'high' })).toThrow(
+      '"rules[0].score" must be a valid number'
+    )
+    expect(
+      load({ type: 'amountAbove', amount: 1 }, { review: 50, deny: 10 })
+    ).toThrow('"thresholds.deny" must not be below "thresholds.review"')
+    expect(
+      load({ type: 'amountAbove', amount: 1 }, {
+        review: '50',
+        deny: 100,
+      } as never)
+    ).toThrow('"thresholds.review" must be a valid number')
+  })
+
+  it('可以组合自定义规则', () => {
+    const nightRule: RiskRule = {
+      id: 'night',
+      evaluate: (_req, { now }) =>
+        new Date(now).getUTCHours() < 6
+          ? { message: 'night time payment', score: 60 }
+          : undefined,
+    }
+    const risk = new RuleBasedRisk(
+      [nightRule],
+      { review: 50, deny: 100 },
+      { now: () => Date.UTC(2026, 0, 1, 3) }
+    )
+
+    expect(risk.evaluate(pay(1)).reasons).toEqual([
+      { rule: 'night', message: 'night time payment', score: 60 },
+    ])
+  })
+})
+
+describe('PaymentProcessor 风控原因', () => {
+  it('在结果中列出命中的规则，review 不扣款', () => {
+    const processor = new PaymentProcessor(
+      new StripeClient(),
+      RuleBasedRisk.fromJSON(defaultRiskConfig),
+      new ExponentialBackoff()
+    )
+
+    expect(formatPaymentResult(processor.process(pay(100)))).toBe(
+      'Risk(DefaultRisk) & Retry(ExponentialBackoff) | attempt#1 -> success | final=ok'
+    )
+    expect(formatPaymentResult(processor.process(pay(5000)))).toBe(
+      'Risk(DefaultRisk) & Retry(ExponentialBackoff) | risk=review(largeAmount) | final=review'
+    )
+    expect(formatPaymentResult(processor.process(pay(20000)))).toBe(
+      'Risk(DefaultRisk) & Retry(ExponentialBackoff) | risk=denied(currencyLimit,largeAmount)'
+    )
+  })
+
+  it('没有 evaluate 的策略保持原有输出', () => {
+    const processor = new PaymentProcessor(
+      new StripeClient(),
+      new StrictRisk(),
+      new ExponentialBackoff()
+    )
+
+    expect(formatPaymentResult(processor.process(pay(5000)))).toBe(
+      'Risk(StrictRisk) & Retry(ExponentialBackoff) | risk=denied'
+    )
+  })
+})
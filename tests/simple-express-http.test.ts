@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { request as httpRequest, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import {
+  HttpError,
+  NextFunction,
+  Request,
+  Response,
+  SimpleExpress,
+} from '../src/patterns/behavioral/chain/examples/SimpleExpressMiddleware'
+import {
+  closeServer,
+  listen,
+} from '../src/patterns/behavioral/chain/examples/SimpleExpressHttp'
+
+// 分块发送请求体（不带 Content-Length），返回状态码
+function postChunked(url: string, chunks: string[]): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const req = httpRequest(url, { method: 'POST' }, res => {
+      res.resume()
+      resolve(res.statusCode ?? 0)
+    })
+    req.on('error', reject)
+    for (const chunk of chunks) req.write(chunk)
+    req.end()
+  })
+}
+
+describe('SimpleExpress node:http 适配器', () => {
+  let server: Server
+  let base: string
+
+  beforeAll(async () => {
+    const app = new SimpleExpress()
+      .use((req, res, next) => {
+        res.headers['X-Request-Path'] = req.url
+        return next()
+      })
+      .get('/users/:id', (req, res) =>
+        res.json({
+          id: req.params.id,
+          query: req.query,
+          agent: req.headers['x-agent'],
+        })
+      )
+      .post('/echo', (req, res) =>
+        res.status(201).send({ body: req.body, type: typeof req.body })
+      )
+      .get('/text', (_req, res) => res.send('plain'))
+      .get('/fail', () => {
+        throw Object.assign(new Error('Nope'), { status: 409 })
+      })
+      .use((err: unknown, _req: Request, _res: Response, next: NextFunction) =>
+        next(err)
+      )
+
+    server = await listen(app, 0, '127.0.0.1', { bodyLimit: 64 })
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await closeServer(server)
+  })
+
+  it('转换请求头、路径参数和查询字符串，写回状态码和响应头', async () => {
+    const response = await globalThis.fetch(
+      `${base}/users/42?tab=posts&page=2`,
+      {
+        headers: { 'X-Agent': 'vitest' },
+      }
+    )
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('content-type')).toBe('application/json')
+    expect(response.headers.get('x-request-path')).toBe(
+      '/users/42?tab=posts&page=2'
+    )
+    expect(await response.json()).toEqual({
+      id: '42',
+      query: { tab: 'posts', page: '2' },
+      agent: 'vitest',
+    })
+  })
+
+  it('解析 JSON 请求体，其他类型保留字符串', async () => {
+    const json = await globalThis.fetch(`${base}/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json; charset=utf-8' },
+      body: JSON.stringify({ hello: '世界' }),
+    })
+    const text = await globalThis.fetch(`${base}/echo`, {
+      method: 'POST',
+      body: 'raw',
+    })
+
+    expect(json.status).toBe(201)
+    expect(await json.json()).toEqual({
+      body: { hello: '世界' },
+      type: 'object',
+    })
+    expect(await text.json()).toEqual({ body: 'raw', type: 'string' })
+  })
+
+  it('请求体超过 bodyLimit 时在读取过程中返回 413', async () => {
+    const declared = await globalThis.fetch(`${base}/echo`, {
+      method: 'POST',
+      body: 'x'.repeat(65),
+    })
+
+    expect(declared.status).toBe(413)
+    expect(await declared.json()).toEqual({ error: 'Payload Too Large' })
+    expect(
+      await postChunked(`${base}/echo`, ['x'.repeat(40), 'x'.repeat(40)])
+    ).toBe(413)
+    expect(await postChunked(`${base}/echo`, ['x'.repeat(40)])).toBe(201)
+  })
+
+  it('无法解析的 JSON 返回 400', async () => {
+    const response = await globalThis.fetch(`${base}/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"broken"',
+    })
+
+    expect(response.status).toBe(400)
+    expect(response.headers.get('connection')).not.toBe('close')
+    expect(await response.json()).toEqual({ error: 'Invalid JSON body' })
+  })
+
+  it('字符串按纯文本发送，错误和 404 按中间件的结果返回', async () => {
+    const text = await globalThis.fetch(`${base}/text`)
+    const fail = await globalThis.fetch(`${base}/fail`)
+    const missing = await globalThis.fetch(`${base}/missing`)
+
+    expect(text.headers.get('content-type')).toBe('text/plain; charset=utf-8')
+    expect(await text.text()).toBe('plain')
+    expect(fail.status).toBe(409)
+    expect(await fail.json()).toEqual({ error: 'Nope' })
+    expect(missing.status).toBe(404)
+    expect(await missing.json()).toEqual({ error: 'Cannot GET /missing' })
+  })
+})
+
+describe('SimpleExpress node:http 适配器兜底', () => {
+  it('路由器本身失败时返回错误状态码，而不是留下未处理的 rejection', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const app = new SimpleExpress()
+    const failures = [new HttpError(400, 'Bad path'), new Error('boom')]
+    app.handle = async () => {
+      throw failures.shift()
+    }
+    const server = await listen(app)
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+    try {
+      const bad = await globalThis.fetch(`${base}/users/%E0%A4%A`)
+      const broken = await globalThis.fetch(`${base}/users/1`)
+
+      expect(bad.status).toBe(400)
+      expect(await bad.json()).toEqual({ error: 'Bad path' })
+      expect(broken.status).toBe(500)
+      expect(await broken.json()).toEqual({ error: 'Internal Server Error' })
+      expect(errors).toHaveBeenCalledTimes(1)
+    } finally {
+      errors.mockRestore()
+      await closeServer(server)
+    }
+  })
+})
@@ -0,0 +1,361 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  createRequest,
+  createResponse,
+  NextFunction,
+  Request,
+  Response,
+  Router,
+  SimpleExpress,
+} from '../src/patterns/behavioral/chain/examples/SimpleExpressMiddleware'
+
+describe('SimpleExpress 异步中间件', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('await next() 按洋葱模型执行', async () => {
+    const events: string[] = []
+    const app = new SimpleExpress()
+      .use(async (_req, _res, next) => {
+        events.push('a:before')
+        await next()
+        events.push('a:after')
+      })
+      .use(async (_req, res) => {
+        await Promise.resolve()
+        events.push('handler')
+        res.send('ok')
+      })
+
+    const res = createResponse()
+    await app.handle(createRequest('/'), res)
+
+    expect(events).toEqual(['a:before', 'handler', 'a:after'])
+    expect(res.body).toBe('ok')
+    expect(res.sent).toBe(true)
+  })
+
+  it('next(err) 和抛出的异常都跳到错误处理中间件', async () => {
+    const seen: string[] = []
+    const app = new SimpleExpress()
+      .get('/next', (_req, _res, next) => next(new Error('via next')))
+      .get('/throw', async () => {
+        throw new Error('via throw')
+      })
+      .use((_req, _res, next) => {
+        seen.push('skipped')
+        return next()
+      })
+      .use(
+        (err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+          seen.push((err as Error).message)
+          res.status(418).send({ error: (err as Error).message })
+        }
+      )
+
+    const res1 = createResponse()
+    await app.handle(createRequest('/next'), res1)
+    const res2 = createResponse()
+    await app.handle(createRequest('/throw'), res2)
+
+    expect(seen).toEqual(['via next', 'via throw'])
+    expect(res2.statusCode).toBe(418)
+    expect(res2.body).toEqual({ error: 'via throw' })
+  })
+
+  it('错误处理中间件可以把错误继续传下去，未处理的错误返回 500', async () => {
+    const app = new SimpleExpress()
+      .use(() => {
+        throw new Error('boom')
+      })
+      .use((err: unknown, _req: Request, _res: Response, next: NextFunction) =>
+        next(err)
+      )
+
+    const res = createResponse()
+    await app.handle(createRequest('/'), res)
+
+    expect(res.statusCode).toBe(500)
+    expect(res.body).toEqual({ error: 'Internal Server Error' })
+    expect(console.error).toHaveBeenCalledOnce()
+  })
+
+  it('错误自带 4xx 状态码时使用该状态码和错误信息', async () => {
+    const app = new SimpleExpress().use(() => {
+      throw Object.assign(new Error('Payload Too Large'), { status: 413 })
+    })
+
+    const res = createResponse()
+    await app.handle(createRequest('/'), res)
+
+    expect(res.statusCode).toBe(413)
+    expect(res.body).toEqual({ error: 'Payload Too Large' })
+  })
+
+  it('路由按方法和路径匹配，路径参数写入 req.params', async () => {
+    const app = new SimpleExpress()
+      .get('/users/:id', (req, res) => res.json(req.params))
+      .post('/users/:id/posts/:postId', (req, res) => res.json(req.params))
+
+    const res1 = createResponse()
+    await app.handle(createRequest('/users/a%20b?tab=1'), res1)
+    const res2 = createResponse()
+    await app.handle(createRequest('/users/7/posts/9', 'POST'), res2)
+    const res3 = createResponse()
+    await app.handle(createRequest('/users/7/comments', 'DELETE'), res3)
+
+    expect(JSON.parse(res1.body)).toEqual({ id: 'a b' })
+    expect(JSON.parse(res2.body)).toEqual({ id: '7', postId: '9' })
+    expect(res3.statusCode).toBe(404)
+    expect(res3.body).toEqual({ error: 'Cannot DELETE /users/7/comments' })
+  })
+
+  it('路径参数的百分号编码格式错误时返回 400', async () => {
+    const app = new SimpleExpress().get('/users/:id', (req, res) =>
+      res.json(req.params)
+    )
+
+    const res = createResponse()
+    await app.handle(createRequest('/users/%E0%A4%A'), res)
+
+    expect(res.statusCode).toBe(400)
+    expect(res.body).toEqual({ error: 'Malformed URL parameter' })
+  })
+
+  it('use(path) 按路径前缀匹配，执行时去掉前缀', async () => {
+    const hits: string[] = []
+    const app = new SimpleExpress()
+      .use('/api', (req, _res, next) => {
+        hits.push(`${req.baseUrl} ${req.url}`)
+        return next()
+      })
+      .use((req, res) => res.send(req.url))
+
+    const res = createResponse()
+    await app.handle(createRequest('/api/users?page=1'), res)
+    for (const url of ['/api', '/apix', '/other']) {
+      await app.handle(createRequest(url), createResponse())
+    }
+
+    expect(hits).toEqual(['/api /users?page=1', '/api /'])
+    expect(res.body).toBe('/api/users?page=1')
+  })
+
+  it('重复发送响应或重复调用 next 会抛错', async () => {
+    const errors: string[] = []
+    const app = new SimpleExpress()
+      .use(async (_req, _res, next) => {
+        await next()
+        await next()
+      })
+      .use((_req, res) => {
+        res.send('first')
+        res.send('second')
+      })
+      .use(
+        (err: unknown, _req: Request, _res: Response, _next: NextFunction) => {
+          errors.push((err as Error).message)
+        }
+      )
+
+    const res = createResponse()
+    await app.handle(createRequest('/'), res)
+
+    expect(errors).toEqual([
+      'Response already sent',
+      'next() called multiple times',
+    ])
+    expect(res.body).toBe('first')
+  })
+})
+
+describe('SimpleExpress Router', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function createApp(seen: string[] = []): SimpleExpress {
+    const requireAdmin = (req: Request, res: Response, next: NextFunction) =>
+      req.headers['x-role'] === 'admin'
+        ? next()
+        : res.status(403).send({ error: 'Forbidden' })
+
+    const posts = new Router().get('/:postId', (req, res) =>
+      res.send(`${req.baseUrl}|${req.url}|${req.params.postId}`)
+    )
+    const users = new Router()
+      .use((req, _res, next) => {
+        seen.push(`users ${req.baseUrl} ${req.url}`)
+        return next()
+      })
+      .get('/', (_req, res) => res.send('list'))
+      .get('/:id', (req, res) => res.send(`user ${req.params.id}`))
+      .put('/:id', requireAdmin, (req, res) =>
+        res.send(`updated ${req.params.id}`)
+      )
+      .delete('/:id', requireAdmin, (req, res) =>
+        res.send(`deleted ${req.params.id}`)
+      )
+      .use('/posts', posts)
+
+    return new SimpleExpress()
+      .use('/api/users', users)
+      .get('/api/health', (_req, res) => res.send('ok'))
+      .use((req, _res, next) => {
+        seen.push(`after ${req.baseUrl} ${req.url}`)
+        return next()
+      })
+  }
+
+  async function request(
+    app: SimpleExpress,
+    url: string,
+    method = 'GET',
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const res = createResponse()
+    await app.handle(createRequest(url, method, { headers }), res)
+    return res
+  }
+
+  it('挂载的路由器看到去掉前缀的 url 和 baseUrl，嵌套挂载逐级累加', async () => {
+    const seen: string[] = []
+    const app = createApp(seen)
+
+    expect((await request(app, '/api/users')).body).toBe('list')
+    expect((await request(app, '/api/users/7')).body).toBe('user 7')
+    expect((await request(app, '/api/users/posts/9?x=1')).body).toBe(
+      '/api/users/posts|/9?x=1|9'
+    )
+    expect(seen).toEqual([
+      'users /api/users /',
+      'users /api/users /7',
+      'users /api/users /posts/9?x=1',
+    ])
+  })
+
+  it('路由级中间件只作用于该路由', async () => {
+    const app = createApp()
+
+    const denied = await request(app, '/api/users/7', 'PUT')
+    const allowed = await request(app, '/api/users/7', 'PUT', {
+      'x-role': 'admin',
+    })
+
+    expect(denied.statusCode).toBe(403)
+    expect(allowed.body).toBe('updated 7')
+  })
+
+  it('路由器匹配不到时交回上一级，url 恢复原值，最终返回 404', async () => {
+    const seen: string[] = []
+    const app = createApp(seen)
+
+    const res = await request(app, '/api/users/7/unknown')
+
+    expect(seen).toEqual([
+      'users /api/users /7/unknown',
+      'after  /api/users/7/unknown',
+    ])
+    expect(res.statusCode).toBe(404)
+    expect(res.body).toEqual({ error: 'Cannot GET /api/users/7/unknown' })
+  })
+
+  it('路径匹配但方法不匹配时返回 405 和 Allow 头', async () => {
+    const app = createApp()
+
+    const res = await request(app, '/api/users/7', 'POST')
+    const health = await request(app, '/api/health', 'DELETE')
+
+    expect(res.statusCode).toBe(405)
+    expect(res.headers['Allow']).toBe('DELETE, GET, HEAD, PUT')
+    expect(res.body).toEqual({ error: 'Method POST Not Allowed' })
+    expect(health.headers['Allow']).toBe('GET, HEAD')
+  })
+
+  it('挂载的路由器方法不匹配时交回上一级，后面的路由仍然可以处理', async () => {
+    const users = new Router().get('/:id', (_req, res) => res.send('get'))
+    const app = new SimpleExpress()
+      .use('/users', users)
+      .post('/users/:id', (_req, res) => res.send('post'))
+
+    expect((await request(app, '/users/1', 'POST')).body).toBe('post')
+    expect((await request(app, '/users/1', 'PUT')).headers['Allow']).toBe(
+      'GET, HEAD, POST'
+    )
+  })
+
+  it('HEAD 请求由 GET 路由处理', async () => {
+    const app = createApp()
+
+    const res = await request(app, '/api/users/7', 'HEAD')
+
+    expect(res.statusCode).toBe(200)
+    expect(res.body).toBe('user 7')
+  })
+
+  it('next() 返回后 url 和 baseUrl 恢复为挂载节点看到的值', async () => {
+    const seen: string[] = []
+    const app = new SimpleExpress()
+      .use('/api', async (req, _res, next) => {
+        await next()
+        seen.push(`${req.baseUrl} ${req.url}`)
+      })
+      .use((_req, res) => res.send('ok'))
+
+    await request(app, '/api/users')
+
+    expect(seen).toEqual(['/api /users'])
+  })
+
+  it('notFound 代替默认的交回上一级', async () => {
+    const api = new Router()
+      .get('/ping', (_req, res) => res.send('pong'))
+      .notFound((req, res) =>
+        res.status(404).send({ error: `No API route ${req.url}` })
+      )
+    const app = new SimpleExpress()
+      .use('/api', api)
+      .use((_req, res) => res.send('spa'))
+
+    expect((await request(app, '/api/nope')).body).toEqual({
+      error: 'No API route /nope',
+    })
+    expect((await request(app, '/home')).body).toBe('spa')
+  })
+
+  it('子路由器中的错误交给上一级的错误处理中间件', async () => {
+    const api = new Router().get('/boom', () => {
+      throw new Error('nested')
+    })
+    const app = new SimpleExpress()
+      .use('/api', api)
+      .use((err: unknown, req: Request, res: Response, _next: NextFunction) =>
+        res.status(500).send(`${(err as Error).message} at ${req.url}`)
+      )
+
+    expect((await request(app, '/api/boom')).body).toBe('nested at /api/boom')
+  })
+
+  it('输出展开后的路由表', () => {
+    expect(createApp().printRoutes().split('\n')).toEqual([
+      'USE    /api/users',
+      'GET    /api/users',
+      'GET    /api/users/:id',
+      'PUT    /api/users/:id (2 handlers)',
+      'DELETE /api/users/:id (2 handlers)',
+      'GET    /api/users/posts/:postId',
+      'GET    /api/health',
+      'USE    /',
+    ])
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import {
+  enUS,
+  formatMessage,
+  v,
+  validate,
+} from '../src/patterns/behavioral/chain/examples/ValidationSchema'
+import { validateForm } from '../src/patterns/behavioral/chain/examples/ValidationChain'
+
+const schema = v.object({
+  name: v.string().label('姓名').min(2).max(8),
+  age: v.number().integer().min(0).max(150),
+  email: v.string().email().optional(),
+  address: v.object({
+    city: v.string(),
+    zip: v.string().pattern(/^\d{6}$/),
+  }),
+  items: v
+    .array(v.object({ name: v.string().min(1), qty: v.number().min(1) }))
+    .min(1),
+})
+
+const valid = {
+  name: '张三',
+  age: 30,
+  address: { city: '上海', zip: '200000' },
+  items: [{ name: 'book', qty: 1 }],
+}
+
+describe('ValidationSchema', () => {
+  it('合法数据通过校验，可选字段可以省略', async () => {
+    expect(await validate(schema, valid)).toEqual({ valid: true, errors: [] })
+  })
+
+  it('collect 模式收集所有字段的错误，路径包含嵌套对象和数组下标', async () => {
+    const report = await validate(schema, {
+      name: '张',
+      age: 1.5,
+      email: 'not-an-email',
+      address: { zip: 'abc' },
+      items: [{ name: 'ok', qty: 1 }, { name: '', qty: 0 }, 'x'],
+    })
+
+    expect(report.valid).toBe(false)
+    expect(report.errors.map(({ path, code }) => [path, code])).toEqual([
+      ['name', 'string.min'],
+      ['age', 'number.integer'],
+      ['email', 'string.email'],
+      ['address.city', 'required'],
+      ['address.zip', 'string.pattern'],
+      ['items[1].name', 'string.min'],
+      ['items[1].qty', 'number.min'],
+      ['items[2]', 'type'],
+    ])
+    expect(report.errors[0].message).toBe('姓名至少2个字符')
+    expect(report.errors[3].message).toBe('address.city不能为空')
+  })
+
+  it('failFast 模式在第一个错误处停止，同一字段只报告第一个失败的规则', async () => {
+    const report = await validate(
+      schema,
+      { ...valid, name: 123, age: -1 },
+      { mode: 'failFast' }
+    )
+    const short = await validate(v.string().min(3).max(1), 'ab')
+
+    expect(report.errors).toEqual([
+      expect.objectContaining({ path: 'name', code: 'type' }),
+    ])
+    expect(short.errors.map(error => error.code)).toEqual(['string.min'])
+  })
+
+  it('支持异步自定义规则，可以读取根对象', async () => {
+    const taken = new Set(['admin'])
+    const signup = v.object({
+      username: v
+        .string()
+        .custom(
+          'username.taken',
+          async name => !taken.has(name),
+          '用户名已被占用'
+        ),
+      password: v.string(),
+      confirm: v
+        .string()
+        .custom(
+          'password.mismatch',
+          (value, root) => value === (root as { password: string }).password
+        ),
+    })
+
+    const report = await validate(signup, {
+      username: 'admin',
+      password: 'secret',
+      confirm: 'other',
+    })
+
+    expect(report.errors).toEqual([
+      expect.objectContaining({
+        path: 'username',
+        code: 'username.taken',
+        message: '用户名已被占用',
+      }),
+      expect.objectContaining({
+        path: 'confirm',
+        message: 'confirm不符合要求',
+      }),
+    ])
+  })
+
+  it('替换消息表切换语言，模板支持参数和函数', async () => {
+    const report = await validate(
+      schema,
+      { ...valid, age: 200 },
+      { messages: enUS }
+    )
+
+    expect(report.errors[0].message).toBe('age must be at most 150')
+    expect(
+      formatMessage(
+        'string.min',
+        { label: 'Name', min: 2 },
+        { 'string.min': params => `${params.label} too short` }
+      )
+    ).toBe('Name too short')
+    expect(formatMessage('unknown', { label: 'x' }, {})).toBe('unknown')
+  })
+})
+
+describe('validateForm 兼容模式', () => {
+  const form = {
+    username: 'john',
+    email: 'john@example.com',
+    password: '123456',
+  }
+
+  it('保持 { valid, error } 结构和原有错误信息', async () => {
+    expect(await validateForm(form)).toEqual({ valid: true })
+    expect(await validateForm({ ...form, username: 'ab' })).toEqual({
+      valid: false,
+      error: '用户名至少3个字符',
+    })
+    expect(await validateForm({ ...form, email: 'invalid' })).toEqual({
+      valid: false,
+      error: '邮箱格式不正确',
+    })
+  })
+
+  it('collect 模式合并所有错误', async () => {
+    expect(
+      await validateForm(
+        { username: 'ab', email: 'x', password: '1' },
+        'collect'
+      )
+    ).toEqual({
+      valid: false,
+      error: '用户名至少3个字符；邮箱格式不正确；密码至少6个字符',
+    })
+  })
+})
@@ -8,5 +8,9 @@ export default defineConfig({
       reporter: ['text', 'html'],
     },
     include: ['tests/**/*.test.ts'],
+    // 内存相关的测试在测量前调用 gc()，只比较仍然存活的内存
+    poolOptions: {
+      forks: { execArgv: ['--expose-gc'] },
+    },
   },
 })